@@ -2,12 +2,218 @@ import * as React from "react";
 import { useState } from "react";
 import "./styles.css";
 
+import { WebGLRenderer } from "./GridRenderer/webGLRenderer";
+import { Canvas2DRenderer } from "./GridRenderer/canvas2DRenderer";
 import {
-  GridRenderer,
-  renderGrid as renderGridWebGL
-} from "./GridRenderer/webGLRenderer";
-import { renderGrid } from "./GridRenderer/canvas2DRenderer";
-import { Coord, GridParams } from "./GridRenderer/rendererTypes";
+  Coord,
+  GridParams,
+  BoundaryGrid,
+  PerspectiveGrid,
+  Renderer,
+  CellHighlights,
+  GridPlacement
+} from "./GridRenderer/rendererTypes";
+import { perspectiveFromGrid } from "./GridRenderer/perspective";
+import { moveBoundary } from "./GridRenderer/boundaries";
+import { cellAt, cellCenter } from "./GridRenderer/cellGeometry";
+import { defaultGridStyle } from "./GridRenderer/gridStyle";
+import { renderRulers } from "./GridRenderer/rulers";
+import { deriveBoundaries } from "./GridDetection/deriveBoundaries";
+import { detectGrid } from "./GridDetection/detectGrid";
+import {
+  createExtractionWorker,
+  ExtractionCancelledError,
+  ExtractionWorker
+} from "./PixelExtractor/extractionWorker";
+import {
+  ExtractedPixels,
+  ExtractionSettings,
+  OutputMode,
+  PaletteEntry,
+  PaletteMethod,
+  SamplingMethod
+} from "./PixelExtractor/extractorTypes";
+import { derivePalette } from "./PixelExtractor/palette";
+import {
+  differenceHeatMap,
+  Reconstruction
+} from "./PixelExtractor/reconstruction";
+import { TuningObjective } from "./PixelExtractor/tuning";
+import {
+  defaultGreyscaleOptions,
+  GreyscaleOptions
+} from "./PixelExtractor/greyscale";
+import {
+  defaultThresholdOptions,
+  ThresholdOptions
+} from "./PixelExtractor/threshold";
+import { ThresholdControls } from "./ThresholdControls";
+import { ConfidenceControls } from "./ConfidenceControls";
+import { GridStyleControls } from "./GridStyleControls";
+import {
+  ambiguousCells,
+  defaultAmbiguityOptions
+} from "./PixelExtractor/confidence";
+import { PalettePanel } from "./PalettePanel";
+import { GreyscaleControls } from "./GreyscaleControls";
+import {
+  formatMetrics,
+  ReconstructionPanel,
+  ReconstructionView
+} from "./ReconstructionPanel";
+import { IndexedImage } from "./Exporters/exportTypes";
+import {
+  decodeImage,
+  encodeImage,
+  ExportFormat,
+  exportFormats
+} from "./Exporters/imageFormats";
+import { defaultAsciiArtOptions } from "./Exporters/asciiArt";
+import { defaultCExportOptions } from "./Exporters/cSourceExporter";
+import { CExportPanel } from "./CExportPanel";
+import { TilePanel } from "./TilePanel";
+import { defaultTileParams } from "./Tiles/tiles";
+import { defaultBDFOptions } from "./Exporters/bdfExporter";
+import {
+  CellValue,
+  EditLayer,
+  GridGeometry,
+  parseCellKey,
+  remapPaletteEdits,
+  setCellEdit,
+  staleEdits
+} from "./PixelEditor/editLayer";
+import { EditToolbar, PaintTool } from "./EditToolbar";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  History,
+  jumpTo,
+  mapHistory,
+  pushHistory,
+  redo,
+  undo
+} from "./History/history";
+import { HistoryPanel } from "./HistoryPanel";
+import {
+  parseProject,
+  Project,
+  ProjectContent,
+  serializeProject,
+  toDataUrl
+} from "./Project/project";
+import { loadSession, saveSession } from "./Project/autosave";
+import { BatchPanel } from "./BatchPanel";
+import { GridControls } from "./GridControls";
+import { RegionPanel } from "./RegionPanel";
+import {
+  defaultRegionSettings,
+  editedImage,
+  exportRegions,
+  newRegionName,
+  Region
+} from "./Regions/regions";
+
+// Auto-fit results below this confidence leave the grid untouched
+const minAutoFitConfidence = 0.5;
+
+// Delay (ms) between the last change and autosaving the session
+const autosaveDelay = 1000;
+
+// Distance (CSS pixels) within which a perspective corner handle or a
+// boundary line is grabbed
+const handleRadius = 8;
+
+// Zoom limits, and the zoom factor for one step of the mouse wheel
+const minImageScale = 0.1;
+const maxImageScale = 40;
+const wheelZoomFactor = 1.2;
+
+// Wheel events less than this many milliseconds apart are one zoom gesture
+const wheelGestureDelay = 300;
+
+// Largest canvas the browsers allow: Chrome and Firefox limit each side and
+// Safari limits the area. Larger canvases are left blank.
+const maxCanvasSide = 32767;
+const maxCanvasArea = 4096 * 4096;
+
+// Keyboard nudge steps, in source pixels. Alt gives the fine step.
+const nudgeStep = 1;
+const fineNudgeStep = 0.1;
+
+const arrowDirections: { [key: string]: Coord } = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1]
+};
+
+// Whole number scale of the extracted image preview at a zoom, no larger
+// than the canvas limits allow
+function previewScaleOf(width: number, height: number, imageScale: number) {
+  const largest = Math.min(
+    maxCanvasSide / Math.max(1, width, height),
+    Math.sqrt(maxCanvasArea / Math.max(1, width * height))
+  );
+
+  return Math.max(1, Math.min(Math.round(imageScale), Math.floor(largest)));
+}
+
+// Square cells take the mean of the width and height
+function squareCell(size: Coord): Coord {
+  const side = (size[0] + size[1]) / 2;
+  return [side, side];
+}
+
+// State covered by undo/redo
+interface TrackedState {
+  gridOffset: Coord;
+  gridSize: Coord;
+  gridMaxPixelsRaw: Coord;
+  perspective: PerspectiveGrid | undefined;
+  boundaries: BoundaryGrid | undefined;
+  threshold: ThresholdOptions;
+  edits: EditLayer;
+  imageScale: number;
+}
+
+// Object.is so that NaN (an empty number input) compares equal to itself
+function sameCoord(a: Coord, b: Coord) {
+  return Object.is(a[0], b[0]) && Object.is(a[1], b[1]);
+}
+
+// Describe what changed between two snapshots, or "" if nothing did
+function describeChange(from: TrackedState, to: TrackedState) {
+  const changes: string[] = [];
+
+  if (!sameCoord(from.gridOffset, to.gridOffset)) {
+    changes.push("Move grid");
+  }
+  if (!sameCoord(from.gridSize, to.gridSize)) {
+    changes.push("Resize cells");
+  }
+  if (!sameCoord(from.gridMaxPixelsRaw, to.gridMaxPixelsRaw)) {
+    changes.push("Change max cells");
+  }
+  if (from.perspective !== to.perspective) {
+    changes.push("Change perspective");
+  }
+  if (from.boundaries !== to.boundaries) {
+    changes.push("Move boundaries");
+  }
+  if (from.threshold !== to.threshold) {
+    changes.push("Change threshold");
+  }
+  if (from.edits !== to.edits) {
+    changes.push("Edit cells");
+  }
+  if (from.imageScale !== to.imageScale) {
+    changes.push("Change scale");
+  }
+
+  return changes.join(", ");
+}
 
 /**
  *
@@ -39,6 +245,18 @@ async function pickFile(
   });
 }
 
+// Image types that can be opened, by the file picker, pasting or dropping
+const imageTypes = ["image/png", "image/jpeg", "image/bmp"];
+
+// Whether a keyboard or clipboard event is aimed at a form field
+function isTextEntry(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement
+  );
+}
+
 function saveObjectToFile(objectToSave: any, filename: string) {
   const url = URL.createObjectURL(objectToSave);
 
@@ -53,13 +271,14 @@ function saveObjectToFile(objectToSave: any, filename: string) {
 export default function App() {
   const [imageUrl, setImageUrl] = useState<string | undefined>();
 
-  const updateImage = React.useCallback((file: File | undefined) => {
+  // Takes a file, or the URL of an image (such as a data URL from a project)
+  const updateImage = React.useCallback((image: File | string | undefined) => {
     setImageUrl((imageUrl) => {
-      if (imageUrl !== undefined) {
+      if (imageUrl !== undefined && imageUrl.indexOf("blob:") === 0) {
         URL.revokeObjectURL(imageUrl);
       }
 
-      return file !== undefined ? URL.createObjectURL(file) : undefined;
+      return image instanceof File ? URL.createObjectURL(image) : image;
     });
   }, []);
 
@@ -68,26 +287,213 @@ export default function App() {
     return () => updateImage(undefined);
   }, [updateImage]);
 
+  // More than one file starts a batch. The first file of the batch is shown
+  // so that the grid can be fitted to it.
+  const [batchFiles, setBatchFiles] = React.useState<File[]>([]);
+
+  const [imageError, setImageError] = React.useState("");
+
+  // Opens one image, or starts a batch for several. Files of other types are
+  // skipped and reported.
+  const openImageFiles = React.useCallback(
+    (files: File[]) => {
+      const images = files.filter((file) => imageTypes.indexOf(file.type) >= 0);
+      const rejected = files.filter((file) => images.indexOf(file) < 0);
+
+      setImageError(
+        rejected.length > 0
+          ? `Unsupported file type: ${rejected
+              .map((file) => file.name || file.type || "unknown")
+              .join(", ")}`
+          : ""
+      );
+
+      if (images.length === 0) {
+        return;
+      }
+
+      updateImage(images[0]);
+      setBatchFiles(images.length > 1 ? images : []);
+    },
+    [updateImage]
+  );
+
   const onBrowse = async () => {
-    const files = await pickFile("image/png, image/jpeg, image/bmp", false);
+    const files = await pickFile(imageTypes.join(", "), true);
 
-    updateImage(files ? files[0] : undefined);
+    if (files && files.length > 0) {
+      openImageFiles(Array.from(files));
+    }
   };
 
+  // Ctrl+V pastes an image, such as a screenshot, from the clipboard
+  React.useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      if (isTextEntry(event.target) || !event.clipboardData) {
+        return;
+      }
+
+      // Pastes without files, such as text, are left alone
+      const files = Array.from(event.clipboardData.files);
+      if (files.length === 0) {
+        return;
+      }
+
+      event.preventDefault();
+
+      if (!files.some((file) => imageTypes.indexOf(file.type) >= 0)) {
+        setImageError("The clipboard doesn't contain an image");
+        return;
+      }
+
+      openImageFiles(files);
+    };
+
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, [openImageFiles]);
+
+  // Files dropped onto the image box are opened like picked files
+  const [dropping, setDropping] = React.useState(false);
+
+  const onDragOver = React.useCallback((event: React.DragEvent) => {
+    if (event.dataTransfer.types.indexOf("Files") < 0) {
+      return;
+    }
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setDropping(true);
+  }, []);
+
+  const onDragLeave = React.useCallback(() => setDropping(false), []);
+
+  const onDrop = React.useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropping(false);
+      openImageFiles(Array.from(event.dataTransfer.files));
+    },
+    [openImageFiles]
+  );
+
   const [dragInfo, setDragInfo] = React.useState({
     on: false,
     size: false,
-    gridCoordinate: [0, 0]
+    gridCoordinate: [0, 0],
+
+    // Perspective corner being dragged, or -1
+    corner: -1,
+
+    // Boundary line being dragged as [axis, index], or [-1, -1]
+    boundary: [-1, -1]
   });
 
   const [imageScale, setImageScale] = React.useState(2);
-  const [gridOffset, setGridOffset] = React.useState<Coord>([0, 0]);
-  const [gridSize, setGridSize] = React.useState<Coord>([8, 8]);
-  const [gridMaxPixelsRaw, setGridMaxPixelsRaw] = React.useState<Coord>([
-    500,
-    500
+  const [gridOffset, setGridOffset] = React.useState<Coord>(
+    defaultRegionSettings.grid.gridOffset
+  );
+  const [gridSize, setGridSize] = React.useState<Coord>(
+    defaultRegionSettings.grid.cellSize
+  );
+  const [gridMaxPixelsRaw, setGridMaxPixelsRaw] = React.useState<Coord>(
+    defaultRegionSettings.grid.maxCells
+  );
+
+  // Named regions of the image, each with its own grid, extraction options
+  // and edits. The active region is edited through the grid state above;
+  // its entry here is only brought up to date when it stops being active.
+  const [regions, setRegions] = React.useState<Region[]>(() => [
+    { name: "Region 1", settings: defaultRegionSettings, edits: {} }
   ]);
+  const [activeRegion, setActiveRegion] = React.useState(0);
+
+  const otherGrids = React.useMemo<GridPlacement[]>(
+    () =>
+      regions
+        .filter((_, index) => index !== activeRegion)
+        .map((region) => region.settings.grid),
+    [regions, activeRegion]
+  );
   const [webGLGrid, setWebGLGrid] = React.useState(false);
+  const [gridStyle, setGridStyle] = React.useState(defaultGridStyle);
+  const [lockAspect, setLockAspect] = React.useState(false);
+
+  const onToggleLockAspect = React.useCallback(() => {
+    if (!lockAspect) {
+      setGridSize((size) => squareCell(size));
+    }
+    setLockAspect(!lockAspect);
+  }, [lockAspect]);
+
+  // Replaces the axis aligned grid when set
+  const [perspective, setPerspective] = React.useState<
+    PerspectiveGrid | undefined
+  >();
+
+  // Explicit cell boundaries, replacing the uniform grid when set
+  const [boundaries, setBoundaries] = React.useState<
+    BoundaryGrid | undefined
+  >();
+
+  // Arrows move the grid and Shift+arrows resize it. Inputs keep their own
+  // arrow keys. Perspective and boundary grids don't use the grid offset and
+  // size, so there is nothing to nudge while one is active.
+  const uniformGrid = !perspective && !boundaries;
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const direction = arrowDirections[event.key];
+
+      if (
+        !uniformGrid ||
+        !direction ||
+        event.ctrlKey ||
+        event.metaKey ||
+        isTextEntry(event.target)
+      ) {
+        return;
+      }
+
+      event.preventDefault();
+
+      const step = event.altKey ? fineNudgeStep : nudgeStep;
+      const dx = direction[0] * step;
+      const dy = direction[1] * step;
+
+      if (event.shiftKey) {
+        setGridSize((size) => {
+          const resized: Coord = [
+            Math.max(1, size[0] + dx),
+            Math.max(1, size[1] + dy)
+          ];
+
+          if (!lockAspect) {
+            return resized;
+          }
+
+          const side = direction[0] !== 0 ? resized[0] : resized[1];
+          return [side, side];
+        });
+      } else {
+        setGridOffset((offset) => [
+          Math.max(0, offset[0] + dx),
+          Math.max(0, offset[1] + dy)
+        ]);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [lockAspect, uniformGrid]);
+
+  const [tilesEnabled, setTilesEnabled] = React.useState(false);
+  const [tileParams, setTileParams] = React.useState(defaultTileParams);
+  const [bdfOptions, setBDFOptions] = React.useState(defaultBDFOptions);
+
+  const toggleTilesEnabled = React.useCallback(() => {
+    setTilesEnabled((value) => !value);
+  }, []);
 
   const gridMaxPixels = React.useMemo<Coord>(
     () => [
@@ -102,22 +508,232 @@ export default function App() {
 
   const refImageCanvas = React.useRef<HTMLCanvasElement>(null);
   const refGridCanvas = React.useRef<HTMLCanvasElement>(null);
-  const refWebGLGridRenderer = React.useRef<GridRenderer | undefined>(
-    undefined
-  );
+  const refRulerCanvas = React.useRef<HTMLCanvasElement>(null);
+  const refGridRenderer = React.useRef<Renderer | undefined>(undefined);
+
+  // Why the grid is drawn with Canvas 2D although WebGL was chosen
+  const [gridFallback, setGridFallback] = React.useState("");
+  const useWebGLGrid = webGLGrid && !gridFallback;
+
+  React.useEffect(() => {
+    // Free the renderer on unmount
+    return () => refGridRenderer.current?.dispose();
+  }, []);
+
+  // The image box is a viewport onto the scaled image. viewOffset is the
+  // position of its top left in the scaled image, in whole pixels.
+  const refImageBox = React.useRef<HTMLDivElement>(null);
+  const [viewportSize, setViewportSize] = React.useState<Coord>([0, 0]);
+  const [viewOffset, setViewOffset] = React.useState<Coord>([0, 0]);
+
+  React.useEffect(() => {
+    const imageBox = refImageBox.current;
+    if (!imageBox) {
+      return;
+    }
+
+    const observer = new ResizeObserver(() =>
+      setViewportSize([imageBox.clientWidth, imageBox.clientHeight])
+    );
+    observer.observe(imageBox);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // Current view, so that a burst of wheel events doesn't zoom from a stale
+  // scale before React re-renders
+  const refView = React.useRef({ imageScale, viewOffset });
+  refView.current = { imageScale, viewOffset };
+
+  // Zoom keeping the image pixel under point (in viewport pixels) fixed
+  const zoomAt = React.useCallback((scale: number, point: Coord) => {
+    const { imageScale, viewOffset } = refView.current;
+    const newScale = Math.min(maxImageScale, Math.max(minImageScale, scale));
+    const newOffset: Coord = [
+      Math.round(
+        ((point[0] + viewOffset[0]) / imageScale) * newScale - point[0]
+      ),
+      Math.round(
+        ((point[1] + viewOffset[1]) / imageScale) * newScale - point[1]
+      )
+    ];
+
+    refView.current = { imageScale: newScale, viewOffset: newOffset };
+    setImageScale(newScale);
+    setViewOffset(newOffset);
+  }, []);
 
   const onChangeScale = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      setImageScale(Math.min(10, Math.max(event.target.valueAsNumber, 1)));
+      const scale = event.target.valueAsNumber;
+      if (!isNaN(scale)) {
+        zoomAt(scale, [viewportSize[0] / 2, viewportSize[1] / 2]);
+      }
     },
-    []
+    [zoomAt, viewportSize]
+  );
+
+  const onFitToWindow = React.useCallback(() => {
+    if (gridCanvasSize[0] === 0 || gridCanvasSize[1] === 0) {
+      return;
+    }
+
+    const scale = Math.min(
+      maxImageScale,
+      Math.max(
+        minImageScale,
+        Math.min(
+          viewportSize[0] / gridCanvasSize[0],
+          viewportSize[1] / gridCanvasSize[1]
+        )
+      )
+    );
+
+    // Centre the image
+    setImageScale(scale);
+    setViewOffset([
+      Math.round((gridCanvasSize[0] * scale - viewportSize[0]) / 2),
+      Math.round((gridCanvasSize[1] * scale - viewportSize[1]) / 2)
+    ]);
+  }, [gridCanvasSize, viewportSize]);
+
+  // True during a burst of wheel events, which is recorded in the history
+  // as a single change of scale once it ends
+  const [wheelZooming, setWheelZooming] = React.useState(false);
+
+  // Wheel zoom, centred on the cursor. Registered directly so that the page
+  // doesn't scroll as well.
+  React.useEffect(() => {
+    const imageBox = refImageBox.current;
+    if (!imageBox) {
+      return;
+    }
+
+    let gestureEnd: number | undefined;
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+
+      const rect = imageBox.getBoundingClientRect();
+      zoomAt(
+        refView.current.imageScale *
+          Math.pow(wheelZoomFactor, -Math.sign(event.deltaY)),
+        [event.clientX - rect.left, event.clientY - rect.top]
+      );
+
+      setWheelZooming(true);
+      clearTimeout(gestureEnd);
+      gestureEnd = window.setTimeout(
+        () => setWheelZooming(false),
+        wheelGestureDelay
+      );
+    };
+
+    imageBox.addEventListener("wheel", onWheel, { passive: false });
+    return () => {
+      imageBox.removeEventListener("wheel", onWheel);
+      clearTimeout(gestureEnd);
+      setWheelZooming(false);
+    };
+  }, [zoomAt]);
+
+  // Pan by dragging with the middle button, or the left button while space
+  // is held
+  const refSpaceDown = React.useRef(false);
+  const [pan, setPan] = React.useState<
+    { start: Coord; viewOffset: Coord } | undefined
+  >();
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === " " && !isTextEntry(event.target)) {
+        event.preventDefault();
+        refSpaceDown.current = true;
+      }
+    };
+
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.key === " ") {
+        refSpaceDown.current = false;
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, []);
+
+  // Convert a mouse position to unscaled image coordinates
+  const toImageCoord = React.useCallback(
+    (event: React.MouseEvent): Coord => {
+      const rect = refGridCanvas.current!.getBoundingClientRect();
+      return [
+        (event.clientX - rect.left + viewOffset[0]) / imageScale,
+        (event.clientY - rect.top + viewOffset[1]) / imageScale
+      ];
+    },
+    [viewOffset, imageScale]
   );
 
   const onMouseDown = React.useCallback(
     (event: React.MouseEvent<HTMLDivElement>) => {
-      const rect = refGridCanvas.current!.getBoundingClientRect();
-      const x = (event.clientX - rect.left) / imageScale;
-      const y = (event.clientY - rect.top) / imageScale;
+      if (event.button === 1 || refSpaceDown.current) {
+        event.preventDefault();
+        setPan({ start: [event.clientX, event.clientY], viewOffset });
+        return;
+      }
+
+      const [x, y] = toImageCoord(event);
+
+      // A perspective grid is only changed by dragging its corners
+      if (perspective) {
+        const corner = perspective.corners.findIndex(
+          ([cx, cy]) =>
+            Math.abs(cx - x) * imageScale <= handleRadius &&
+            Math.abs(cy - y) * imageScale <= handleRadius
+        );
+
+        if (corner >= 0) {
+          setDragInfo({
+            on: true,
+            size: false,
+            gridCoordinate: [],
+            corner,
+            boundary: [-1, -1]
+          });
+        }
+        return;
+      }
+
+      // Likewise a boundary grid is only changed by dragging its lines
+      if (boundaries) {
+        let boundary = [-1, -1];
+        let nearest = handleRadius / imageScale;
+
+        [boundaries.columns, boundaries.rows].forEach((lines, axis) => {
+          const position = axis === 0 ? x : y;
+          lines.forEach((line, index) => {
+            if (Math.abs(line - position) <= nearest) {
+              boundary = [axis, index];
+              nearest = Math.abs(line - position);
+            }
+          });
+        });
+
+        if (boundary[0] >= 0) {
+          setDragInfo({
+            on: true,
+            size: false,
+            gridCoordinate: [],
+            corner: -1,
+            boundary
+          });
+        }
+        return;
+      }
 
       const size = event.shiftKey;
       let gridCoordinate: number[] = [];
@@ -155,38 +771,98 @@ export default function App() {
           Math.max(1, Math.abs(Math.round((y - gridOffset[1]) / gridSize[1])))
         ];
 
-        setGridSize([
+        const size: Coord = [
           Math.max(1, Math.abs((x - gridOffset[0]) / gridCoordinate[0])),
           Math.max(1, Math.abs((y - gridOffset[1]) / gridCoordinate[1]))
-        ]);
+        ];
+        setGridSize(lockAspect ? squareCell(size) : size);
       }
 
       setDragInfo({
         on: true,
         size,
-        gridCoordinate
+        gridCoordinate,
+        corner: -1,
+        boundary: [-1, -1]
       });
     },
-    [gridOffset, gridMaxPixels, gridCanvasSize, gridSize, imageScale]
+    [
+      gridOffset,
+      gridMaxPixels,
+      gridCanvasSize,
+      gridSize,
+      imageScale,
+      perspective,
+      boundaries,
+      lockAspect,
+      viewOffset,
+      toImageCoord
+    ]
   );
 
+  // Cell under the cursor, shown in the corner of the image box
+  const [hoverCell, setHoverCell] = React.useState<Coord | undefined>();
+
   const onMouseMove = React.useCallback(
     (event: React.MouseEvent<HTMLDivElement>) => {
-      if (!dragInfo.on) {
+      const cell = cellAt(
+        {
+          canvasSize: gridCanvasSize,
+          maxCells: gridMaxPixels,
+          cellSize: gridSize,
+          gridOffset,
+          perspective,
+          boundaries
+        },
+        toImageCoord(event)
+      );
+      setHoverCell((hoverCell) =>
+        cell &&
+        hoverCell &&
+        cell[0] === hoverCell[0] &&
+        cell[1] === hoverCell[1]
+          ? hoverCell
+          : cell
+      );
+
+      if (pan) {
+        setViewOffset([
+          pan.viewOffset[0] - (event.clientX - pan.start[0]),
+          pan.viewOffset[1] - (event.clientY - pan.start[1])
+        ]);
         return;
       }
 
-      const rect = refGridCanvas.current!.getBoundingClientRect();
-      const x = (event.clientX - rect.left) / imageScale;
-      const y = (event.clientY - rect.top) / imageScale;
+      if (!dragInfo.on) {
+        return;
+      }
 
-      if (!dragInfo.size) {
+      const [x, y] = toImageCoord(event);
+
+      if (dragInfo.corner >= 0) {
+        setPerspective(
+          (perspective) =>
+            perspective && {
+              ...perspective,
+              corners: perspective.corners.map((corner, i) =>
+                i === dragInfo.corner ? [x, y] : corner
+              ) as PerspectiveGrid["corners"]
+            }
+        );
+      } else if (dragInfo.boundary[0] >= 0) {
+        const [axis, index] = dragInfo.boundary;
+        setBoundaries(
+          (boundaries) =>
+            boundaries &&
+            moveBoundary(boundaries, axis as 0 | 1, index, axis === 0 ? x : y)
+        );
+      } else if (!dragInfo.size) {
         setGridOffset([
           Math.max(0, x - dragInfo.gridCoordinate[0] * gridSize[0]),
           Math.max(0, y - dragInfo.gridCoordinate[1] * gridSize[1])
         ]);
       } else {
-        setGridSize([
+        const size: Coord = [
           Math.max(
             1,
             Math.abs((x - gridOffset[0]) / dragInfo.gridCoordinate[0])
@@ -195,18 +871,35 @@ export default function App() {
             1,
             Math.abs((y - gridOffset[1]) / dragInfo.gridCoordinate[1])
           )
-        ]);
+        ];
+        setGridSize(lockAspect ? squareCell(size) : size);
       }
     },
-    [dragInfo, gridSize, gridOffset, imageScale]
+    [
+      dragInfo,
+      gridSize,
+      gridOffset,
+      lockAspect,
+      pan,
+      toImageCoord,
+      gridCanvasSize,
+      gridMaxPixels,
+      perspective,
+      boundaries
+    ]
   );
 
+  const onMouseLeave = React.useCallback(() => setHoverCell(undefined), []);
+
   const onMouseUp = React.useCallback(
     (event: React.MouseEvent<HTMLDivElement>) => {
+      setPan(undefined);
       setDragInfo({
         on: false,
         size: false,
-        gridCoordinate: []
+        gridCoordinate: [],
+        corner: -1,
+        boundary: [-1, -1]
       });
     },
     []
@@ -214,12 +907,13 @@ export default function App() {
 
   const onChangeMaxWidth = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const maxWidthRaw = Math.min(
-        500,
-        Math.max(event.target.valueAsNumber, 1)
-      );
+      const maxWidthRaw = event.target.valueAsNumber;
+      if (isNaN(maxWidthRaw)) {
+        return;
+      }
+
       setGridMaxPixelsRaw((gridMaxPixelsRaw) => [
-        maxWidthRaw,
+        Math.max(1, Math.round(maxWidthRaw)),
         gridMaxPixelsRaw[1]
       ]);
     },
@@ -228,13 +922,14 @@ export default function App() {
 
   const onChangeMaxHeight = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const maxHeightRaw = Math.min(
-        500,
-        Math.max(event.target.valueAsNumber, 1)
-      );
+      const maxHeightRaw = event.target.valueAsNumber;
+      if (isNaN(maxHeightRaw)) {
+        return;
+      }
+
       setGridMaxPixelsRaw((gridMaxPixelsRaw) => [
         gridMaxPixelsRaw[0],
-        maxHeightRaw
+        Math.max(1, Math.round(maxHeightRaw))
       ]);
     },
     []
@@ -262,6 +957,15 @@ export default function App() {
     let cancelImageDraw = false;
 
     image.src = imageUrl;
+    image.onerror = () => {
+      if (cancelImageDraw) {
+        return;
+      }
+      imageCanvas.width = 0;
+      imageCanvas.height = 0;
+      setGridCanvasSize([0, 0]);
+      setImageError("The image couldn't be decoded");
+    };
     image.onload = () => {
       if (cancelImageDraw) {
         return;
@@ -282,129 +986,477 @@ export default function App() {
     };
   }, [imageUrl]);
 
-  // Whenever the grid parameters change, update the grid
+  const refExtractedImage = React.useRef<HTMLCanvasElement>(null);
+
+  const [sampling, setSampling] = React.useState<SamplingMethod>(
+    defaultRegionSettings.sampling
+  );
+
+  const onChangeSampling = React.useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      setSampling(event.target.value as SamplingMethod);
+    },
+    []
+  );
+
+  const [threshold, setThreshold] = React.useState<ThresholdOptions>(
+    defaultRegionSettings.threshold
+  );
+  const [appliedThresholdLevel, setAppliedThresholdLevel] = React.useState(
+    defaultThresholdOptions.level
+  );
+
+  // The extracted cells with the grid they were extracted with, which lags
+  // behind the current grid while the worker catches up
+  const [extraction, setExtraction] = React.useState<
+    { extracted: ExtractedPixels; grid: ExtractionSettings["grid"] } | undefined
+  >();
+  const extracted = extraction && extraction.extracted;
+  const [extractionError, setExtractionError] = React.useState("");
+
+  // Extraction runs in a worker, which keeps its own copy of the image
+  const refExtractionWorker = React.useRef<ExtractionWorker>();
+
   React.useEffect(() => {
-    const gridCanvas = refGridCanvas.current;
+    const worker = createExtractionWorker();
+    refExtractionWorker.current = worker;
 
-    if (!gridCanvas) {
-      // This shouldn't happen
+    return () => worker.terminate();
+  }, []);
+
+  // Whenever the image is redrawn, send it to the worker
+  React.useEffect(() => {
+    const imageCanvas = refImageCanvas.current;
+
+    if (imageCanvas && imageIteration > 0) {
+      refExtractionWorker.current?.setImage(imageCanvas);
+    }
+  }, [imageIteration]);
+
+  // Whenever the grid or image data changes, recalculate extracted pixels.
+  // Results of requests superseded by a later change are dropped.
+  React.useEffect(() => {
+    const worker = refExtractionWorker.current;
+
+    if (!worker || gridCanvasSize[0] === 0 || gridCanvasSize[1] === 0) {
+      setExtraction(undefined);
       return;
     }
 
-    const gridParams: GridParams = {
-      canvasSize: gridCanvasSize,
+    let cancelled = false;
+    const grid = {
       maxCells: gridMaxPixels,
       cellSize: gridSize,
       gridOffset,
-      renderScale: imageScale
+      perspective,
+      boundaries
     };
 
-    if (webGLGrid) {
-      let gridRenderer = refWebGLGridRenderer.current;
+    worker.extract(grid, { sampling, threshold }).then(
+      (extracted) => {
+        if (cancelled) {
+          return;
+        }
+
+        setAppliedThresholdLevel(extracted.thresholdLevel);
+        setExtraction({ extracted, grid });
+        setExtractionError("");
+      },
+      (error) => {
+        if (cancelled || error instanceof ExtractionCancelledError) {
+          return;
+        }
 
-      // Create a new grid renderer if we don't have a grid renderer, or if
-      // the canvas changed
-      if (!gridRenderer || gridRenderer.gridCanvas() !== gridCanvas) {
-        gridRenderer = new GridRenderer(gridCanvas);
-        refWebGLGridRenderer.current = gridRenderer;
+        setExtraction(undefined);
+        setExtractionError(
+          error instanceof Error ? error.message : String(error)
+        );
       }
+    );
 
-      gridRenderer.render(gridParams);
-    } else {
-      renderGrid(gridCanvas, gridParams);
-    }
+    return () => {
+      cancelled = true;
+    };
   }, [
-    webGLGrid,
+    imageIteration,
     gridOffset,
-    gridSize,
     gridMaxPixels,
     gridCanvasSize,
-    imageScale
+    gridSize,
+    perspective,
+    boundaries,
+    sampling,
+    threshold
   ]);
 
-  const refExtractedImage = React.useRef<HTMLCanvasElement>(null);
+  // Cells the extraction was unsure about, tinted on the grid so that they
+  // can be reviewed one by one
+  const [showConfidence, setShowConfidence] = React.useState(false);
+  const [ambiguityOptions, setAmbiguityOptions] = React.useState(
+    defaultAmbiguityOptions
+  );
+  const [selectedAmbiguous, setSelectedAmbiguous] = React.useState(-1);
+
+  const ambiguous = React.useMemo(
+    () =>
+      showConfidence && extracted
+        ? ambiguousCells(extracted, ambiguityOptions)
+        : [],
+    [showConfidence, extracted, ambiguityOptions]
+  );
 
-  // Whenever the grid or image data changes, recalculate extracted pixels
-  React.useEffect(() => {
-    const pixelsCanvas = refExtractedImage.current;
-    const imageCanvas = refImageCanvas.current;
+  // The selection is dropped when the cells it pointed into change
+  React.useEffect(() => setSelectedAmbiguous(-1), [ambiguous]);
 
-    if (!pixelsCanvas || !imageCanvas) {
-      return;
+  const highlights = React.useMemo<CellHighlights | undefined>(() => {
+    if (!showConfidence || !extracted) {
+      return undefined;
     }
 
-    const pixelsWidth = Math.min(
-      gridMaxPixels[0],
-      Math.floor((gridCanvasSize[0] - gridOffset[0]) / gridSize[0])
-    );
-
-    const pixelsHeight = Math.min(
-      gridMaxPixels[1],
-      Math.floor((gridCanvasSize[1] - gridOffset[1]) / gridSize[1])
-    );
-
-    pixelsCanvas.width = pixelsWidth * imageScale;
-    pixelsCanvas.height = pixelsHeight * imageScale;
+    const { width, height } = extracted;
+    const mask = new Uint8Array(width * height);
+    ambiguous.forEach((cell) => (mask[cell] = 1));
 
-    if (pixelsWidth === 0 || pixelsHeight === 0) {
-      return;
+    if (selectedAmbiguous >= 0 && selectedAmbiguous < ambiguous.length) {
+      mask[ambiguous[selectedAmbiguous]] = 2;
     }
 
-    // Resize image data
-    const ctxPixels = pixelsCanvas.getContext("2d");
-    if (!ctxPixels) {
-      return;
-    }
+    return { width, height, mask };
+  }, [showConfidence, extracted, ambiguous, selectedAmbiguous]);
 
-    const pixelData = ctxPixels.createImageData(pixelsWidth, pixelsHeight);
+  const onToggleConfidence = React.useCallback(() => {
+    setShowConfidence((value) => !value);
+  }, []);
 
-    const ctxSource = imageCanvas.getContext("2d");
-    if (!ctxSource) {
-      return;
-    }
+  // Select the next or previous ambiguous cell and centre the view on it
+  const onStepAmbiguous = React.useCallback(
+    (direction: -1 | 1) => {
+      if (!extracted || ambiguous.length === 0) {
+        return;
+      }
 
-    const sourceImageData = ctxSource.getImageData(
-      0,
-      0,
-      imageCanvas.width,
-      imageCanvas.height
-    );
+      const selected =
+        selectedAmbiguous < 0
+          ? direction > 0
+            ? 0
+            : ambiguous.length - 1
+          : (selectedAmbiguous + direction + ambiguous.length) %
+            ambiguous.length;
+      const cell = ambiguous[selected];
+      const [x, y] = cellCenter(
+        { cellSize: gridSize, gridOffset, perspective, boundaries },
+        cell % extracted.width,
+        Math.floor(cell / extracted.width)
+      );
 
-    for (let y = 0; y < pixelsHeight; ++y) {
-      for (let x = 0; x < pixelsWidth; ++x) {
-        const sx = Math.round(gridOffset[0] + x * gridSize[0]);
-        const ex = Math.round(sx + gridSize[0]);
-        const sy = Math.round(gridOffset[1] + y * gridSize[1]);
-        const ey = Math.round(sy + gridSize[1]);
-
-        let rsum = 0,
-          gsum = 0,
-          bsum = 0;
-        let count = 0;
-
-        for (let iy = sy; iy < ey; ++iy) {
-          for (let ix = sx; ix < ex; ++ix) {
-            const sourcePixelIndex = (iy * sourceImageData.width + ix) * 4;
-            rsum += sourceImageData.data[sourcePixelIndex];
-            gsum += sourceImageData.data[sourcePixelIndex + 1];
-            bsum += sourceImageData.data[sourcePixelIndex + 2];
-            ++count;
-          }
-        }
+      setSelectedAmbiguous(selected);
+      setViewOffset([
+        Math.round(x * imageScale - viewportSize[0] / 2),
+        Math.round(y * imageScale - viewportSize[1] / 2)
+      ]);
+    },
+    [
+      extracted,
+      ambiguous,
+      selectedAmbiguous,
+      gridSize,
+      gridOffset,
+      perspective,
+      boundaries,
+      imageScale,
+      viewportSize
+    ]
+  );
+
+  // Whenever the grid parameters change, update the grid
+  React.useEffect(() => {
+    const gridCanvas = refGridCanvas.current;
 
-        let on = false;
+    if (!gridCanvas) {
+      // This shouldn't happen
+      return;
+    }
 
-        if (count > 0) {
-          on = rsum / count > 127 || gsum / count > 127 || bsum / count > 127;
+    const gridParams: GridParams = {
+      canvasSize: gridCanvasSize,
+      maxCells: gridMaxPixels,
+      cellSize: gridSize,
+      gridOffset,
+      renderScale: imageScale,
+      view: { offset: viewOffset, size: viewportSize },
+      tiles: tilesEnabled ? tileParams : undefined,
+      perspective,
+      boundaries,
+      highlights,
+      style: gridStyle,
+      otherGrids
+    };
+
+    let gridRenderer = refGridRenderer.current;
+
+    // Create a new grid renderer if we don't have a grid renderer, or if
+    // the canvas or backend changed
+    if (
+      !gridRenderer ||
+      gridRenderer.canvas !== gridCanvas ||
+      gridRenderer instanceof WebGLRenderer !== useWebGLGrid
+    ) {
+      gridRenderer?.dispose();
+      refGridRenderer.current = undefined;
+
+      if (useWebGLGrid) {
+        try {
+          gridRenderer = new WebGLRenderer(gridCanvas, () =>
+            setGridFallback("WebGL context lost, using Canvas 2D")
+          );
+        } catch (error) {
+          // A new canvas is mounted for Canvas 2D, as this one may already
+          // have a WebGL context
+          setGridFallback(
+            `WebGL unavailable (${
+              error instanceof Error ? error.message : String(error)
+            }), using Canvas 2D`
+          );
+          return;
         }
+      } else {
+        gridRenderer = new Canvas2DRenderer(gridCanvas);
+      }
+
+      refGridRenderer.current = gridRenderer;
+    }
+
+    gridRenderer.render(gridParams);
 
-        const pixelIndex = (y * pixelData.width + x) * 4;
-        const value = on ? 255 : 0;
-        pixelData.data[pixelIndex] = value;
-        pixelData.data[pixelIndex + 1] = value;
-        pixelData.data[pixelIndex + 2] = value;
-        pixelData.data[pixelIndex + 3] = 255;
+    if (refRulerCanvas.current) {
+      renderRulers(refRulerCanvas.current, gridParams);
+    }
+  }, [
+    useWebGLGrid,
+    gridOffset,
+    gridSize,
+    gridMaxPixels,
+    gridCanvasSize,
+    imageScale,
+    viewOffset,
+    viewportSize,
+    tilesEnabled,
+    tileParams,
+    perspective,
+    boundaries,
+    highlights,
+    gridStyle,
+    otherGrids
+  ]);
+
+  // Cells covered by the uniform grid, where perspective and boundary
+  // grids start from
+  const uniformGridCells = React.useMemo<Coord>(
+    () => [
+      Math.max(
+        1,
+        Math.min(
+          gridMaxPixels[0],
+          Math.floor((gridCanvasSize[0] - gridOffset[0]) / gridSize[0])
+        )
+      ),
+      Math.max(
+        1,
+        Math.min(
+          gridMaxPixels[1],
+          Math.floor((gridCanvasSize[1] - gridOffset[1]) / gridSize[1])
+        )
+      )
+    ],
+    [gridMaxPixels, gridCanvasSize, gridOffset, gridSize]
+  );
+
+  const onTogglePerspective = React.useCallback(() => {
+    setBoundaries(undefined);
+    setPerspective((perspective) =>
+      perspective
+        ? undefined
+        : perspectiveFromGrid(gridSize, gridOffset, uniformGridCells)
+    );
+  }, [gridOffset, gridSize, uniformGridCells]);
+
+  // Boundaries start at the uniform grid, snapped to the colour
+  // transitions in the image
+  const onToggleBoundaries = React.useCallback(() => {
+    const imageCanvas = refImageCanvas.current;
+    const ctx = imageCanvas?.getContext("2d");
+
+    setPerspective(undefined);
+
+    if (boundaries || !imageCanvas || !ctx || imageCanvas.width === 0) {
+      setBoundaries(undefined);
+      return;
+    }
+
+    setBoundaries(
+      deriveBoundaries(
+        ctx.getImageData(0, 0, imageCanvas.width, imageCanvas.height),
+        gridSize,
+        gridOffset,
+        uniformGridCells
+      )
+    );
+  }, [boundaries, gridOffset, gridSize, uniformGridCells]);
+
+  const onChangePerspectiveCells = React.useCallback(
+    (axis: 0 | 1, event: React.ChangeEvent<HTMLInputElement>) => {
+      const count = event.target.valueAsNumber;
+      if (isNaN(count)) {
+        return;
       }
+
+      setPerspective((perspective) => {
+        if (!perspective) {
+          return perspective;
+        }
+
+        const cells: Coord = [perspective.cells[0], perspective.cells[1]];
+        cells[axis] = Math.max(1, Math.round(count));
+        return { ...perspective, cells };
+      });
+    },
+    []
+  );
+
+  const [outputMode, setOutputMode] = React.useState<OutputMode>(
+    defaultRegionSettings.outputMode
+  );
+  const [palette, setPalette] = React.useState<PaletteEntry[]>([]);
+  const [greyscale, setGreyscale] = React.useState<GreyscaleOptions>(
+    defaultRegionSettings.greyscale || defaultGreyscaleOptions
+  );
+
+  const onChangeOutputMode = React.useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      const mode = event.target.value as OutputMode;
+
+      // Start off with a derived palette rather than an empty one
+      if (mode === "palette" && palette.length === 0 && extracted) {
+        setPalette(derivePalette(extracted.colors, 4, "kMeans"));
+      }
+
+      setOutputMode(mode);
+    },
+    [palette, extracted]
+  );
+
+  const onDerivePalette = React.useCallback(
+    (size: number, method: PaletteMethod) => {
+      if (extracted) {
+        setPalette((palette) =>
+          derivePalette(extracted.colors, size, method, palette)
+        );
+      }
+    },
+    [extracted]
+  );
+
+  // Manual edits, kept separately so they survive re-extraction
+  const [edits, setEdits] = React.useState<EditLayer>({});
+  const [paintTool, setPaintTool] = React.useState<PaintTool>({
+    kind: "on"
+  });
+  const [painting, setPainting] = React.useState(false);
+
+  const gridGeometry = React.useMemo<GridGeometry>(
+    () => ({ cellSize: gridSize, gridOffset, perspective, boundaries }),
+    [gridSize, gridOffset, perspective, boundaries]
+  );
+
+  const staleEditKeys = React.useMemo(() => staleEdits(edits, gridGeometry), [
+    edits,
+    gridGeometry
+  ]);
+
+  // The extracted cells at one pixel per cell, with edits applied
+  const indexedImage = React.useMemo(
+    () =>
+      extracted &&
+      editedImage(extracted, outputMode, edits, palette, greyscale),
+    [extracted, outputMode, palette, greyscale, edits]
+  );
+
+  // An imported bitmap replaces the extracted cells until it is closed
+  const [importedImage, setImportedImage] = React.useState<
+    | { name: string; image: IndexedImage; settings?: ExtractionSettings }
+    | undefined
+  >();
+  const [importError, setImportError] = React.useState("");
+
+  // The image shown in the extracted image panel, and exported
+  const displayedImage = importedImage ? importedImage.image : indexedImage;
+
+  const extractionSettings = React.useMemo<ExtractionSettings>(
+    () => ({
+      grid: {
+        maxCells: gridMaxPixels,
+        cellSize: gridSize,
+        gridOffset,
+        perspective,
+        boundaries
+      },
+      sampling,
+      threshold,
+      outputMode,
+      greyscale
+    }),
+    [
+      gridMaxPixels,
+      gridSize,
+      gridOffset,
+      perspective,
+      boundaries,
+      sampling,
+      threshold,
+      outputMode,
+      greyscale
+    ]
+  );
+
+  // The extracted image is drawn at a whole number scale, so that every cell
+  // stays the same size
+  const previewScale = displayedImage
+    ? previewScaleOf(displayedImage.width, displayedImage.height, imageScale)
+    : 1;
+
+  // Whenever the displayed image changes, redraw it
+  React.useEffect(() => {
+    const pixelsCanvas = refExtractedImage.current;
+
+    if (!pixelsCanvas) {
+      return;
+    }
+
+    const width = displayedImage ? displayedImage.width : 0;
+    const height = displayedImage ? displayedImage.height : 0;
+
+    pixelsCanvas.width = width * previewScale;
+    pixelsCanvas.height = height * previewScale;
+
+    if (!displayedImage || width === 0 || height === 0) {
+      return;
+    }
+
+    // Resize image data
+    const ctxPixels = pixelsCanvas.getContext("2d");
+    if (!ctxPixels) {
+      return;
+    }
+
+    const pixelData = ctxPixels.createImageData(width, height);
+    const { indices, palette } = displayedImage;
+
+    for (let i = 0; i < indices.length; ++i) {
+      const color = palette[indices[i]];
+      pixelData.data[i * 4] = color[0];
+      pixelData.data[i * 4 + 1] = color[1];
+      pixelData.data[i * 4 + 2] = color[2];
+      pixelData.data[i * 4 + 3] = 255;
     }
 
     const newCanvas = document.createElement("canvas");
@@ -414,35 +1466,987 @@ export default function App() {
     ctx.putImageData(pixelData, 0, 0);
 
     ctxPixels.imageSmoothingEnabled = false;
-    ctxPixels.scale(imageScale, imageScale);
+    ctxPixels.scale(previewScale, previewScale);
     ctxPixels.drawImage(newCanvas, 0, 0);
+
+    // Mark edits that were made against a different grid
+    if (!importedImage && staleEditKeys.length > 0) {
+      ctxPixels.setTransform(1, 0, 0, 1, 0, 0);
+      ctxPixels.strokeStyle = "red";
+      ctxPixels.lineWidth = 1;
+
+      for (const key of staleEditKeys) {
+        const [x, y] = parseCellKey(key);
+        ctxPixels.strokeRect(
+          x * previewScale + 0.5,
+          y * previewScale + 0.5,
+          previewScale - 1,
+          previewScale - 1
+        );
+      }
+    }
+  }, [displayedImage, previewScale, importedImage, staleEditKeys]);
+
+  // Round trip of the extracted image back into source image space
+  const [showReconstruction, setShowReconstruction] = React.useState(false);
+  const [
+    reconstructionView,
+    setReconstructionView
+  ] = React.useState<ReconstructionView>("overlay");
+  const refReconstructionOverlay = React.useRef<HTMLCanvasElement>(null);
+  const refReconstructionImage = React.useRef<HTMLCanvasElement>(null);
+  const refDifferenceImage = React.useRef<HTMLCanvasElement>(null);
+
+  // The reconstruction is drawn either over the source image or next to the
+  // extracted image
+  const showReconstructionOverlay =
+    showReconstruction && reconstructionView !== "sideBySide";
+  const showReconstructionSideBySide =
+    showReconstruction && reconstructionView === "sideBySide";
+
+  const onToggleReconstruction = React.useCallback(
+    () => setShowReconstruction((show) => !show),
+    []
+  );
+
+  const [reconstruction, setReconstruction] = React.useState<
+    Reconstruction | undefined
+  >();
+
+  // Tuning results and reconstruction errors are shown under the
+  // reconstruction settings
+  const [tuningObjective, setTuningObjective] = React.useState<TuningObjective>(
+    "meanAbsoluteError"
+  );
+  const [tuningStatus, setTuningStatus] = React.useState("");
+
+  // Whenever the extracted image changes, reconstruct it in the worker with
+  // the grid it was extracted with
+  React.useEffect(() => {
+    const worker = refExtractionWorker.current;
+
+    if (
+      !worker ||
+      !showReconstruction ||
+      importedImage ||
+      !extraction ||
+      !indexedImage
+    ) {
+      setReconstruction(undefined);
+      return;
+    }
+
+    let cancelled = false;
+
+    worker
+      .reconstruct(extraction.extracted, indexedImage, {
+        grid: extraction.grid,
+        outputMode
+      })
+      .then(
+        (reconstruction) => {
+          if (!cancelled) {
+            setReconstruction(reconstruction);
+          }
+        },
+        (error) => {
+          if (cancelled || error instanceof ExtractionCancelledError) {
+            return;
+          }
+
+          setReconstruction(undefined);
+          setTuningStatus(
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showReconstruction, importedImage, extraction, indexedImage, outputMode]);
+
+  // Whenever the reconstruction or its view changes, redraw it
+  React.useEffect(() => {
+    const draw = (
+      canvas: HTMLCanvasElement | null,
+      image: ImageData | undefined
+    ) => {
+      if (!canvas) {
+        return;
+      }
+
+      canvas.width = image ? image.width : 0;
+      canvas.height = image ? image.height : 0;
+
+      const ctx = canvas.getContext("2d");
+      if (image && ctx) {
+        ctx.putImageData(
+          new ImageData(image.data, image.width, image.height),
+          0,
+          0
+        );
+      }
+    };
+
+    const heatMap = reconstruction && differenceHeatMap(reconstruction);
+
+    draw(
+      refReconstructionOverlay.current,
+      reconstructionView === "overlay"
+        ? reconstruction && reconstruction.image
+        : reconstructionView === "difference"
+        ? heatMap
+        : undefined
+    );
+    draw(
+      refReconstructionImage.current,
+      reconstruction && reconstruction.image
+    );
+    draw(refDifferenceImage.current, heatMap);
+  }, [reconstruction, reconstructionView]);
+
+  // Tuning runs on a worker of its own, so that extraction carries on
+  // meanwhile and cancelling can simply end the worker
+  const refTuningWorker = React.useRef<ExtractionWorker>();
+  const [tuning, setTuning] = React.useState(false);
+
+  React.useEffect(() => () => refTuningWorker.current?.terminate(), []);
+
+  // Start a tuning worker with the current image, replacing any other
+  const startTuning = React.useCallback(() => {
+    const imageCanvas = refImageCanvas.current;
+
+    if (!imageCanvas || imageCanvas.width === 0) {
+      setTuningStatus("Choose an image first");
+      return undefined;
+    }
+
+    refTuningWorker.current?.terminate();
+
+    const worker = createExtractionWorker();
+    worker.setImage(imageCanvas);
+    refTuningWorker.current = worker;
+    setTuning(true);
+
+    return worker;
+  }, []);
+
+  // End a tuning worker. Returns false if it was already cancelled or
+  // replaced, in which case its result is stale.
+  const endTuning = React.useCallback((worker: ExtractionWorker) => {
+    if (refTuningWorker.current !== worker) {
+      return false;
+    }
+
+    worker.terminate();
+    refTuningWorker.current = undefined;
+    setTuning(false);
+    return true;
+  }, []);
+
+  const onCancelTuning = React.useCallback(() => {
+    const worker = refTuningWorker.current;
+
+    if (worker && endTuning(worker)) {
+      setTuningStatus("Tuning cancelled");
+    }
+  }, [endTuning]);
+
+  const onTuneGrid = React.useCallback(() => {
+    const worker = startTuning();
+    if (!worker) {
+      return;
+    }
+
+    setTuningStatus("Tuning grid");
+    worker
+      .tuneGrid(extractionSettings, palette, tuningObjective, (done, total) =>
+        setTuningStatus(`Tuning grid, ${done} of up to ${total} extractions`)
+      )
+      .then(
+        ({ value, metrics }) => {
+          if (!endTuning(worker)) {
+            return;
+          }
+
+          setGridSize(value.cellSize);
+          setGridOffset(value.gridOffset);
+          setTuningStatus(
+            `Cell ${value.cellSize[0].toFixed(3)} x ` +
+              `${value.cellSize[1].toFixed(3)}: ${formatMetrics(metrics)}`
+          );
+        },
+        (error) => {
+          if (endTuning(worker)) {
+            setTuningStatus(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+      );
+  }, [startTuning, endTuning, extractionSettings, palette, tuningObjective]);
+
+  const onTuneThreshold = React.useCallback(() => {
+    const worker = startTuning();
+    if (!worker) {
+      return;
+    }
+
+    const colorKey = extractionSettings.threshold.mode === "colorKey";
+
+    setTuningStatus("Tuning threshold");
+    worker
+      .tuneThreshold(extractionSettings, tuningObjective, (done, total) =>
+        setTuningStatus(`Tuning threshold, ${done} of up to ${total} levels`)
+      )
+      .then(
+        ({ value, metrics }) => {
+          if (!endTuning(worker)) {
+            return;
+          }
+
+          setThreshold((threshold) => ({ ...threshold, ...value }));
+          setTuningStatus(
+            `${
+              colorKey ? `Tolerance ${value.tolerance}` : `Level ${value.level}`
+            }: ${formatMetrics(metrics)}`
+          );
+        },
+        (error) => {
+          if (endTuning(worker)) {
+            setTuningStatus(
+              error instanceof Error ? error.message : String(error)
+            );
+          }
+        }
+      );
+  }, [startTuning, endTuning, extractionSettings, tuningObjective]);
+
+  const paintCell = React.useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      if (importedImage || !displayedImage) {
+        return;
+      }
+
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = Math.floor((event.clientX - rect.left) / previewScale);
+      const y = Math.floor((event.clientY - rect.top) / previewScale);
+
+      if (
+        x < 0 ||
+        y < 0 ||
+        x >= displayedImage.width ||
+        y >= displayedImage.height
+      ) {
+        return;
+      }
+
+      const value: CellValue | undefined =
+        paintTool.kind === "erase"
+          ? undefined
+          : paintTool.kind === "palette"
+          ? { paletteIndex: paintTool.paletteIndex }
+          : paintTool.kind;
+
+      setEdits((edits) => setCellEdit(edits, x, y, value, gridGeometry));
+    },
+    [importedImage, displayedImage, previewScale, paintTool, gridGeometry]
+  );
+
+  const onPaintStart = React.useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      setPainting(true);
+      paintCell(event);
+    },
+    [paintCell]
+  );
+
+  const onPaintMove = React.useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      if (painting) {
+        paintCell(event);
+      }
+    },
+    [painting, paintCell]
+  );
+
+  const onPaintEnd = React.useCallback(() => {
+    setPainting(false);
+  }, []);
+
+  const onClearEdits = React.useCallback(() => {
+    setEdits({});
+  }, []);
+
+  const [saveFormat, setSaveFormat] = React.useState<ExportFormat>("bmp");
+  const [saveFilename, setSaveFilename] = React.useState("image");
+  const [asciiArtOptions, setAsciiArtOptions] = React.useState(
+    defaultAsciiArtOptions
+  );
+
+  const onChangeSaveFormat = React.useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      setSaveFormat(event.target.value as ExportFormat);
+    },
+    []
+  );
+
+  const onChangeSaveFilename = React.useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setSaveFilename(event.target.value);
+    },
+    []
+  );
+
+  const onChangeOnChar = React.useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const onChar = event.target.value.slice(-1);
+      setAsciiArtOptions((options) => ({ ...options, onChar }));
+    },
+    []
+  );
+
+  const onChangeOffChar = React.useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const offChar = event.target.value.slice(-1);
+      setAsciiArtOptions((options) => ({ ...options, offChar }));
+    },
+    []
+  );
+
+  const [saveError, setSaveError] = React.useState("");
+
+  const onSaveToFile = React.useCallback(() => {
+    const image = displayedImage;
+    if (!image || image.width === 0 || image.height === 0) {
+      return;
+    }
+
+    const { extension, mimeType } = exportFormats[saveFormat];
+
+    let data: Uint8Array | string;
+    try {
+      data = encodeImage(saveFormat, image, {
+        asciiArt: asciiArtOptions,
+        settings: importedImage ? importedImage.settings : extractionSettings
+      });
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    setSaveError("");
+
+    const filename = saveFilename.toLowerCase().endsWith(`.${extension}`)
+      ? saveFilename
+      : `${saveFilename || "image"}.${extension}`;
+
+    saveObjectToFile(new Blob([data], { type: mimeType }), filename);
   }, [
-    imageIteration,
-    gridOffset,
-    gridMaxPixels,
-    gridCanvasSize,
-    gridSize,
-    imageScale
+    displayedImage,
+    importedImage,
+    extractionSettings,
+    saveFormat,
+    saveFilename,
+    asciiArtOptions
   ]);
 
-  const onSaveToFile = React.useCallback(() => {
-    if (!refExtractedImage.current) {
+  const onImportBitmap = React.useCallback(async () => {
+    const files = await pickFile(".pbm, .pgm, .txt, .json", false);
+    const file = files ? files[0] : undefined;
+
+    if (!file) {
       return;
     }
 
-    refExtractedImage.current.toBlob(
-      (blob) => blob && saveObjectToFile(blob, "image.bmp"),
-      "image/bmp"
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      setImportedImage({
+        name: file.name,
+        ...decodeImage(data, asciiArtOptions)
+      });
+      setImportError("");
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  }, [asciiArtOptions]);
+
+  const onCloseImport = React.useCallback(() => {
+    setImportedImage(undefined);
+  }, []);
+
+  const [cExportOptions, setCExportOptions] = React.useState(
+    defaultCExportOptions
+  );
+
+  const onSaveTiles = React.useCallback(
+    (data: Uint8Array | string, fileName: string, type: string) => {
+      saveObjectToFile(new Blob([data], { type }), fileName);
+    },
+    []
+  );
+
+  const onSaveCSource = React.useCallback(
+    (source: string, filename: string) => {
+      saveObjectToFile(new Blob([source], { type: "text/x-c" }), filename);
+    },
+    []
+  );
+
+  const [autoFitStatus, setAutoFitStatus] = React.useState("");
+
+  const onAutoFitGrid = React.useCallback(() => {
+    const imageCanvas = refImageCanvas.current;
+    const ctx = imageCanvas?.getContext("2d");
+
+    if (!imageCanvas || !ctx || imageCanvas.width === 0) {
+      return;
+    }
+
+    const fit = detectGrid(
+      ctx.getImageData(0, 0, imageCanvas.width, imageCanvas.height)
+    );
+    const confidence = fit.confidence.toFixed(2);
+
+    if (fit.confidence < minAutoFitConfidence) {
+      setAutoFitStatus(`No grid found (confidence ${confidence})`);
+      return;
+    }
+
+    setGridSize(fit.cellSize);
+    setGridOffset(fit.gridOffset);
+    setPerspective(undefined);
+    setBoundaries(undefined);
+    setAutoFitStatus(
+      `Cell ${fit.cellSize[0].toFixed(3)} x ${fit.cellSize[1].toFixed(3)} ` +
+        `(confidence ${confidence})`
+    );
+  }, []);
+
+  // Snapshot of the state that undo/redo covers
+  const trackedState = React.useMemo<TrackedState>(
+    () => ({
+      gridOffset,
+      gridSize,
+      gridMaxPixelsRaw,
+      perspective,
+      boundaries,
+      threshold,
+      edits,
+      imageScale
+    }),
+    [
+      gridOffset,
+      gridSize,
+      gridMaxPixelsRaw,
+      perspective,
+      boundaries,
+      threshold,
+      edits,
+      imageScale
+    ]
+  );
+
+  const [history, setHistory] = React.useState(() =>
+    createHistory(trackedState, "Start")
+  );
+
+  // Whenever tracked state settles, record it. Drags, paint strokes and
+  // wheel zooms are only recorded when they end, so each is a single entry.
+  const interacting = dragInfo.on || painting || wheelZooming;
+  React.useEffect(() => {
+    if (interacting) {
+      return;
+    }
+
+    setHistory((history) => {
+      const label = describeChange(history.present.state, trackedState);
+      return label ? pushHistory(history, trackedState, label) : history;
+    });
+  }, [trackedState, interacting]);
+
+  const restoreHistory = React.useCallback(
+    (history: History<TrackedState>) => {
+      const { state } = history.present;
+
+      setGridOffset(state.gridOffset);
+      setGridSize(state.gridSize);
+      setGridMaxPixelsRaw(state.gridMaxPixelsRaw);
+      setPerspective(state.perspective);
+      setBoundaries(state.boundaries);
+      setThreshold(state.threshold);
+      setEdits(state.edits);
+      setHistory(history);
+
+      if (state.imageScale !== refView.current.imageScale) {
+        zoomAt(state.imageScale, [viewportSize[0] / 2, viewportSize[1] / 2]);
+      }
+    },
+    [zoomAt, viewportSize]
+  );
+
+  const onUndo = React.useCallback(() => {
+    restoreHistory(undo(history));
+  }, [history, restoreHistory]);
+
+  const onRedo = React.useCallback(() => {
+    restoreHistory(redo(history));
+  }, [history, restoreHistory]);
+
+  const onJumpHistory = React.useCallback(
+    (index: number) => {
+      restoreHistory(jumpTo(history, index));
+    },
+    [history, restoreHistory]
+  );
+
+  // Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo. Text fields keep
+  // their own undo.
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        (target instanceof HTMLInputElement && target.type === "text")
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        onUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onUndo, onRedo]);
+
+  // Load a region's settings and edits into the grid state. This starts a
+  // new history, as the steps of one region don't apply to another.
+  // The history starts at the current scale, unless the scale is being
+  // changed as well
+  const loadRegion = React.useCallback(
+    (
+      settings: ExtractionSettings,
+      edits: EditLayer,
+      label: string,
+      imageScale = refView.current.imageScale
+    ) => {
+      const { grid } = settings;
+      const threshold = { ...defaultThresholdOptions, ...settings.threshold };
+
+      setGridOffset(grid.gridOffset);
+      setGridSize(grid.cellSize);
+      setGridMaxPixelsRaw(grid.maxCells);
+      setPerspective(grid.perspective);
+      setBoundaries(grid.boundaries);
+      setSampling(settings.sampling);
+      setThreshold(threshold);
+      setOutputMode(settings.outputMode);
+      setGreyscale(settings.greyscale || defaultGreyscaleOptions);
+      setEdits(edits);
+
+      setHistory(
+        createHistory(
+          {
+            gridOffset: grid.gridOffset,
+            gridSize: grid.cellSize,
+            gridMaxPixelsRaw: grid.maxCells,
+            perspective: grid.perspective,
+            boundaries: grid.boundaries,
+            threshold,
+            edits,
+            imageScale
+          },
+          label
+        )
+      );
+    },
+    []
+  );
+
+  // The regions, with the active one brought up to date
+  const currentRegions = React.useMemo(
+    () =>
+      regions.map((region, index) =>
+        index === activeRegion
+          ? { ...region, settings: extractionSettings, edits }
+          : region
+      ),
+    [regions, activeRegion, extractionSettings, edits]
+  );
+
+  // Palette edits refer to entries by position, so when entries are moved
+  // or removed the edits move with them, wherever they are kept. Each layer
+  // is remapped once, so that unchanged layers stay identical and the
+  // remapping doesn't look like an edit to the undo history.
+  const onChangePalette = React.useCallback(
+    (palette: PaletteEntry[], newIndices?: (number | undefined)[]) => {
+      setPalette(palette);
+      if (!newIndices) {
+        return;
+      }
+
+      const remapped = new Map<EditLayer, EditLayer>();
+      const remap = (layer: EditLayer) => {
+        let result = remapped.get(layer);
+        if (!result) {
+          result = remapPaletteEdits(layer, newIndices);
+          remapped.set(layer, result);
+        }
+        return result;
+      };
+
+      setEdits(remap);
+      setRegions((regions) =>
+        regions.map((region) => ({ ...region, edits: remap(region.edits) }))
+      );
+      setHistory((history) =>
+        mapHistory(history, (state) => ({
+          ...state,
+          edits: remap(state.edits)
+        }))
+      );
+      setPaintTool((tool) => {
+        if (tool.kind !== "palette") {
+          return tool;
+        }
+
+        const paletteIndex = newIndices[tool.paletteIndex];
+        return paletteIndex === undefined
+          ? { kind: "erase" }
+          : { kind: "palette", paletteIndex };
+      });
+    },
+    []
+  );
+
+  const onSelectRegion = React.useCallback(
+    (index: number) => {
+      const region = currentRegions[index];
+      if (index === activeRegion || !region) {
+        return;
+      }
+
+      setRegions(currentRegions);
+      setActiveRegion(index);
+      loadRegion(region.settings, region.edits, `Select ${region.name}`);
+    },
+    [currentRegions, activeRegion, loadRegion]
+  );
+
+  const onRenameRegion = React.useCallback(
+    (name: string) => {
+      setRegions((regions) =>
+        regions.map((region, index) =>
+          index === activeRegion ? { ...region, name } : region
+        )
+      );
+    },
+    [activeRegion]
+  );
+
+  // New regions start with the active region's grid and options, but no
+  // edits, and become active
+  const onAddRegion = React.useCallback(() => {
+    const region: Region = {
+      name: newRegionName(currentRegions),
+      settings: extractionSettings,
+      edits: {}
+    };
+
+    setRegions([...currentRegions, region]);
+    setActiveRegion(currentRegions.length);
+    loadRegion(region.settings, region.edits, `Add ${region.name}`);
+  }, [currentRegions, extractionSettings, loadRegion]);
+
+  const onRemoveRegion = React.useCallback(() => {
+    if (currentRegions.length < 2) {
+      return;
+    }
+
+    const remaining = currentRegions.filter(
+      (_, index) => index !== activeRegion
+    );
+    const active = Math.min(activeRegion, remaining.length - 1);
+
+    setRegions(remaining);
+    setActiveRegion(active);
+    loadRegion(
+      remaining[active].settings,
+      remaining[active].edits,
+      `Remove ${currentRegions[activeRegion].name}`
+    );
+  }, [currentRegions, activeRegion, loadRegion]);
+
+  // Clicking another region's grid selects it, so that it can be moved and
+  // resized like the active grid. The active grid wins where they overlap.
+  const onRegionMouseDown = React.useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      if (event.button !== 0 || refSpaceDown.current) {
+        return;
+      }
+
+      const point = toImageCoord(event);
+      const inGrid = (grid: GridPlacement) =>
+        cellAt({ ...grid, canvasSize: gridCanvasSize }, point) !== undefined;
+
+      if (inGrid(extractionSettings.grid)) {
+        return;
+      }
+
+      const selected = regions.findIndex(
+        (region, index) =>
+          index !== activeRegion && inGrid(region.settings.grid)
+      );
+
+      if (selected >= 0) {
+        // The click only selects; dragging starts with the next one
+        event.stopPropagation();
+        onSelectRegion(selected);
+      }
+    },
+    [
+      toImageCoord,
+      gridCanvasSize,
+      extractionSettings,
+      regions,
+      activeRegion,
+      onSelectRegion
+    ]
+  );
+
+  const [regionExportError, setRegionExportError] = React.useState("");
+
+  const onExportRegions = React.useCallback(() => {
+    const imageCanvas = refImageCanvas.current;
+    const ctx = imageCanvas?.getContext("2d");
+
+    if (!imageCanvas || !ctx || imageCanvas.width === 0) {
+      setRegionExportError("Choose an image first");
+      return;
+    }
+
+    const archive = exportRegions(
+      ctx.getImageData(0, 0, imageCanvas.width, imageCanvas.height),
+      currentRegions,
+      palette,
+      saveFormat,
+      asciiArtOptions
+    );
+
+    setRegionExportError("");
+    saveObjectToFile(
+      new Blob([archive], { type: "application/zip" }),
+      `${saveFilename || "image"}.regions.zip`
     );
+  }, [currentRegions, palette, saveFormat, asciiArtOptions, saveFilename]);
+
+  // The source image as a data URL, cached so that autosave doesn't re-read
+  // the image every time
+  const refImageDataUrl = React.useRef<{ url: string; dataUrl: string }>();
+
+  const imageDataUrl = React.useCallback(async () => {
+    if (imageUrl === undefined) {
+      return undefined;
+    }
+
+    const cached = refImageDataUrl.current;
+    if (cached && cached.url === imageUrl) {
+      return cached.dataUrl;
+    }
+
+    const dataUrl = await toDataUrl(imageUrl);
+    refImageDataUrl.current = { url: imageUrl, dataUrl };
+    return dataUrl;
+  }, [imageUrl]);
+
+  // Project state, as saved to project files and autosaved
+  const projectContent = React.useCallback(
+    async (): Promise<ProjectContent> => ({
+      image: await imageDataUrl(),
+      settings: extractionSettings,
+      imageScale,
+      palette,
+      edits,
+      regions: currentRegions,
+      activeRegion
+    }),
+    [
+      imageDataUrl,
+      extractionSettings,
+      imageScale,
+      palette,
+      edits,
+      currentRegions,
+      activeRegion
+    ]
+  );
+
+  const applyProject = React.useCallback(
+    (project: Project) => {
+      // Projects without regions have a single region
+      const regions =
+        project.regions && project.regions.length > 0
+          ? project.regions
+          : [
+              {
+                name: "Region 1",
+                settings: project.settings,
+                edits: project.edits
+              }
+            ];
+
+      updateImage(project.image);
+      setImageScale(project.imageScale);
+      setPalette(project.palette);
+      setImportedImage(undefined);
+      setRegions(regions);
+      setActiveRegion(
+        Math.min(regions.length - 1, Math.max(0, project.activeRegion || 0))
+      );
+      loadRegion(
+        project.settings,
+        project.edits,
+        "Open project",
+        project.imageScale
+      );
+    },
+    [updateImage, loadRegion]
+  );
+
+  const [projectStatus, setProjectStatus] = React.useState("");
+
+  const onSaveProject = React.useCallback(async () => {
+    try {
+      const project = serializeProject(await projectContent());
+      saveObjectToFile(
+        new Blob([project], { type: "application/json" }),
+        `${saveFilename || "image"}.project.json`
+      );
+      setProjectStatus("");
+    } catch (error) {
+      setProjectStatus(error instanceof Error ? error.message : String(error));
+    }
+  }, [projectContent, saveFilename]);
+
+  const onOpenProject = React.useCallback(async () => {
+    const files = await pickFile(".json", false);
+    const file = files ? files[0] : undefined;
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      applyProject(parseProject(await file.text()));
+      setProjectStatus(`Opened ${file.name}`);
+    } catch (error) {
+      setProjectStatus(error instanceof Error ? error.message : String(error));
+    }
+  }, [applyProject]);
+
+  // Restore the last session on startup. Autosave waits until this is done
+  // so that it doesn't overwrite the session before it's restored.
+  const [sessionRestored, setSessionRestored] = React.useState(false);
+
+  // applyProject changes with the state it reads, and the session must only
+  // be restored once, so the effect reads the latest one through a ref
+  const refApplyProject = React.useRef(applyProject);
+  refApplyProject.current = applyProject;
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    loadSession()
+      .then((session) => {
+        if (!cancelled && session !== undefined) {
+          refApplyProject.current(parseProject(session));
+        }
+      })
+      .catch(
+        (error) =>
+          !cancelled &&
+          setProjectStatus(
+            "Couldn't restore the last session: " +
+              (error instanceof Error ? error.message : String(error))
+          )
+      )
+      .then(() => !cancelled && setSessionRestored(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Autosave shortly after the project state settles
+  React.useEffect(() => {
+    if (!sessionRestored || interacting) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const project = serializeProject(await projectContent());
+        if (!cancelled) {
+          await saveSession(project);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setProjectStatus(
+            "Couldn't autosave the session: " +
+              (error instanceof Error ? error.message : String(error))
+          );
+        }
+      }
+    }, autosaveDelay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [sessionRestored, interacting, projectContent]);
+
+  const onSaveBatch = React.useCallback(
+    (archive: Uint8Array, fileName: string) => {
+      saveObjectToFile(
+        new Blob([archive], { type: "application/zip" }),
+        fileName
+      );
+    },
+    []
+  );
+
+  const onCloseBatch = React.useCallback(() => {
+    setBatchFiles([]);
   }, []);
 
   const toggleWebGLGrid = React.useCallback(() => {
     setWebGLGrid((value) => !value);
+    setGridFallback("");
   }, []);
 
   return (
     <div className="App">
-      <button onClick={onBrowse}>Choose image ...</button>
+      <div className="ScaleBar">
+        <button onClick={onBrowse}>Choose image ...</button>
+        <div className="StatusText">{imageError}</div>
+        <button onClick={onAutoFitGrid} disabled={imageUrl === undefined}>
+          Auto-fit grid
+        </button>
+        <div className="StatusText">{autoFitStatus}</div>
+        <button onClick={onSaveProject}>Save project</button>
+        <button onClick={onOpenProject}>Open project ...</button>
+        <div className="StatusText">{projectStatus}</div>
+      </div>
       <div className="ScaleBar">
         <div>
           <div className="ScaleBar">
@@ -450,14 +2454,156 @@ export default function App() {
               <div>Scale:&nbsp;</div>
               <input
                 type="number"
-                min={1}
-                max={10}
-                step={1}
-                value={imageScale}
+                min={minImageScale}
+                max={maxImageScale}
+                step={0.1}
+                value={Number(imageScale.toFixed(2))}
                 onChange={onChangeScale}
               />
             </div>
+            <button onClick={onFitToWindow}>Fit to window</button>
+          </div>
+          <div className="ScaleBar">
+            <div className="ScaleInfo">
+              <div>File name:&nbsp;</div>
+              <input
+                type="text"
+                value={saveFilename}
+                onChange={onChangeSaveFilename}
+              />
+              <select value={saveFormat} onChange={onChangeSaveFormat}>
+                {(Object.keys(exportFormats) as ExportFormat[]).map(
+                  (format) => (
+                    <option key={format} value={format}>
+                      {exportFormats[format].label}
+                    </option>
+                  )
+                )}
+              </select>
+            </div>
             <button onClick={onSaveToFile}>Save bitmap to file</button>
+            <div className="StatusText">{saveError}</div>
+          </div>
+          <div className="ScaleBar">
+            <div className="ScaleInfo">
+              <div>ASCII on/off:&nbsp;</div>
+              <input
+                className="CharInput"
+                type="text"
+                value={asciiArtOptions.onChar}
+                onChange={onChangeOnChar}
+              />
+              <input
+                className="CharInput"
+                type="text"
+                value={asciiArtOptions.offChar}
+                onChange={onChangeOffChar}
+              />
+            </div>
+            <button onClick={onImportBitmap}>Import bitmap ...</button>
+            {importedImage && (
+              <>
+                <div className="StatusText">
+                  Showing {importedImage.name}&nbsp;
+                </div>
+                <button onClick={onCloseImport}>Close</button>
+              </>
+            )}
+            <div className="StatusText">{importError}</div>
+          </div>
+          <div className="ScaleBar">
+            <button onClick={onUndo} disabled={!canUndo(history)}>
+              Undo
+            </button>
+            <button onClick={onRedo} disabled={!canRedo(history)}>
+              Redo
+            </button>
+          </div>
+          <HistoryPanel history={history} onJump={onJumpHistory} />
+          <EditToolbar
+            tool={paintTool}
+            onChangeTool={setPaintTool}
+            palette={palette}
+            editCount={Object.keys(edits).length}
+            staleEditCount={staleEditKeys.length}
+            onClearEdits={onClearEdits}
+          />
+          <CExportPanel
+            image={displayedImage}
+            options={cExportOptions}
+            onChangeOptions={setCExportOptions}
+            onSave={onSaveCSource}
+          />
+          <TilePanel
+            image={displayedImage}
+            enabled={tilesEnabled}
+            onToggleEnabled={toggleTilesEnabled}
+            tiles={tileParams}
+            onChangeTiles={setTileParams}
+            bdfOptions={bdfOptions}
+            onChangeBDFOptions={setBDFOptions}
+            format={saveFormat}
+            context={{ asciiArt: asciiArtOptions }}
+            onSave={onSaveTiles}
+          />
+          <RegionPanel
+            names={regions.map((region) => region.name)}
+            active={activeRegion}
+            onSelect={onSelectRegion}
+            onRename={onRenameRegion}
+            onAdd={onAddRegion}
+            onRemove={onRemoveRegion}
+            format={saveFormat}
+            onExportAll={onExportRegions}
+            exportError={regionExportError}
+          />
+          <GridControls
+            gridOffset={gridOffset}
+            gridSize={gridSize}
+            onChangeOffset={setGridOffset}
+            onChangeSize={setGridSize}
+            lockAspect={lockAspect}
+            onToggleLockAspect={onToggleLockAspect}
+          />
+          <div className="ScaleBar">
+            <label className="ScaleInfo">
+              <input
+                type="checkbox"
+                checked={perspective !== undefined}
+                onChange={onTogglePerspective}
+              />
+              Perspective grid
+            </label>
+            <label className="ScaleInfo">
+              <input
+                type="checkbox"
+                checked={boundaries !== undefined}
+                onChange={onToggleBoundaries}
+                disabled={imageUrl === undefined}
+              />
+              Non-uniform grid
+            </label>
+            {perspective && (
+              <div className="ScaleInfo">
+                <div>Cells:&nbsp;</div>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={perspective.cells[0]}
+                  onChange={(event) => onChangePerspectiveCells(0, event)}
+                />
+                <div>&nbsp;x&nbsp;</div>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={perspective.cells[1]}
+                  onChange={(event) => onChangePerspectiveCells(1, event)}
+                />
+              </div>
+            )}
+            <div className="StatusText">{extractionError}</div>
           </div>
           <div className="ScaleBar">
             <div className="ScaleInfo">
@@ -465,7 +2611,6 @@ export default function App() {
               <input
                 type="number"
                 min={1}
-                max={500}
                 step={1}
                 value={gridMaxPixelsRaw[0]}
                 onChange={onChangeMaxWidth}
@@ -475,7 +2620,6 @@ export default function App() {
                 <input
                   type="number"
                   min={1}
-                  max={500}
                   step={1}
                   value={gridMaxPixelsRaw[1]}
                   onChange={onChangeMaxHeight}
@@ -483,6 +2627,66 @@ export default function App() {
               </div>
             </div>
           </div>
+          <ThresholdControls
+            threshold={threshold}
+            onChange={setThreshold}
+            appliedLevel={appliedThresholdLevel}
+          />
+          <ReconstructionPanel
+            enabled={showReconstruction}
+            onToggleEnabled={onToggleReconstruction}
+            view={reconstructionView}
+            onChangeView={setReconstructionView}
+            metrics={reconstruction && reconstruction.metrics}
+            objective={tuningObjective}
+            onChangeObjective={setTuningObjective}
+            onTuneGrid={onTuneGrid}
+            onTuneThreshold={onTuneThreshold}
+            tuning={tuning}
+            onCancelTuning={onCancelTuning}
+            status={tuningStatus}
+          />
+          <ConfidenceControls
+            enabled={showConfidence}
+            onToggleEnabled={onToggleConfidence}
+            options={ambiguityOptions}
+            onChangeOptions={setAmbiguityOptions}
+            ambiguousCount={ambiguous.length}
+            selected={selectedAmbiguous}
+            onStep={onStepAmbiguous}
+          />
+          <div className="ScaleBar">
+            <div className="ScaleInfo">
+              <div>Sampling:&nbsp;</div>
+              <select value={sampling} onChange={onChangeSampling}>
+                <option value="mean">Mean</option>
+                <option value="median">Median</option>
+                <option value="center">Centre sample</option>
+                <option value="majority">Majority vote</option>
+                <option value="trimmedMean">Trimmed mean</option>
+              </select>
+            </div>
+          </div>
+          <div className="ScaleBar">
+            <div className="ScaleInfo">
+              <div>Output:&nbsp;</div>
+              <select value={outputMode} onChange={onChangeOutputMode}>
+                <option value="monochrome">Monochrome</option>
+                <option value="palette">Palette</option>
+                <option value="greyscale">Greyscale</option>
+              </select>
+            </div>
+          </div>
+          {outputMode === "greyscale" && (
+            <GreyscaleControls options={greyscale} onChange={setGreyscale} />
+          )}
+          {outputMode === "palette" && (
+            <PalettePanel
+              palette={palette}
+              onChange={onChangePalette}
+              onDerive={onDerivePalette}
+            />
+          )}
           <label>
             <input
               type="checkbox"
@@ -491,34 +2695,113 @@ export default function App() {
             />
             WebGL grid
           </label>
+          <div className="StatusText">{gridFallback}</div>
+          <GridStyleControls style={gridStyle} onChange={setGridStyle} />
         </div>
         <div className="ExtractedImageHolder">
           <div className="ExtractedImagePlaceholder">
-            <canvas ref={refExtractedImage} width={0} height={0} />
+            <canvas
+              ref={refExtractedImage}
+              width={0}
+              height={0}
+              onMouseDown={onPaintStart}
+              onMouseMove={onPaintMove}
+              onMouseUp={onPaintEnd}
+              onMouseLeave={onPaintEnd}
+            />
           </div>
+          {showReconstructionSideBySide && (
+            <>
+              <div className="ExtractedImagePlaceholder">
+                <canvas ref={refReconstructionImage} width={0} height={0} />
+              </div>
+              <div className="ExtractedImagePlaceholder">
+                <canvas ref={refDifferenceImage} width={0} height={0} />
+              </div>
+            </>
+          )}
         </div>
       </div>
+      {batchFiles.length > 0 && (
+        <BatchPanel
+          files={batchFiles}
+          settings={extractionSettings}
+          palette={palette}
+          minAutoFitConfidence={minAutoFitConfidence}
+          format={saveFormat}
+          asciiArt={asciiArtOptions}
+          onSave={onSaveBatch}
+          onClose={onCloseBatch}
+        />
+      )}
       <div
-        className="ImageBox"
+        ref={refImageBox}
+        className={dropping ? "ImageBox Dropping" : "ImageBox"}
+        onMouseDownCapture={onRegionMouseDown}
         onMouseDown={onMouseDown}
         onMouseMove={onMouseMove}
         onMouseUp={onMouseUp}
+        onMouseLeave={onMouseLeave}
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        onDrop={onDrop}
       >
         {/* Image */}
         {imageUrl && (
           <canvas
-            style={{ transform: `scale(${imageScale})` }}
+            style={{
+              transform:
+                `translate(${-viewOffset[0]}px, ${-viewOffset[1]}px) ` +
+                `scale(${imageScale})`
+            }}
             ref={refImageCanvas}
             className="ImageCanvas"
           />
         )}
 
+        {/* Reconstruction or difference heat map */}
+        {imageUrl && showReconstructionOverlay && (
+          <canvas
+            style={{
+              transform:
+                `translate(${-viewOffset[0]}px, ${-viewOffset[1]}px) ` +
+                `scale(${imageScale})`
+            }}
+            ref={refReconstructionOverlay}
+            className="ImageCanvas"
+          />
+        )}
+
         {/* Grid overlay */}
         <canvas
-          key={webGLGrid ? "WebGLGrid" : "Canvas2DGrid"}
+          key={useWebGLGrid ? "WebGLGrid" : "Canvas2DGrid"}
           ref={refGridCanvas}
           className="ImageCanvas"
         />
+
+        {/* Rulers */}
+        <canvas ref={refRulerCanvas} className="ImageCanvas" />
+
+        {hoverCell && (
+          <div className="HoverLabel">
+            Cell {hoverCell[0]}, {hoverCell[1]}
+          </div>
+        )}
+
+        {/* Perspective corner handles */}
+        {perspective &&
+          perspective.corners.map(([x, y], i) => (
+            <div
+              key={i}
+              className="CornerHandle"
+              style={{
+                left: x * imageScale - viewOffset[0] - handleRadius,
+                top: y * imageScale - viewOffset[1] - handleRadius,
+                width: handleRadius * 2,
+                height: handleRadius * 2
+              }}
+            />
+          ))}
       </div>
     </div>
   );
@@ -0,0 +1,150 @@
+import {
+  encodeImage,
+  ExportContext,
+  ExportFormat,
+  exportFormats
+} from "../Exporters/imageFormats";
+import { createZip, ZipEntry } from "../Exporters/zipArchive";
+import { ExtractionWorker } from "../PixelExtractor/extractionWorker";
+import {
+  ExtractionSettings,
+  PaletteEntry
+} from "../PixelExtractor/extractorTypes";
+import { BatchExtraction } from "./batchExtraction";
+
+export interface BatchResult extends Partial<BatchExtraction> {
+  fileName: string;
+  grid: ExtractionSettings["grid"];
+  error?: string;
+}
+
+/** Decode an image file into pixels */
+export function loadImageData(file: Blob): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Can't get a 2D context to decode the image."));
+        return;
+      }
+
+      ctx.drawImage(image, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The image could not be decoded."));
+    };
+
+    image.src = url;
+  });
+}
+
+/**
+ * Decode one file of a batch and extract it in the worker with
+ * extractBatchImage. Errors are returned in the result rather than thrown.
+ */
+export async function processBatchFile(
+  worker: ExtractionWorker,
+  file: File,
+  settings: ExtractionSettings,
+  palette: PaletteEntry[],
+  autoFit: boolean,
+  minAutoFitConfidence: number
+): Promise<BatchResult> {
+  try {
+    const source = await loadImageData(file);
+
+    return {
+      fileName: file.name,
+      ...(await worker.extractBatchImage(
+        source,
+        settings,
+        palette,
+        autoFit,
+        minAutoFitConfidence
+      ))
+    };
+  } catch (error) {
+    return {
+      fileName: file.name,
+      grid: settings.grid,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+function baseName(fileName: string) {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.substr(0, dot) : fileName;
+}
+
+/**
+ * Export every successfully extracted file of the batch in the given format,
+ * plus a manifest.json of the settings used for each file.
+ */
+export function exportBatch(
+  results: BatchResult[],
+  format: ExportFormat,
+  context: ExportContext
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const { extension } = exportFormats[format];
+  const usedNames: { [name: string]: boolean } = { "manifest.json": true };
+  const entries: ZipEntry[] = [];
+
+  const manifestFiles = results.map((result) => {
+    const { fileName, grid, autoFitConfidence, image, error } = result;
+    let output: string | undefined;
+
+    if (image && !error) {
+      // Files with the same base name get a numeric suffix
+      let name = `${baseName(fileName)}.${extension}`;
+      for (let i = 2; usedNames[name]; ++i) {
+        name = `${baseName(fileName)}-${i}.${extension}`;
+      }
+      usedNames[name] = true;
+
+      const data = encodeImage(format, image, {
+        ...context,
+        settings: context.settings && { ...context.settings, grid }
+      });
+      entries.push({
+        name,
+        data: typeof data === "string" ? encoder.encode(data) : data
+      });
+      output = name;
+    }
+
+    return {
+      source: fileName,
+      output,
+      grid,
+      autoFitConfidence,
+      error
+    };
+  });
+
+  const manifest = {
+    format,
+    settings: context.settings,
+    files: manifestFiles
+  };
+
+  entries.push({
+    name: "manifest.json",
+    data: encoder.encode(JSON.stringify(manifest, null, 2) + "\n")
+  });
+
+  return createZip(entries);
+}
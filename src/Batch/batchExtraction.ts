@@ -0,0 +1,65 @@
+import { IndexedImage } from "../Exporters/exportTypes";
+import { toIndexedImage } from "../Exporters/indexedImage";
+import { detectGrid } from "../GridDetection/detectGrid";
+import { extractPixels } from "../PixelExtractor/extractPixels";
+import {
+  ExtractionSettings,
+  PaletteEntry
+} from "../PixelExtractor/extractorTypes";
+
+// Extraction of one image of a batch, without the file it came from
+export interface BatchExtraction {
+  // Grid that was used, which differs from the shared grid when auto-fit
+  grid: ExtractionSettings["grid"];
+
+  // Confidence of the auto-fit, if the grid was auto-fitted
+  autoFitConfidence?: number;
+
+  image: IndexedImage;
+}
+
+/**
+ * Extract one image of a batch with the shared settings. With autoFit, the
+ * grid is fitted to the image, keeping the shared grid if the fit isn't
+ * confident enough.
+ */
+export function extractBatchImage(
+  source: ImageData,
+  settings: ExtractionSettings,
+  palette: PaletteEntry[],
+  autoFit: boolean,
+  minAutoFitConfidence: number
+): BatchExtraction {
+  let grid = settings.grid;
+  let autoFitConfidence: number | undefined;
+
+  if (autoFit) {
+    const fit = detectGrid(source);
+    autoFitConfidence = fit.confidence;
+
+    if (fit.confidence >= minAutoFitConfidence) {
+      // The fitted grid is uniform, so it replaces perspective and
+      // boundary grids
+      grid = {
+        ...grid,
+        cellSize: fit.cellSize,
+        gridOffset: fit.gridOffset,
+        perspective: undefined,
+        boundaries: undefined
+      };
+    }
+  }
+
+  const extracted = extractPixels(source, grid, settings);
+
+  return {
+    grid,
+    autoFitConfidence,
+    image: toIndexedImage(
+      extracted,
+      settings.outputMode,
+      palette,
+      settings.greyscale
+    )
+  };
+}
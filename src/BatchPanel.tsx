@@ -0,0 +1,161 @@
+import * as React from "react";
+
+import { BatchResult, exportBatch, processBatchFile } from "./Batch/batch";
+import { AsciiArtOptions } from "./Exporters/asciiArt";
+import { IndexedImage } from "./Exporters/exportTypes";
+import { ExportFormat, exportFormats } from "./Exporters/imageFormats";
+import { createExtractionWorker } from "./PixelExtractor/extractionWorker";
+import {
+  ExtractionSettings,
+  PaletteEntry
+} from "./PixelExtractor/extractorTypes";
+
+// Largest thumbnail dimension in CSS pixels
+const thumbnailSize = 96;
+
+function Thumbnail({ image }: { image: IndexedImage }) {
+  const refCanvas = React.useRef<HTMLCanvasElement>(null);
+
+  React.useEffect(() => {
+    const canvas = refCanvas.current;
+    const ctx = canvas?.getContext("2d");
+
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    canvas.width = image.width;
+    canvas.height = image.height;
+
+    if (image.width === 0 || image.height === 0) {
+      return;
+    }
+
+    const pixelData = ctx.createImageData(image.width, image.height);
+    for (let i = 0; i < image.indices.length; ++i) {
+      const color = image.palette[image.indices[i]];
+      pixelData.data[i * 4] = color[0];
+      pixelData.data[i * 4 + 1] = color[1];
+      pixelData.data[i * 4 + 2] = color[2];
+      pixelData.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(pixelData, 0, 0);
+  }, [image]);
+
+  const scale =
+    thumbnailSize / Math.max(1, Math.max(image.width, image.height));
+
+  return (
+    <canvas
+      ref={refCanvas}
+      className="BatchThumbnail"
+      style={{ width: image.width * scale, height: image.height * scale }}
+    />
+  );
+}
+
+interface BatchPanelProps {
+  files: File[];
+  settings: ExtractionSettings;
+  palette: PaletteEntry[];
+  minAutoFitConfidence: number;
+
+  format: ExportFormat;
+  asciiArt: AsciiArtOptions;
+  onSave: (archive: Uint8Array, fileName: string) => void;
+  onClose: () => void;
+}
+
+export function BatchPanel({
+  files,
+  settings,
+  palette,
+  minAutoFitConfidence,
+  format,
+  asciiArt,
+  onSave,
+  onClose
+}: BatchPanelProps) {
+  const [autoFit, setAutoFit] = React.useState(false);
+  const [results, setResults] = React.useState<BatchResult[]>([]);
+  const [processing, setProcessing] = React.useState(false);
+
+  // Whenever the files or settings change, extract every file again. The
+  // files are extracted in a worker of their own, which is ended when the
+  // batch is superseded.
+  React.useEffect(() => {
+    const worker = createExtractionWorker();
+    let cancelled = false;
+
+    setProcessing(true);
+
+    (async () => {
+      const results: BatchResult[] = [];
+      for (const file of files) {
+        results.push(
+          await processBatchFile(
+            worker,
+            file,
+            settings,
+            palette,
+            autoFit,
+            minAutoFitConfidence
+          )
+        );
+
+        if (cancelled) {
+          return;
+        }
+      }
+
+      setResults(results);
+      setProcessing(false);
+    })();
+
+    return () => {
+      cancelled = true;
+      worker.terminate();
+    };
+  }, [files, settings, palette, autoFit, minAutoFitConfidence]);
+
+  const onExportAll = () => {
+    onSave(exportBatch(results, format, { asciiArt, settings }), "batch.zip");
+  };
+
+  return (
+    <div className="BatchPanel">
+      <div className="ScaleBar">
+        <div className="ScaleInfo">Batch of {files.length} images</div>
+        <label className="ScaleInfo">
+          <input
+            type="checkbox"
+            checked={autoFit}
+            onChange={() => setAutoFit(!autoFit)}
+          />
+          Auto-fit grid per image
+        </label>
+        <button onClick={onExportAll} disabled={processing}>
+          Export all as {exportFormats[format].label} (ZIP)
+        </button>
+        <button onClick={onClose}>Close batch</button>
+        <div className="StatusText">{processing && "Extracting ..."}</div>
+      </div>
+      <div className="BatchResults">
+        {results.map((result, index) => (
+          <div className="BatchResult" key={index}>
+            {result.image && <Thumbnail image={result.image} />}
+            <div>{result.fileName}</div>
+            {result.error && <div className="BatchError">{result.error}</div>}
+            {result.autoFitConfidence !== undefined && (
+              <div>
+                {result.autoFitConfidence >= minAutoFitConfidence
+                  ? `Auto-fit (${result.autoFitConfidence.toFixed(2)})`
+                  : `Shared grid, no fit found`}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
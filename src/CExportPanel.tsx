@@ -0,0 +1,130 @@
+import * as React from "react";
+
+import {
+  BitOrder,
+  CExportOptions,
+  CLayout,
+  defaultBitOrder,
+  exportCSource
+} from "./Exporters/cSourceExporter";
+import { IndexedImage } from "./Exporters/exportTypes";
+
+interface CExportPanelProps {
+  image: IndexedImage | undefined;
+  options: CExportOptions;
+  onChangeOptions: (options: CExportOptions) => void;
+  onSave: (source: string, filename: string) => void;
+}
+
+export function CExportPanel({
+  image,
+  options,
+  onChangeOptions,
+  onSave
+}: CExportPanelProps) {
+  const [status, setStatus] = React.useState("");
+
+  const generate = () => {
+    if (!image || image.width === 0 || image.height === 0) {
+      return undefined;
+    }
+
+    try {
+      return exportCSource(image, options);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  };
+
+  const onChangeLayout = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const layout = event.target.value as CLayout;
+    onChangeOptions({ ...options, layout, bitOrder: defaultBitOrder(layout) });
+  };
+
+  const onSaveHeader = () => {
+    const source = generate();
+    if (source !== undefined) {
+      onSave(source, `${options.symbolName || "image"}.h`);
+      setStatus("");
+    }
+  };
+
+  const onCopy = async () => {
+    const source = generate();
+    if (source === undefined) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(source);
+      setStatus("Copied");
+    } catch (error) {
+      setStatus("Copy to clipboard failed");
+    }
+  };
+
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>C header:&nbsp;</div>
+        <select value={options.layout} onChange={onChangeLayout}>
+          <option value="xbm">XBM</option>
+          <option value="adafruitGFX">Adafruit GFX</option>
+          <option value="ssd1306">SSD1306 pages</option>
+        </select>
+        <input
+          type="text"
+          value={options.symbolName}
+          onChange={(event) =>
+            onChangeOptions({ ...options, symbolName: event.target.value })
+          }
+        />
+        <select
+          value={options.bitOrder}
+          onChange={(event) =>
+            onChangeOptions({
+              ...options,
+              bitOrder: event.target.value as BitOrder
+            })
+          }
+        >
+          <option value="msbFirst">MSB first</option>
+          <option value="lsbFirst">LSB first</option>
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={options.padToByte}
+            disabled={options.layout === "ssd1306"}
+            onChange={() =>
+              onChangeOptions({ ...options, padToByte: !options.padToByte })
+            }
+          />
+          Pad rows
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={options.progmem}
+            onChange={() =>
+              onChangeOptions({ ...options, progmem: !options.progmem })
+            }
+          />
+          PROGMEM
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={options.rle}
+            onChange={() => onChangeOptions({ ...options, rle: !options.rle })}
+          />
+          RLE
+        </label>
+      </div>
+      <button onClick={onSaveHeader}>Save C header</button>
+      <button onClick={onCopy}>Copy to clipboard</button>
+      <div className="StatusText">{status}</div>
+    </div>
+  );
+}
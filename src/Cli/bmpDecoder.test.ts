@@ -0,0 +1,51 @@
+import { decodeBMP } from "./bmpDecoder";
+import { DecoderError } from "./decoderTypes";
+import {
+  fixtureMismatches,
+  fixtureSize,
+  readFixture
+} from "./fixtures/fixtures";
+
+describe("decodeBMP", () => {
+  const fixtures: [string, string, number][] = [
+    ["b1.bmp", "1 bpp palette", 0],
+    ["b4.bmp", "4 bpp palette", 0],
+    ["b8.bmp", "top-down 8 bpp palette", 0],
+    // 5 bits per channel
+    ["b16.bmp", "16 bpp", 8],
+    ["b24.bmp", "bottom-up 24 bpp", 0],
+    ["b32.bmp", "bottom-up 32 bpp", 0],
+    ["b32bf.bmp", "top-down 32 bpp with bit fields", 0]
+  ];
+
+  fixtures.forEach(([name, description, tolerance]) => {
+    it(`decodes ${description}`, () => {
+      const image = decodeBMP(readFixture(name));
+
+      expect([image.width, image.height]).toEqual(fixtureSize);
+      expect(fixtureMismatches(image, false, tolerance)).toBe(0);
+    });
+  });
+
+  it("rejects files that aren't BMPs", () => {
+    expect(() => decodeBMP(readFixture("rgb8.png"))).toThrow(
+      "File is not a BMP."
+    );
+  });
+
+  it("rejects compressed BMPs", () => {
+    const data = readFixture("b8.bmp");
+    // BI_RLE8
+    data[30] = 1;
+
+    expect(() => decodeBMP(data)).toThrow("Unsupported BMP compression 1.");
+  });
+
+  it("rejects truncated files", () => {
+    const data = readFixture("b24.bmp");
+
+    expect(() => decodeBMP(data.subarray(0, data.length - 10))).toThrow(
+      DecoderError
+    );
+  });
+});
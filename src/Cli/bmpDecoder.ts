@@ -0,0 +1,178 @@
+import { DecoderError } from "./decoderTypes";
+
+const fileHeaderSize = 14;
+
+// BMP header sizes. Headers from BITMAPINFOHEADER on share its layout.
+const coreHeaderSize = 12;
+const infoHeaderSize = 40;
+
+// BMP compression methods
+const compressionNone = 0;
+const compressionBitFields = 3;
+
+// Channel masks of 16 and 32 bpp bitmaps without bit fields
+const defaultMasks: { [bitDepth: number]: number[] } = {
+  16: [0x7c00, 0x03e0, 0x001f, 0],
+  32: [0xff0000, 0x00ff00, 0x0000ff, 0]
+};
+
+/** Reads the 0 - 255 value of a channel from a pixel, or 255 for no mask */
+function maskReader(mask: number) {
+  if (mask === 0) {
+    return () => 255;
+  }
+
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) {
+    ++shift;
+  }
+  const max = mask >>> shift;
+
+  return (value: number) =>
+    Math.round((((value & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decode an uncompressed BMP into RGBA pixels. 1, 4 and 8 bpp palette
+ * bitmaps and 16, 24 and 32 bpp colour bitmaps are supported, including
+ * bit field masks and top-down rows. RLE compressed bitmaps aren't.
+ */
+export function decodeBMP(data: Uint8Array): ImageData {
+  if (
+    data.length < fileHeaderSize + coreHeaderSize ||
+    data[0] !== 0x42 || // 'B'
+    data[1] !== 0x4d // 'M'
+  ) {
+    throw new DecoderError("File is not a BMP.");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+
+  let width: number;
+  let height: number;
+  let bitDepth: number;
+  let compression = compressionNone;
+  let colorsUsed = 0;
+  let paletteEntrySize = 4;
+
+  if (headerSize === coreHeaderSize) {
+    width = view.getUint16(18, true);
+    height = view.getInt16(20, true);
+    bitDepth = view.getUint16(24, true);
+    paletteEntrySize = 3;
+  } else if (
+    headerSize >= infoHeaderSize &&
+    fileHeaderSize + headerSize <= data.length
+  ) {
+    width = view.getInt32(18, true);
+    height = view.getInt32(22, true);
+    bitDepth = view.getUint16(28, true);
+    compression = view.getUint32(30, true);
+    colorsUsed = view.getUint32(46, true);
+  } else {
+    throw new DecoderError(`Unsupported BMP header size ${headerSize}.`);
+  }
+
+  // Negative heights mean top-down rows
+  const topDown = height < 0;
+  height = Math.abs(height);
+
+  if (width <= 0 || height === 0) {
+    throw new DecoderError(`Invalid BMP size ${width} x ${height}.`);
+  }
+
+  if ([1, 4, 8, 16, 24, 32].indexOf(bitDepth) < 0) {
+    throw new DecoderError(`Unsupported BMP bit depth ${bitDepth}.`);
+  }
+
+  const bitFields =
+    compression === compressionBitFields &&
+    (bitDepth === 16 || bitDepth === 32);
+  if (compression !== compressionNone && !bitFields) {
+    throw new DecoderError(`Unsupported BMP compression ${compression}.`);
+  }
+
+  // BITMAPINFOHEADER keeps its masks after the header, later headers inside
+  // it. Later headers also have an alpha mask.
+  let masks = defaultMasks[bitDepth];
+  if (bitFields) {
+    const masksOffset = fileHeaderSize + infoHeaderSize;
+    if (masksOffset + 12 > data.length) {
+      throw new DecoderError("Unexpected end of BMP file.");
+    }
+
+    masks = [0, 1, 2].map((i) => view.getUint32(masksOffset + i * 4, true));
+    masks.push(
+      headerSize >= infoHeaderSize + 16
+        ? view.getUint32(masksOffset + 12, true)
+        : 0
+    );
+  }
+
+  const readers = masks ? masks.map(maskReader) : [];
+
+  // Colour table, stored as BGR(A)
+  const palette: number[][] = [];
+  if (bitDepth <= 8) {
+    const paletteOffset = fileHeaderSize + headerSize + (bitFields ? 12 : 0);
+    const count = colorsUsed || 1 << bitDepth;
+
+    for (let i = 0; i < count; ++i) {
+      const offset = paletteOffset + i * paletteEntrySize;
+      if (offset + 3 > data.length) {
+        throw new DecoderError("Unexpected end of BMP file.");
+      }
+      palette.push([data[offset + 2], data[offset + 1], data[offset]]);
+    }
+  }
+
+  // Rows are padded to 4 bytes
+  const rowBytes = Math.floor((bitDepth * width + 31) / 32) * 4;
+  if (pixelOffset + rowBytes * height > data.length) {
+    throw new DecoderError("Unexpected end of BMP file.");
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; ++y) {
+    const rowOffset = pixelOffset + (topDown ? y : height - 1 - y) * rowBytes;
+
+    for (let x = 0; x < width; ++x) {
+      const target = (y * width + x) * 4;
+
+      if (bitDepth <= 8) {
+        const bit = x * bitDepth;
+        const index =
+          (data[rowOffset + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) &
+          ((1 << bitDepth) - 1);
+        const color = palette[index];
+
+        if (!color) {
+          throw new DecoderError(`BMP palette index ${index} out of range.`);
+        }
+
+        pixels.set(color, target);
+        pixels[target + 3] = 255;
+      } else if (bitDepth === 24) {
+        const offset = rowOffset + x * 3;
+        pixels[target] = data[offset + 2];
+        pixels[target + 1] = data[offset + 1];
+        pixels[target + 2] = data[offset];
+        pixels[target + 3] = 255;
+      } else {
+        const value =
+          bitDepth === 16
+            ? view.getUint16(rowOffset + x * 2, true)
+            : view.getUint32(rowOffset + x * 4, true);
+
+        for (let c = 0; c < 4; ++c) {
+          pixels[target + c] = readers[c](value);
+        }
+      }
+    }
+  }
+
+  return { width, height, data: pixels };
+}
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { runCli } from "./cli";
+
+const fixture = join(__dirname, "fixtures", "rgb8.png");
+
+function run(args: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const exitCode = runCli(args, {
+    stdout: (data) => {
+      stdout += typeof data === "string" ? data : Buffer.from(data).toString();
+    },
+    stderr: (text) => {
+      stderr += text;
+    }
+  });
+
+  return { exitCode, stdout, stderr };
+}
+
+describe("runCli", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "extract-pixels-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("writes ASCII art to standard output", () => {
+    const { exitCode, stdout, stderr } = run(["--cell", "8x8", fixture]);
+
+    expect(exitCode).toBe(0);
+    expect(stderr).toBe("");
+    expect(stdout).toBe("#.#.\n.##.\n##.#\n");
+  });
+
+  it("writes a PBM file, taking the format from the extension", () => {
+    const output = join(directory, "out.pbm");
+    const { exitCode, stdout } = run(["--cell=8x8", "-o", output, fixture]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe("");
+
+    // One byte per row, set bits being black, that is off cells
+    const data = readFileSync(output);
+    const header = "P4\n4 3\n";
+    expect(data.subarray(0, header.length).toString()).toBe(header);
+    expect(Array.from(data.subarray(header.length))).toEqual([
+      0x50,
+      0x90,
+      0x20
+    ]);
+  });
+
+  it("writes JSON with the cells and settings", () => {
+    const { exitCode, stdout } = run([
+      "--cell",
+      "8x8",
+      "--format",
+      "json",
+      fixture
+    ]);
+
+    expect(exitCode).toBe(0);
+
+    const document = JSON.parse(stdout);
+    expect([document.width, document.height]).toEqual([4, 3]);
+    expect(document.cells).toEqual([
+      [1, 0, 1, 0],
+      [0, 1, 1, 0],
+      [1, 1, 0, 1]
+    ]);
+    expect(document.settings.grid.cellSize).toEqual([8, 8]);
+  });
+
+  it("fails with usage help on bad arguments", () => {
+    const { exitCode, stdout, stderr } = run(["--bogus", fixture]);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toBe("");
+    expect(stderr).toBe(
+      "extract-pixels: Unknown option --bogus.\n" +
+        "Run extract-pixels --help for usage.\n"
+    );
+  });
+
+  it("fails without an input image", () => {
+    const { exitCode, stderr } = run(["--cell", "8x8"]);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toMatch(/^extract-pixels: No input image given\./);
+  });
+
+  it("fails on unreadable input images", () => {
+    const { exitCode, stderr } = run([join(directory, "missing.png")]);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toMatch(/^extract-pixels: .*ENOENT/);
+  });
+});
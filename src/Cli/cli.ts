@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from "fs";
+import { extname } from "path";
+
+import { defaultAsciiArtOptions } from "../Exporters/asciiArt";
+import {
+  encodeImage,
+  ExportFormat,
+  exportFormats
+} from "../Exporters/imageFormats";
+import { EditLayer } from "../PixelEditor/editLayer";
+import { extractPixels } from "../PixelExtractor/extractPixels";
+import {
+  ExtractionSettings,
+  PaletteEntry
+} from "../PixelExtractor/extractorTypes";
+import { defaultGreyscaleOptions } from "../PixelExtractor/greyscale";
+import { defaultThresholdOptions } from "../PixelExtractor/threshold";
+import { parseProject } from "../Project/project";
+import { defaultRegionSettings, editedImage } from "../Regions/regions";
+import { CliError, CliOptions, parseArguments, usage } from "./cliOptions";
+import { decodeSourceImage } from "./sourceImage";
+
+/**
+ * The settings, edits and palette to extract with: those of the project
+ * (or one of its regions) if there is one, otherwise the app's defaults,
+ * with the command line options on top.
+ */
+function loadSettings(
+  options: CliOptions
+): { settings: ExtractionSettings; edits: EditLayer; palette: PaletteEntry[] } {
+  let settings = defaultRegionSettings;
+  let edits: EditLayer = {};
+  let palette: PaletteEntry[] = [];
+
+  if (options.project !== undefined) {
+    const project = parseProject(readFileSync(options.project, "utf8"));
+    settings = project.settings;
+    edits = project.edits;
+    palette = project.palette;
+
+    if (options.region !== undefined) {
+      const region = (project.regions || []).find(
+        (region) => region.name === options.region
+      );
+
+      if (!region) {
+        throw new CliError(`Project has no region "${options.region}".`);
+      }
+
+      settings = region.settings;
+      edits = region.edits;
+    }
+  } else if (options.region !== undefined) {
+    throw new CliError("--region needs a --project.");
+  }
+
+  const { cellSize, gridOffset, maxCells } = options;
+
+  // Grid options describe a uniform grid, so they replace a perspective or
+  // boundary grid
+  const grid =
+    cellSize || gridOffset || maxCells
+      ? {
+          cellSize: cellSize || settings.grid.cellSize,
+          gridOffset: gridOffset || settings.grid.gridOffset,
+          maxCells: maxCells || settings.grid.maxCells
+        }
+      : settings.grid;
+
+  // Greyscale options are only given to get greyscale output
+  const outputMode =
+    options.outputMode ||
+    (Object.keys(options.greyscale).length > 0
+      ? "greyscale"
+      : settings.outputMode);
+
+  return {
+    settings: {
+      grid,
+      sampling: options.sampling || settings.sampling,
+      threshold: {
+        ...defaultThresholdOptions,
+        ...settings.threshold,
+        ...options.threshold
+      },
+      outputMode,
+      greyscale: {
+        ...defaultGreyscaleOptions,
+        ...settings.greyscale,
+        ...options.greyscale
+      }
+    },
+    edits,
+    palette
+  };
+}
+
+function outputFormat({ format, output }: CliOptions): ExportFormat {
+  if (format) {
+    return format;
+  }
+
+  if (output === undefined) {
+    return "ascii";
+  }
+
+  const extension = extname(output).substr(1).toLowerCase();
+  const formats = Object.keys(exportFormats) as ExportFormat[];
+  const matching = formats.find(
+    (format) => exportFormats[format].extension === extension
+  );
+
+  if (!matching) {
+    throw new CliError(
+      `Can't tell the format of "${output}" from its extension, use --format.`
+    );
+  }
+
+  return matching;
+}
+
+// Where the command writes its output and errors, the process's standard
+// streams when run from the command line
+export interface CliStreams {
+  stdout: (data: string | Uint8Array) => void;
+  stderr: (text: string) => void;
+}
+
+function run(args: string[], { stdout }: CliStreams) {
+  const options = parseArguments(args);
+
+  if (options.help) {
+    stdout(usage);
+    return;
+  }
+
+  if (options.input === undefined) {
+    throw new CliError("No input image given.");
+  }
+
+  const format = outputFormat(options);
+  const { settings, edits, palette } = loadSettings(options);
+  const source = decodeSourceImage(readFileSync(options.input));
+
+  const image = editedImage(
+    extractPixels(source, settings.grid, settings),
+    settings.outputMode,
+    edits,
+    palette,
+    settings.greyscale
+  );
+
+  const data = encodeImage(format, image, {
+    asciiArt: { ...defaultAsciiArtOptions, ...options.asciiArt },
+    settings
+  });
+
+  if (options.output === undefined) {
+    stdout(data);
+  } else {
+    writeFileSync(options.output, data);
+  }
+}
+
+/**
+ * Run extract-pixels with the command line arguments after the node and
+ * script paths, returning the exit code
+ */
+export function runCli(args: string[], streams: CliStreams): number {
+  try {
+    run(args, streams);
+    return 0;
+  } catch (error) {
+    streams.stderr(
+      `extract-pixels: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`
+    );
+
+    if (error instanceof CliError) {
+      streams.stderr("Run extract-pixels --help for usage.\n");
+    }
+
+    return 1;
+  }
+}
@@ -0,0 +1,84 @@
+import { CliError, parseArguments } from "./cliOptions";
+
+describe("parseArguments", () => {
+  it("parses flags with separate and inline values", () => {
+    const options = parseArguments([
+      "--cell",
+      "8x7.5",
+      "--offset=3.5,2",
+      "--max",
+      "40x30",
+      "--sampling=median",
+      "--threshold-mode",
+      "channel",
+      "--channel",
+      "g",
+      "--level",
+      "100",
+      "--invert",
+      "-o",
+      "out.pbm",
+      "image.png"
+    ]);
+
+    expect(options.input).toBe("image.png");
+    expect(options.output).toBe("out.pbm");
+    expect(options.cellSize).toEqual([8, 7.5]);
+    expect(options.gridOffset).toEqual([3.5, 2]);
+    expect(options.maxCells).toEqual([40, 30]);
+    expect(options.sampling).toBe("median");
+    expect(options.threshold).toEqual({
+      mode: "channel",
+      channel: 1,
+      level: 100,
+      invert: true
+    });
+  });
+
+  it("parses colours, characters and greyscale options", () => {
+    const options = parseArguments([
+      "--key-color",
+      "#FF8000",
+      "--on-char=@",
+      "--off-char",
+      " ",
+      "--grey-levels",
+      "16",
+      "--dither",
+      "ordered"
+    ]);
+
+    expect(options.threshold.keyColor).toEqual([255, 128, 0]);
+    expect(options.asciiArt).toEqual({ onChar: "@", offChar: " " });
+    expect(options.greyscale).toEqual({ levels: 16, dither: "ordered" });
+  });
+
+  it("parses help", () => {
+    expect(parseArguments(["-h"]).help).toBe(true);
+    expect(parseArguments([]).help).toBe(false);
+  });
+
+  const errors: [string, string[], string][] = [
+    ["unknown flags", ["--frobnicate"], "Unknown option --frobnicate."],
+    ["flags without a value", ["--cell"], "--cell needs a value."],
+    ["a second input", ["a.png", "b.png"], 'Unexpected argument "b.png".'],
+    [
+      "values that aren't a choice",
+      ["--sampling", "mode"],
+      "--sampling must be one of mean, median, center, majority, " +
+        'trimmedMean, got "mode".'
+    ],
+    ["malformed pairs", ["--cell", "8"], "--cell"],
+    ["fractional cell counts", ["--max", "4x2.5"], "whole numbers of cells"],
+    ["levels out of range", ["--level", "256"], "--level must be a number"],
+    ["malformed colours", ["--key-color", "red"], "#rrggbb"],
+    ["long characters", ["--on-char", "##"], "single character"]
+  ];
+
+  errors.forEach(([description, args, message]) => {
+    it(`rejects ${description}`, () => {
+      expect(() => parseArguments(args)).toThrow(CliError);
+      expect(() => parseArguments(args)).toThrow(message);
+    });
+  });
+});
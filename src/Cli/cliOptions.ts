@@ -0,0 +1,276 @@
+import { hexToColor } from "../colorHex";
+import { AsciiArtOptions } from "../Exporters/asciiArt";
+import { ExportFormat, exportFormats } from "../Exporters/imageFormats";
+import { Coord } from "../GridRenderer/rendererTypes";
+import { OutputMode, SamplingMethod } from "../PixelExtractor/extractorTypes";
+import {
+  ditherMethods,
+  greyLevelChoices,
+  GreyscaleOptions
+} from "../PixelExtractor/greyscale";
+import { ThresholdMode, ThresholdOptions } from "../PixelExtractor/threshold";
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export interface CliOptions {
+  help: boolean;
+
+  input?: string;
+
+  // Standard output when not given
+  output?: string;
+
+  // Taken from the output file's extension when not given
+  format?: ExportFormat;
+
+  // Saved project, and the name of one of its regions, to take the settings
+  // from
+  project?: string;
+  region?: string;
+
+  // Override the project's settings, or the defaults without a project
+  cellSize?: Coord;
+  gridOffset?: Coord;
+  maxCells?: Coord;
+  sampling?: SamplingMethod;
+  threshold: Partial<ThresholdOptions>;
+  outputMode?: OutputMode;
+  greyscale: Partial<GreyscaleOptions>;
+  asciiArt: Partial<AsciiArtOptions>;
+}
+
+const samplingMethods: SamplingMethod[] = [
+  "mean",
+  "median",
+  "center",
+  "majority",
+  "trimmedMean"
+];
+
+const thresholdModes: ThresholdMode[] = [
+  "anyChannel",
+  "luminance",
+  "channel",
+  "otsu",
+  "colorKey"
+];
+
+const channels = ["r", "g", "b"];
+
+const outputModes: OutputMode[] = ["monochrome", "greyscale", "palette"];
+
+export const usage = `Usage: extract-pixels [options] <image.png|image.bmp>
+
+Extract a bitmap at one pixel per cell from a scaled up PNG or BMP image.
+
+Output:
+  -o, --output <file>      Write to a file instead of standard output
+  --format <format>        ${Object.keys(exportFormats).join(", ")}
+                           (default: from the output file's extension, or
+                           ascii on standard output)
+  --on-char <c>            ASCII art character for on cells
+  --off-char <c>           ASCII art character for off cells
+
+Grid (overrides the project):
+  --project <file>         Take the settings and edits from a saved project
+  --region <name>          Use the named region of the project instead of
+                           the active one
+  --cell <w>x<h>           Cell size in source pixels, such as 8x8
+  --offset <x>,<y>         Offset of the grid, such as 3.5,2
+  --max <w>x<h>            Largest number of cells across and down
+
+Extraction (overrides the project):
+  --sampling <method>      ${samplingMethods.join(", ")}
+  --threshold-mode <mode>  ${thresholdModes.join(", ")}
+  --level <0-255>          Threshold level
+  --channel <r|g|b>        Channel compared by the channel mode
+  --key-color <#rrggbb>    Key colour of the colorKey mode
+  --tolerance <n>          Tolerance of the colorKey mode
+  --invert                 Swap on and off cells
+  --output-mode <mode>     ${outputModes.join(", ")} (palette uses the
+                           project's palette)
+  --grey-levels <n>        2, 4 or 16 grey levels, implies greyscale
+  --dither <method>        ${ditherMethods.join(", ")}, implies greyscale
+
+  -h, --help               Show this help
+`;
+
+function parseChoice<T extends string>(
+  flag: string,
+  value: string,
+  choices: T[]
+): T {
+  const choice = choices.find((choice) => choice === value);
+
+  if (choice === undefined) {
+    throw new CliError(
+      `${flag} must be one of ${choices.join(", ")}, got "${value}".`
+    );
+  }
+
+  return choice;
+}
+
+function parseNumber(flag: string, value: string, min: number, max: number) {
+  const number = Number(value);
+
+  if (value.trim() === "" || isNaN(number) || number < min || number > max) {
+    throw new CliError(
+      `${flag} must be a number from ${min} to ${max}, got "${value}".`
+    );
+  }
+
+  return number;
+}
+
+// Two numbers such as 8x8 or 3.5,2
+function parsePair(flag: string, value: string, separator: string): Coord {
+  const parts = value.split(separator);
+
+  if (
+    parts.length !== 2 ||
+    parts.some((part) => part.trim() === "" || isNaN(Number(part)))
+  ) {
+    throw new CliError(
+      `${flag} must be two numbers separated by "${separator}", got "${value}".`
+    );
+  }
+
+  return [Number(parts[0]), Number(parts[1])];
+}
+
+function parseChar(flag: string, value: string) {
+  if (value.length !== 1) {
+    throw new CliError(`${flag} must be a single character, got "${value}".`);
+  }
+
+  return value;
+}
+
+/** Parse the command line arguments, after the node and script paths */
+export function parseArguments(args: string[]): CliOptions {
+  const options: CliOptions = {
+    help: false,
+    threshold: {},
+    greyscale: {},
+    asciiArt: {}
+  };
+
+  for (let i = 0; i < args.length; ++i) {
+    const arg = args[i];
+
+    if (arg.charAt(0) !== "-") {
+      if (options.input !== undefined) {
+        throw new CliError(`Unexpected argument "${arg}".`);
+      }
+
+      options.input = arg;
+      continue;
+    }
+
+    // Values follow the flag, either after "=" or as the next argument
+    const equals = arg.indexOf("=");
+    const flag = equals > 0 ? arg.substr(0, equals) : arg;
+    const value = () => {
+      if (equals > 0) {
+        return arg.substr(equals + 1);
+      }
+      if (i + 1 >= args.length) {
+        throw new CliError(`${flag} needs a value.`);
+      }
+      return args[++i];
+    };
+
+    switch (flag) {
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "-o":
+      case "--output":
+        options.output = value();
+        break;
+      case "--format":
+        options.format = parseChoice(
+          flag,
+          value(),
+          Object.keys(exportFormats) as ExportFormat[]
+        );
+        break;
+      case "--on-char":
+        options.asciiArt.onChar = parseChar(flag, value());
+        break;
+      case "--off-char":
+        options.asciiArt.offChar = parseChar(flag, value());
+        break;
+      case "--project":
+        options.project = value();
+        break;
+      case "--region":
+        options.region = value();
+        break;
+      case "--cell":
+        options.cellSize = parsePair(flag, value(), "x");
+        break;
+      case "--offset":
+        options.gridOffset = parsePair(flag, value(), ",");
+        break;
+      case "--max": {
+        const maxCells = parsePair(flag, value(), "x");
+        if (maxCells.some((count) => count < 1 || count % 1 !== 0)) {
+          throw new CliError(`${flag} must be whole numbers of cells.`);
+        }
+        options.maxCells = maxCells;
+        break;
+      }
+      case "--sampling":
+        options.sampling = parseChoice(flag, value(), samplingMethods);
+        break;
+      case "--threshold-mode":
+        options.threshold.mode = parseChoice(flag, value(), thresholdModes);
+        break;
+      case "--level":
+        options.threshold.level = parseNumber(flag, value(), 0, 255);
+        break;
+      case "--channel":
+        options.threshold.channel = channels.indexOf(
+          parseChoice(flag, value(), channels)
+        ) as ThresholdOptions["channel"];
+        break;
+      case "--key-color": {
+        const color = value();
+        if (!/^#[0-9a-f]{6}$/i.test(color)) {
+          throw new CliError(`${flag} must be a #rrggbb colour.`);
+        }
+        options.threshold.keyColor = hexToColor(color);
+        break;
+      }
+      case "--tolerance":
+        options.threshold.tolerance = parseNumber(flag, value(), 0, 442);
+        break;
+      case "--invert":
+        options.threshold.invert = true;
+        break;
+      case "--output-mode":
+        options.outputMode = parseChoice(flag, value(), outputModes);
+        break;
+      case "--grey-levels":
+        options.greyscale.levels = Number(
+          parseChoice(flag, value(), greyLevelChoices.map(String))
+        ) as GreyscaleOptions["levels"];
+        break;
+      case "--dither":
+        options.greyscale.dither = parseChoice(flag, value(), ditherMethods);
+        break;
+      default:
+        throw new CliError(`Unknown option ${flag}.`);
+    }
+  }
+
+  return options;
+}
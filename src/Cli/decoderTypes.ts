@@ -0,0 +1,6 @@
+export class DecoderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecoderError";
+  }
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+
+// Every fixture is the same 4 x 3 cell bitmap scaled up to 8 x 8 pixel
+// cells, 32 x 24 pixels, in a different file format
+export const fixtureBits = ["1010", "0110", "1101"];
+export const fixtureCellSize = 8;
+export const fixtureSize = [32, 24];
+
+// Colours of on and off cells. Greyscale fixtures are white and black.
+export const onColor = [230, 200, 40];
+export const offColor = [20, 30, 90];
+
+export function readFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(__dirname, name)));
+}
+
+/** Colour a decoded fixture should have at a pixel */
+export function fixtureColor(x: number, y: number, greyscale: boolean) {
+  const on =
+    fixtureBits[Math.floor(y / fixtureCellSize)].charAt(
+      Math.floor(x / fixtureCellSize)
+    ) === "1";
+
+  if (greyscale) {
+    return on ? [255, 255, 255] : [0, 0, 0];
+  }
+
+  return on ? onColor : offColor;
+}
+
+/**
+ * Count the pixels of a decoded fixture that are more than tolerance away
+ * from the expected colour, or aren't opaque
+ */
+export function fixtureMismatches(
+  { width, height, data }: ImageData,
+  greyscale: boolean,
+  tolerance = 0
+) {
+  let mismatches = 0;
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const i = (y * width + x) * 4;
+      const expected = fixtureColor(x, y, greyscale);
+
+      if (
+        expected.some(
+          (value, c) => Math.abs(data[i + c] - value) > tolerance
+        ) ||
+        data[i + 3] !== 255
+      ) {
+        ++mismatches;
+      }
+    }
+  }
+
+  return mismatches;
+}
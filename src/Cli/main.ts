@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import { runCli } from "./cli";
+
+process.exitCode = runCli(process.argv.slice(2), {
+  stdout: (data) => process.stdout.write(data),
+  stderr: (text) => process.stderr.write(text)
+});
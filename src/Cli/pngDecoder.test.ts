@@ -0,0 +1,52 @@
+import { DecoderError } from "./decoderTypes";
+import {
+  fixtureMismatches,
+  fixtureSize,
+  readFixture
+} from "./fixtures/fixtures";
+import { decodePNG } from "./pngDecoder";
+
+describe("decodePNG", () => {
+  const fixtures: [string, string, boolean][] = [
+    ["rgb8.png", "8 bit truecolour", false],
+    ["rgb16.png", "16 bit truecolour", false],
+    ["rgba8.png", "8 bit truecolour with alpha", false],
+    ["rgb8i.png", "interlaced truecolour", false],
+    ["grey1.png", "1 bit greyscale", true],
+    ["grey16.png", "16 bit greyscale", true],
+    ["ga8.png", "greyscale with alpha", true],
+    ["pal4.png", "4 bit palette", false],
+    ["pal2i.png", "interlaced 2 bit palette", false]
+  ];
+
+  fixtures.forEach(([name, description, greyscale]) => {
+    it(`decodes ${description}`, () => {
+      const image = decodePNG(readFixture(name));
+
+      expect([image.width, image.height]).toEqual(fixtureSize);
+      expect(fixtureMismatches(image, greyscale)).toBe(0);
+    });
+  });
+
+  it("rejects files that aren't PNGs", () => {
+    expect(() => decodePNG(readFixture("b24.bmp"))).toThrow(
+      "File is not a PNG."
+    );
+  });
+
+  it("rejects chunks with a bad CRC", () => {
+    const data = readFixture("rgb8.png");
+    // First byte of the IHDR chunk's data
+    data[16] ^= 0xff;
+
+    expect(() => decodePNG(data)).toThrow("PNG IHDR chunk is corrupt.");
+  });
+
+  it("rejects truncated files", () => {
+    const data = readFixture("rgb8.png");
+
+    expect(() => decodePNG(data.subarray(0, data.length / 2))).toThrow(
+      DecoderError
+    );
+  });
+});
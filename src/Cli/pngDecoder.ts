@@ -0,0 +1,295 @@
+import { inflateSync } from "zlib";
+
+import { crc32 } from "../Exporters/crc32";
+import { DecoderError } from "./decoderTypes";
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG colour types
+const colorTypeGreyscale = 0;
+const colorTypeTruecolor = 2;
+const colorTypeIndexed = 3;
+const colorTypeGreyscaleAlpha = 4;
+
+// Samples per pixel, and the allowed bit depths, of each colour type
+const colorTypes: {
+  [colorType: number]: { channels: number; bitDepths: number[] };
+} = {
+  0: { channels: 1, bitDepths: [1, 2, 4, 8, 16] },
+  2: { channels: 3, bitDepths: [8, 16] },
+  3: { channels: 1, bitDepths: [1, 2, 4, 8] },
+  4: { channels: 2, bitDepths: [8, 16] },
+  6: { channels: 4, bitDepths: [8, 16] }
+};
+
+// Adam7 passes as [x start, y start, x step, y step]
+const adam7Passes = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2]
+];
+
+function paeth(left: number, up: number, upLeft: number) {
+  const p = left + up - upLeft;
+  const pLeft = Math.abs(p - left);
+  const pUp = Math.abs(p - up);
+  const pUpLeft = Math.abs(p - upLeft);
+
+  if (pLeft <= pUp && pLeft <= pUpLeft) {
+    return left;
+  }
+  return pUp <= pUpLeft ? up : upLeft;
+}
+
+/** Undo the filter of one row in place, given the unfiltered previous row */
+function unfilterRow(
+  row: Uint8Array,
+  previous: Uint8Array,
+  filter: number,
+  bytesPerPixel: number
+) {
+  if (filter === 0) {
+    return;
+  }
+
+  if (filter > 4) {
+    throw new DecoderError(`Unknown PNG filter type ${filter}.`);
+  }
+
+  for (let i = 0; i < row.length; ++i) {
+    const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+    switch (filter) {
+      case 1:
+        row[i] += left;
+        break;
+      case 2:
+        row[i] += up;
+        break;
+      case 3:
+        row[i] += (left + up) >> 1;
+        break;
+      case 4:
+        row[i] += paeth(left, up, upLeft);
+        break;
+    }
+  }
+}
+
+/**
+ * Decode a PNG into RGBA pixels. All colour types, bit depths and
+ * interlacing are supported. 16 bit samples are reduced to 8 bits, and
+ * tRNS transparency becomes alpha. Ancillary chunks such as gamma are
+ * ignored.
+ */
+export function decodePNG(data: Uint8Array): ImageData {
+  if (
+    data.length < pngSignature.length ||
+    pngSignature.some((byte, i) => data[i] !== byte)
+  ) {
+    throw new DecoderError("File is not a PNG.");
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let header: Uint8Array | undefined;
+  let palette: Uint8Array | undefined;
+  let transparency: Uint8Array | undefined;
+  const imageData: Uint8Array[] = [];
+
+  let offset = pngSignature.length;
+  for (;;) {
+    if (offset + 12 > data.length) {
+      throw new DecoderError("Unexpected end of PNG file.");
+    }
+
+    const length = view.getUint32(offset);
+    const end = offset + 8 + length;
+    if (end + 4 > data.length) {
+      throw new DecoderError("Unexpected end of PNG file.");
+    }
+
+    let type = "";
+    for (let i = 4; i < 8; ++i) {
+      type += String.fromCharCode(data[offset + i]);
+    }
+
+    if (crc32(data, offset + 4, end) !== view.getUint32(end)) {
+      throw new DecoderError(`PNG ${type} chunk is corrupt.`);
+    }
+
+    const chunkData = data.subarray(offset + 8, end);
+    offset = end + 4;
+
+    if (type === "IHDR") {
+      header = chunkData;
+    } else if (type === "PLTE") {
+      palette = chunkData;
+    } else if (type === "tRNS") {
+      transparency = chunkData;
+    } else if (type === "IDAT") {
+      imageData.push(chunkData);
+    } else if (type === "IEND") {
+      break;
+    } else if (!(type.charCodeAt(0) & 0x20)) {
+      // Other chunks are skipped, unless their upper case first letter
+      // marks them as critical
+      throw new DecoderError(`Unsupported critical PNG chunk ${type}.`);
+    }
+  }
+
+  if (!header || header.length !== 13) {
+    throw new DecoderError("PNG has no valid IHDR chunk.");
+  }
+
+  const headerView = new DataView(header.buffer, header.byteOffset, 13);
+  const width = headerView.getUint32(0);
+  const height = headerView.getUint32(4);
+  const bitDepth = header[8];
+  const colorType = header[9];
+  const interlaced = header[12] === 1;
+  const format = colorTypes[colorType];
+
+  if (!format || format.bitDepths.indexOf(bitDepth) < 0) {
+    throw new DecoderError(
+      `Unsupported PNG colour type ${colorType} with bit depth ${bitDepth}.`
+    );
+  }
+
+  if (header[10] !== 0 || header[11] !== 0 || header[12] > 1) {
+    throw new DecoderError("Unsupported PNG compression, filter or interlace.");
+  }
+
+  if (colorType === colorTypeIndexed && !palette) {
+    throw new DecoderError("Indexed PNG has no palette.");
+  }
+
+  let raw: Uint8Array;
+  try {
+    raw = new Uint8Array(inflateSync(Buffer.concat(imageData)));
+  } catch (error) {
+    throw new DecoderError("PNG image data is corrupt.");
+  }
+
+  const { channels } = format;
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  // Sample c of pixel x of a row, at the image's bit depth
+  const sample = (row: Uint8Array, x: number, c: number) => {
+    if (bitDepth === 16) {
+      const i = (x * channels + c) * 2;
+      return (row[i] << 8) | row[i + 1];
+    }
+    if (bitDepth === 8) {
+      return row[x * channels + c];
+    }
+
+    const bit = x * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+
+  // 16 bit samples keep their high byte, lower depths are scaled up
+  const to8Bit = (value: number) =>
+    bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample);
+
+  // Transparent grey level or colour, at the image's bit depth
+  const transparencyView =
+    transparency &&
+    new DataView(
+      transparency.buffer,
+      transparency.byteOffset,
+      transparency.byteLength
+    );
+  const transparentSample = (c: number) =>
+    transparencyView && transparencyView.byteLength >= (c + 1) * 2
+      ? transparencyView.getUint16(c * 2)
+      : -1;
+
+  const setPixel = (row: Uint8Array, x: number, target: number) => {
+    if (colorType === colorTypeIndexed) {
+      const index = sample(row, x, 0);
+      if (!palette || index * 3 + 2 >= palette.length) {
+        throw new DecoderError(`PNG palette index ${index} out of range.`);
+      }
+
+      pixels.set(palette.subarray(index * 3, index * 3 + 3), target);
+      pixels[target + 3] =
+        transparency && index < transparency.length ? transparency[index] : 255;
+    } else if (
+      colorType === colorTypeGreyscale ||
+      colorType === colorTypeGreyscaleAlpha
+    ) {
+      const grey = sample(row, x, 0);
+      const level = to8Bit(grey);
+      pixels[target] = level;
+      pixels[target + 1] = level;
+      pixels[target + 2] = level;
+      pixels[target + 3] =
+        colorType === colorTypeGreyscaleAlpha
+          ? to8Bit(sample(row, x, 1))
+          : grey === transparentSample(0)
+          ? 0
+          : 255;
+    } else {
+      const r = sample(row, x, 0);
+      const g = sample(row, x, 1);
+      const b = sample(row, x, 2);
+      pixels[target] = to8Bit(r);
+      pixels[target + 1] = to8Bit(g);
+      pixels[target + 2] = to8Bit(b);
+      pixels[target + 3] =
+        colorType === colorTypeTruecolor
+          ? r === transparentSample(0) &&
+            g === transparentSample(1) &&
+            b === transparentSample(2)
+            ? 0
+            : 255
+          : to8Bit(sample(row, x, 3));
+    }
+  };
+
+  let rawOffset = 0;
+  for (const [startX, startY, stepX, stepY] of interlaced
+    ? adam7Passes
+    : [[0, 0, 1, 1]]) {
+    const passWidth = Math.ceil((width - startX) / stepX);
+    const passHeight = Math.ceil((height - startY) / stepY);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    let previous = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < passHeight; ++y) {
+      if (rawOffset + 1 + rowBytes > raw.length) {
+        throw new DecoderError("PNG image data is truncated.");
+      }
+
+      const filter = raw[rawOffset];
+      const row = raw.slice(rawOffset + 1, rawOffset + 1 + rowBytes);
+      unfilterRow(row, previous, filter, bytesPerPixel);
+      rawOffset += 1 + rowBytes;
+
+      for (let x = 0; x < passWidth; ++x) {
+        setPixel(
+          row,
+          x,
+          ((startY + y * stepY) * width + startX + x * stepX) * 4
+        );
+      }
+
+      previous = row;
+    }
+  }
+
+  return { width, height, data: pixels };
+}
@@ -0,0 +1,16 @@
+import { decodeBMP } from "./bmpDecoder";
+import { DecoderError } from "./decoderTypes";
+import { decodePNG } from "./pngDecoder";
+
+/** Decode a PNG or BMP source image, detected from its content */
+export function decodeSourceImage(data: Uint8Array): ImageData {
+  if (data[0] === 0x89 && data[1] === 0x50) {
+    return decodePNG(data);
+  }
+
+  if (data[0] === 0x42 && data[1] === 0x4d) {
+    return decodeBMP(data);
+  }
+
+  throw new DecoderError("Source image is not a PNG or BMP.");
+}
@@ -0,0 +1,82 @@
+import * as React from "react";
+
+import { AmbiguityOptions } from "./PixelExtractor/confidence";
+
+interface ConfidenceControlsProps {
+  enabled: boolean;
+  onToggleEnabled: () => void;
+
+  options: AmbiguityOptions;
+  onChangeOptions: (options: AmbiguityOptions) => void;
+
+  ambiguousCount: number;
+
+  // Position of the selected cell among the ambiguous cells, or -1
+  selected: number;
+  onStep: (direction: -1 | 1) => void;
+}
+
+export function ConfidenceControls({
+  enabled,
+  onToggleEnabled,
+  options,
+  onChangeOptions,
+  ambiguousCount,
+  selected,
+  onStep
+}: ConfidenceControlsProps) {
+  const onChangeOption = (key: keyof AmbiguityOptions) => (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const value = event.target.valueAsNumber;
+    if (!isNaN(value)) {
+      onChangeOptions({ ...options, [key]: Math.min(255, Math.max(value, 0)) });
+    }
+  };
+
+  return (
+    <div className="ScaleBar">
+      <label className="ScaleInfo">
+        <input type="checkbox" checked={enabled} onChange={onToggleEnabled} />
+        Highlight ambiguous cells
+      </label>
+      {enabled && (
+        <>
+          <div className="ScaleInfo">
+            <div>Threshold margin:&nbsp;</div>
+            <input
+              type="number"
+              min={0}
+              max={255}
+              step={1}
+              value={options.thresholdMargin}
+              onChange={onChangeOption("thresholdMargin")}
+            />
+          </div>
+          <div className="ScaleInfo">
+            <div>Max deviation:&nbsp;</div>
+            <input
+              type="number"
+              min={0}
+              max={255}
+              step={1}
+              value={options.maxDeviation}
+              onChange={onChangeOption("maxDeviation")}
+            />
+          </div>
+          <button onClick={() => onStep(-1)} disabled={ambiguousCount === 0}>
+            Previous
+          </button>
+          <button onClick={() => onStep(1)} disabled={ambiguousCount === 0}>
+            Next ambiguous cell
+          </button>
+          <div className="StatusText">
+            {selected >= 0
+              ? `${selected + 1} of ${ambiguousCount} ambiguous cells`
+              : `${ambiguousCount} ambiguous cells`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
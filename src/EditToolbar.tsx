@@ -0,0 +1,74 @@
+import * as React from "react";
+
+import { PaletteEntry } from "./PixelExtractor/extractorTypes";
+
+export type PaintTool =
+  | { kind: "on" }
+  | { kind: "off" }
+  | { kind: "palette"; paletteIndex: number }
+  | { kind: "erase" };
+
+interface EditToolbarProps {
+  tool: PaintTool;
+  onChangeTool: (tool: PaintTool) => void;
+  palette: PaletteEntry[];
+
+  editCount: number;
+  // Edits made against a different grid geometry
+  staleEditCount: number;
+  onClearEdits: () => void;
+}
+
+// Tools are identified by a string in the select, palette tools by index
+function toolValue(tool: PaintTool) {
+  return tool.kind === "palette" ? `palette:${tool.paletteIndex}` : tool.kind;
+}
+
+function parseToolValue(value: string): PaintTool {
+  if (value.indexOf("palette:") === 0) {
+    return {
+      kind: "palette",
+      paletteIndex: parseInt(value.substr("palette:".length), 10)
+    };
+  }
+
+  return { kind: value as "on" | "off" | "erase" };
+}
+
+export function EditToolbar({
+  tool,
+  onChangeTool,
+  palette,
+  editCount,
+  staleEditCount,
+  onClearEdits
+}: EditToolbarProps) {
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Paint:&nbsp;</div>
+        <select
+          value={toolValue(tool)}
+          onChange={(event) => onChangeTool(parseToolValue(event.target.value))}
+        >
+          <option value="on">On</option>
+          <option value="off">Off</option>
+          {palette.map((entry, index) => (
+            <option key={index} value={`palette:${index}`}>
+              {entry.name}
+            </option>
+          ))}
+          <option value="erase">Clear edit</option>
+        </select>
+      </div>
+      <button onClick={onClearEdits} disabled={editCount === 0}>
+        Clear all edits
+      </button>
+      <div className="StatusText">
+        {editCount > 0 && `${editCount} edited cells`}
+        {staleEditCount > 0 &&
+          `, ${staleEditCount} made on a different grid (marked red)`}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { monochromePalette } from "./indexedImage";
+
+export interface AsciiArtOptions {
+  onChar: string;
+  offChar: string;
+}
+
+export const defaultAsciiArtOptions: AsciiArtOptions = {
+  onChar: "#",
+  offChar: "."
+};
+
+function checkOptions({ onChar, offChar }: AsciiArtOptions) {
+  if (onChar.length !== 1 || offChar.length !== 1 || onChar === offChar) {
+    throw new EncoderError(
+      "On and off characters must be two different single characters."
+    );
+  }
+}
+
+/** One line per row. A pixel with a non-zero palette index is on. */
+export function encodeAsciiArt(
+  { width, height, indices }: IndexedImage,
+  options: AsciiArtOptions
+): string {
+  checkOptions(options);
+
+  const rows: string[] = [];
+  for (let y = 0; y < height; ++y) {
+    let row = "";
+    for (let x = 0; x < width; ++x) {
+      row += indices[y * width + x] ? options.onChar : options.offChar;
+    }
+    rows.push(row);
+  }
+
+  return rows.join("\n") + "\n";
+}
+
+export function decodeAsciiArt(
+  text: string,
+  options: AsciiArtOptions
+): IndexedImage {
+  checkOptions(options);
+
+  const rows = text.split(/\r?\n/);
+  while (rows.length > 0 && rows[rows.length - 1].length === 0) {
+    rows.pop();
+  }
+
+  const height = rows.length;
+  const width = height > 0 ? rows[0].length : 0;
+  const indices = new Uint8Array(width * height);
+
+  rows.forEach((row, y) => {
+    if (row.length !== width) {
+      throw new EncoderError(
+        `Row ${y + 1} has ${row.length} characters, expected ${width}.`
+      );
+    }
+
+    for (let x = 0; x < width; ++x) {
+      const char = row.charAt(x);
+      if (char !== options.onChar && char !== options.offChar) {
+        throw new EncoderError(
+          `Unexpected character "${char}" at row ${y + 1}, column ${x + 1}.`
+        );
+      }
+
+      indices[y * width + x] = char === options.onChar ? 1 : 0;
+    }
+  });
+
+  return { width, height, indices, palette: monochromePalette };
+}
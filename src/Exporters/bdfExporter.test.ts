@@ -0,0 +1,113 @@
+import { Tile } from "../Tiles/tiles";
+import { exportBDF } from "./bdfExporter";
+import { EncoderError } from "./exportTypes";
+
+// A tile drawn as rows of "#" for on cells and "." for off cells
+function tile(rows: string[]): Tile {
+  const width = rows[0].length;
+  const indices = new Uint8Array(width * rows.length);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; ++x) {
+      indices[y * width + x] = row[x] === "#" ? 1 : 0;
+    }
+  });
+
+  return {
+    column: 0,
+    row: 0,
+    origin: [0, 0],
+    image: {
+      width,
+      height: rows.length,
+      indices,
+      palette: [
+        [0, 0, 0],
+        [255, 255, 255]
+      ]
+    }
+  };
+}
+
+// 12 x 4 tiles, so that glyphs wider than a byte need padding
+const glyph = tile([
+  "............",
+  ".#........#.",
+  ".##########.",
+  "............"
+]);
+const blank = tile([
+  "............",
+  "............",
+  "............",
+  "............"
+]);
+
+describe("exportBDF", () => {
+  const lines = exportBDF([glyph, blank], {
+    fontName: "My-Font 2",
+    firstCharCode: 0x41,
+    descent: 1
+  }).split("\n");
+
+  // Lines from the start of the character with the given code
+  const char = (code: string) =>
+    lines.slice(lines.indexOf(`STARTCHAR U+${code}`));
+
+  it("writes the font header", () => {
+    expect(lines.slice(0, 10)).toEqual([
+      "STARTFONT 2.1",
+      "FONT -extractpixels-My_Font_2-Medium-R-Normal--4-40-75-75-C-120-ISO10646-1",
+      "SIZE 4 75 75",
+      "FONTBOUNDINGBOX 12 4 0 -1",
+      "STARTPROPERTIES 2",
+      "FONT_ASCENT 3",
+      "FONT_DESCENT 1",
+      "ENDPROPERTIES",
+      "CHARS 2",
+      "STARTCHAR U+0041"
+    ]);
+  });
+
+  it("gives the font name the 14 fields of an XLFD name", () => {
+    const fontName = lines[1].substr("FONT ".length);
+
+    expect(fontName.split("-")).toHaveLength(15);
+  });
+
+  it("trims glyphs and pads bitmap rows to whole bytes", () => {
+    expect(char("0041").slice(0, 9)).toEqual([
+      "STARTCHAR U+0041",
+      "ENCODING 65",
+      "SWIDTH 2880 0",
+      "DWIDTH 12 0",
+      "BBX 10 2 1 0",
+      "BITMAP",
+      "8040",
+      "FFC0",
+      "ENDCHAR"
+    ]);
+  });
+
+  it("writes blank tiles as empty glyphs with the full advance", () => {
+    expect(char("0042").slice(0, 7)).toEqual([
+      "STARTCHAR U+0042",
+      "ENCODING 66",
+      "SWIDTH 2880 0",
+      "DWIDTH 12 0",
+      "BBX 0 0 0 0",
+      "BITMAP",
+      "ENDCHAR"
+    ]);
+    expect(lines.slice(-2)).toEqual(["ENDFONT", ""]);
+  });
+
+  it("rejects character codes past the end of Unicode", () => {
+    expect(() =>
+      exportBDF([glyph, blank], {
+        fontName: "font",
+        firstCharCode: 0x10ffff,
+        descent: 0
+      })
+    ).toThrow(EncoderError);
+  });
+});
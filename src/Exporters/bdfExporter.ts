@@ -0,0 +1,108 @@
+import { Tile, trimBounds } from "../Tiles/tiles";
+import { EncoderError } from "./exportTypes";
+
+export interface BDFOptions {
+  fontName: string;
+
+  // Character code of the first tile. Tiles are numbered row by row.
+  firstCharCode: number;
+
+  // Rows of each tile below the baseline
+  descent: number;
+}
+
+export const defaultBDFOptions: BDFOptions = {
+  fontName: "extracted",
+  firstCharCode: 32,
+  descent: 0
+};
+
+// BDF resolution, in dots per inch
+const resolution = 75;
+
+// Highest Unicode code point
+export const maxCharCode = 0x10ffff;
+
+// XLFD font names are fields separated by hyphens, so the foundry and
+// family can't contain any
+const foundry = "extractpixels";
+
+function hexByte(value: number) {
+  const hex = value.toString(16).toUpperCase();
+  return hex.length < 2 ? "0" + hex : hex;
+}
+
+/**
+ * Export tiles as a BDF bitmap font. Tiles take consecutive character codes
+ * from firstCharCode, row by row. Each glyph is trimmed to the bounding box
+ * of its on cells, and advances by the full tile width.
+ */
+export function exportBDF(tiles: Tile[], options: BDFOptions): string {
+  if (tiles.length === 0) {
+    throw new EncoderError("There are no tiles to export as a font.");
+  }
+
+  const { fontName, firstCharCode, descent } = options;
+  if (firstCharCode + tiles.length - 1 > maxCharCode) {
+    throw new EncoderError(
+      `Character codes from ${firstCharCode} run past U+10FFFF.`
+    );
+  }
+
+  const name = fontName.replace(/[^A-Za-z0-9_]/g, "_") || "extracted";
+  const tileWidth = tiles[0].image.width;
+  const tileHeight = tiles[0].image.height;
+  const ascent = tileHeight - descent;
+  const pointSize = tileHeight;
+  const scalableWidth = Math.round(
+    (tileWidth * 1000 * 72) / (pointSize * resolution)
+  );
+
+  const lines = [
+    "STARTFONT 2.1",
+    `FONT -${foundry}-${name}-Medium-R-Normal--${tileHeight}-${
+      pointSize * 10
+    }-${resolution}-${resolution}-C-${tileWidth * 10}-ISO10646-1`,
+    `SIZE ${pointSize} ${resolution} ${resolution}`,
+    `FONTBOUNDINGBOX ${tileWidth} ${tileHeight} 0 ${-descent}`,
+    "STARTPROPERTIES 2",
+    `FONT_ASCENT ${ascent}`,
+    `FONT_DESCENT ${descent}`,
+    "ENDPROPERTIES",
+    `CHARS ${tiles.length}`
+  ];
+
+  tiles.forEach((tile, index) => {
+    const code = firstCharCode + index;
+    const [left, top, width, height] = trimBounds(tile.image);
+    const hexCode = code.toString(16).toUpperCase();
+
+    lines.push(
+      `STARTCHAR U+${"0000".substr(Math.min(4, hexCode.length))}${hexCode}`,
+      `ENCODING ${code}`,
+      `SWIDTH ${scalableWidth} 0`,
+      `DWIDTH ${tileWidth} 0`,
+      // Offset of the bottom of the box from the baseline
+      `BBX ${width} ${height} ${left} ${
+        height > 0 ? ascent - (top + height) : 0
+      }`,
+      "BITMAP"
+    );
+
+    for (let y = top; y < top + height; ++y) {
+      const bytes = new Array(Math.ceil(width / 8)).fill(0) as number[];
+      for (let x = 0; x < width; ++x) {
+        if (tile.image.indices[y * tile.image.width + left + x]) {
+          bytes[x >> 3] |= 0x80 >> (x & 7);
+        }
+      }
+      lines.push(bytes.map(hexByte).join(""));
+    }
+
+    lines.push("ENDCHAR");
+  });
+
+  lines.push("ENDFONT", "");
+
+  return lines.join("\n");
+}
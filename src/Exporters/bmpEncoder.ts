@@ -0,0 +1,66 @@
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { bitDepthFor, packRows } from "./indexedImage";
+
+const fileHeaderSize = 14;
+const infoHeaderSize = 40;
+
+/**
+ * Encode an indexed image as an uncompressed BMP. The bit depth is the
+ * smallest BMP depth (1, 4 or 8 bits per pixel) that fits the palette, so
+ * a monochrome image is written as a true 1-bpp bitmap.
+ */
+export function encodeBMP(image: IndexedImage): Uint8Array {
+  const { width, height, palette } = image;
+
+  if (palette.length === 0 || palette.length > 256) {
+    throw new EncoderError(
+      `BMP palette must have 1 to 256 colours, got ${palette.length}.`
+    );
+  }
+
+  // BMP has no 2-bpp format, so 3 and 4 colour palettes use 4-bpp
+  const minBitDepth = bitDepthFor(palette.length);
+  const bitDepth = minBitDepth === 2 ? 4 : minBitDepth;
+
+  const { rowBytes, rows } = packRows(image, bitDepth, 4);
+  const paletteSize = (1 << bitDepth) * 4;
+  const pixelOffset = fileHeaderSize + infoHeaderSize + paletteSize;
+  const fileSize = pixelOffset + rowBytes * height;
+
+  const buffer = new ArrayBuffer(fileSize);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // BITMAPFILEHEADER
+  bytes[0] = 0x42; // 'B'
+  bytes[1] = 0x4d; // 'M'
+  view.setUint32(2, fileSize, true);
+  view.setUint32(10, pixelOffset, true);
+
+  // BITMAPINFOHEADER
+  view.setUint32(14, infoHeaderSize, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true); // Positive height means bottom-up rows
+  view.setUint16(26, 1, true); // Planes
+  view.setUint16(28, bitDepth, true);
+  view.setUint32(30, 0, true); // BI_RGB, uncompressed
+  view.setUint32(34, rowBytes * height, true);
+  view.setInt32(38, 2835, true); // 72 DPI
+  view.setInt32(42, 2835, true);
+  view.setUint32(46, palette.length, true);
+  view.setUint32(50, 0, true);
+
+  // Colour table, stored as BGRA
+  palette.forEach(([r, g, b], i) => {
+    const offset = fileHeaderSize + infoHeaderSize + i * 4;
+    bytes[offset] = b;
+    bytes[offset + 1] = g;
+    bytes[offset + 2] = r;
+  });
+
+  rows.forEach((row, y) => {
+    bytes.set(row, pixelOffset + (height - 1 - y) * rowBytes);
+  });
+
+  return bytes;
+}
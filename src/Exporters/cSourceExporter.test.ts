@@ -0,0 +1,178 @@
+import { greyRamp } from "../PixelExtractor/greyscale";
+import {
+  defaultCExportOptions,
+  exportCSource,
+  packBitmap,
+  runLengthEncode
+} from "./cSourceExporter";
+import { EncoderError, IndexedImage } from "./exportTypes";
+
+// A black and white image drawn as rows of "#" for on and "." for off
+function bitmap(rows: string[]): IndexedImage {
+  const width = rows[0].length;
+  const indices = new Uint8Array(width * rows.length);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; ++x) {
+      indices[y * width + x] = row[x] === "#" ? 1 : 0;
+    }
+  });
+
+  return {
+    width,
+    height: rows.length,
+    indices,
+    palette: [
+      [0, 0, 0],
+      [255, 255, 255]
+    ]
+  };
+}
+
+// 10 pixels wide, so rows end part way through a byte, and 3 high, so the
+// page ends part way through too
+const image = bitmap(["#........#", ".#........", "##########"]);
+
+const packed = (...args: Parameters<typeof packBitmap>) =>
+  Array.from(packBitmap(...args));
+
+describe("packBitmap", () => {
+  it("packs rows MSB first, padded to bytes", () => {
+    expect(packed(image, "adafruitGFX", "msbFirst", true)).toEqual([
+      0x80,
+      0x40,
+      0x40,
+      0x00,
+      0xff,
+      0xc0
+    ]);
+  });
+
+  it("packs rows LSB first, padded to bytes", () => {
+    expect(packed(image, "xbm", "lsbFirst", true)).toEqual([
+      0x01,
+      0x02,
+      0x02,
+      0x00,
+      0xff,
+      0x03
+    ]);
+  });
+
+  it("runs rows on without padding", () => {
+    // 1000000001 0100000000 1111111111 and two bits of padding at the end
+    expect(packed(image, "adafruitGFX", "msbFirst", false)).toEqual([
+      0x80,
+      0x50,
+      0x0f,
+      0xfc
+    ]);
+  });
+
+  it("packs SSD1306 pages as columns of 8 pixels", () => {
+    expect(packed(image, "ssd1306", "lsbFirst", true)).toEqual([
+      0x05,
+      0x06,
+      0x04,
+      0x04,
+      0x04,
+      0x04,
+      0x04,
+      0x04,
+      0x04,
+      0x05
+    ]);
+    expect(packed(image, "ssd1306", "msbFirst", true)[0]).toBe(0xa0);
+  });
+
+  it("starts a new page every 8 rows", () => {
+    const tall = bitmap(["#.", "..", "..", "..", "..", "..", "..", "..", ".#"]);
+
+    expect(packed(tall, "ssd1306", "lsbFirst", true)).toEqual([
+      0x01,
+      0x00,
+      0x00,
+      0x01
+    ]);
+  });
+
+  it("keeps the grey level of greyscale ramps", () => {
+    const grey: IndexedImage = {
+      width: 5,
+      height: 1,
+      indices: new Uint8Array([0, 1, 2, 3, 3]),
+      palette: greyRamp(4)
+    };
+
+    expect(packed(grey, "adafruitGFX", "msbFirst", true)).toEqual([0x1b, 0xc0]);
+    expect(() => packBitmap(grey, "xbm", "lsbFirst", true)).toThrow(
+      EncoderError
+    );
+  });
+});
+
+describe("runLengthEncode", () => {
+  it("encodes runs as (count, value) pairs", () => {
+    expect(Array.from(runLengthEncode(new Uint8Array([1, 1, 1, 2])))).toEqual([
+      3,
+      1,
+      1,
+      2
+    ]);
+  });
+
+  it("splits runs longer than 255", () => {
+    expect(Array.from(runLengthEncode(new Uint8Array(300)))).toEqual([
+      255,
+      0,
+      45,
+      0
+    ]);
+  });
+});
+
+describe("exportCSource", () => {
+  it("declares Adafruit GFX data as a static array in flash", () => {
+    const source = exportCSource(image, {
+      ...defaultCExportOptions,
+      symbolName: "logo"
+    });
+
+    expect(source).toContain("#define LOGO_WIDTH 10\n#define LOGO_HEIGHT 3");
+    expect(source).toContain("static const uint8_t logo[] PROGMEM = {");
+    expect(source).toContain("0x80, 0x40, 0x40, 0x00, 0xff, 0xc0\n};");
+  });
+
+  it("only defines PROGMEM where the core doesn't", () => {
+    const source = exportCSource(image, defaultCExportOptions);
+
+    expect(source).toContain("#ifndef PROGMEM\n#define PROGMEM\n#endif");
+    expect(source).not.toContain("#else");
+  });
+
+  it("uses the XBM names for the XBM layout", () => {
+    const source = exportCSource(image, {
+      ...defaultCExportOptions,
+      layout: "xbm",
+      bitOrder: "lsbFirst",
+      symbolName: "logo",
+      progmem: false
+    });
+
+    expect(source).toContain("#define logo_width 10\n#define logo_height 3");
+    expect(source).toContain("static const unsigned char logo_bits[] = {");
+    expect(source).not.toContain("PROGMEM");
+  });
+
+  it("gives the decoded size of run-length encoded data", () => {
+    const source = exportCSource(image, {
+      ...defaultCExportOptions,
+      symbolName: "logo",
+      rle: true
+    });
+
+    expect(source).toContain("#define LOGO_DECODED_SIZE 6");
+    expect(source).toContain(
+      "0x01, 0x80, 0x02, 0x40, 0x01, 0x00, 0x01, 0xff, 0x01, 0xc0\n};"
+    );
+  });
+});
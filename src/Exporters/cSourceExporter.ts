@@ -0,0 +1,259 @@
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { bitDepthFor, isGreyRamp } from "./indexedImage";
+
+export type CLayout =
+  | "xbm" // X BitMap, rows LSB first
+  | "adafruitGFX" // Rows MSB first, as used by Adafruit GFX drawBitmap
+  | "ssd1306"; // Vertical bytes in 8 pixel pages, as used by SSD1306/SH1106
+
+export type BitOrder = "msbFirst" | "lsbFirst";
+
+export interface CExportOptions {
+  layout: CLayout;
+  symbolName: string;
+  bitOrder: BitOrder;
+
+  // Start every row on a byte boundary. Pages are always whole bytes.
+  padToByte: boolean;
+
+  // Place the data in flash on AVR
+  progmem: boolean;
+
+  // Emit the data as (count, value) run-length pairs
+  rle: boolean;
+}
+
+export function defaultBitOrder(layout: CLayout): BitOrder {
+  return layout === "adafruitGFX" ? "msbFirst" : "lsbFirst";
+}
+
+export const defaultCExportOptions: CExportOptions = {
+  layout: "adafruitGFX",
+  symbolName: "image",
+  bitOrder: defaultBitOrder("adafruitGFX"),
+  padToByte: true,
+  progmem: true,
+  rle: false
+};
+
+const bytesPerLine = 12;
+
+/** Make a valid C identifier out of a file or symbol name */
+export function toCIdentifier(name: string) {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, "_");
+
+  return /^[0-9]/.test(identifier) ? "_" + identifier : identifier;
+}
+
+/**
+ * Bits per pixel of the packed data. Greyscale ramps of 4 or 16 levels keep
+ * their 2 or 4 bits, with the grey level as the pixel value. Everything
+ * else is 1 bit per pixel.
+ */
+export function pixelBitDepth({ palette }: IndexedImage): 1 | 2 | 4 {
+  const bitDepth = bitDepthFor(palette.length);
+
+  return (bitDepth === 2 || bitDepth === 4) && isGreyRamp(palette, bitDepth)
+    ? bitDepth
+    : 1;
+}
+
+/**
+ * Pack the image into bytes for the given layout. In 1 bit images a pixel
+ * with a non-zero palette index sets its bit. Greyscale images (see
+ * pixelBitDepth) are only supported by the Adafruit GFX layout, as XBM and
+ * SSD1306 pages are 1 bit formats.
+ */
+export function packBitmap(
+  image: IndexedImage,
+  layout: CLayout,
+  bitOrder: BitOrder,
+  padToByte: boolean
+): Uint8Array {
+  const { width, height, indices } = image;
+  const bitMask = (bit: number) =>
+    bitOrder === "msbFirst" ? 0x80 >> bit : 1 << bit;
+  const bitDepth = pixelBitDepth(image);
+
+  if (bitDepth > 1 && layout !== "adafruitGFX") {
+    throw new EncoderError(
+      `${
+        layout === "xbm" ? "XBM" : "SSD1306 pages"
+      } can't store ${bitDepth} bit greyscale, use the Adafruit GFX layout.`
+    );
+  }
+
+  if (layout === "ssd1306") {
+    const pages = Math.ceil(height / 8);
+    const bytes = new Uint8Array(pages * width);
+
+    for (let page = 0; page < pages; ++page) {
+      for (let x = 0; x < width; ++x) {
+        for (let bit = 0; bit < 8; ++bit) {
+          const y = page * 8 + bit;
+          if (y < height && indices[y * width + x]) {
+            bytes[page * width + x] |= bitMask(bit);
+          }
+        }
+      }
+    }
+
+    return bytes;
+  }
+
+  const rowBits = padToByte
+    ? Math.ceil((width * bitDepth) / 8) * 8
+    : width * bitDepth;
+  const bytes = new Uint8Array(Math.ceil((rowBits * height) / 8));
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const index = indices[y * width + x];
+      if (index) {
+        const bitIndex = y * rowBits + x * bitDepth;
+        const value = bitDepth === 1 ? 1 : index;
+        const bit = bitIndex & 7;
+
+        // The first pixel of a byte is in its high bits when MSB first
+        bytes[bitIndex >> 3] |=
+          bitOrder === "msbFirst"
+            ? value << (8 - bitDepth - bit)
+            : value << bit;
+      }
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Run-length encode bytes as (count, value) pairs, with counts from 1 to
+ * 255.
+ */
+export function runLengthEncode(bytes: Uint8Array): Uint8Array {
+  const encoded: number[] = [];
+
+  for (let i = 0; i < bytes.length; ) {
+    let count = 1;
+    while (
+      count < 255 &&
+      i + count < bytes.length &&
+      bytes[i + count] === bytes[i]
+    ) {
+      ++count;
+    }
+
+    encoded.push(count, bytes[i]);
+    i += count;
+  }
+
+  return new Uint8Array(encoded);
+}
+
+function formatBytes(bytes: Uint8Array): string {
+  const lines: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += bytesPerLine) {
+    const line: string[] = [];
+    for (let j = i; j < Math.min(bytes.length, i + bytesPerLine); ++j) {
+      const hex = bytes[j].toString(16);
+      line.push("0x" + (hex.length < 2 ? "0" + hex : hex));
+    }
+    lines.push("  " + line.join(", "));
+  }
+
+  return lines.join(",\n");
+}
+
+function layoutDescription(
+  { layout, bitOrder, padToByte }: CExportOptions,
+  bitDepth: number
+) {
+  const order = bitOrder === "msbFirst" ? "MSB first" : "LSB first";
+
+  if (layout === "ssd1306") {
+    return `vertical bytes in 8 pixel pages, top pixel ${
+      bitOrder === "msbFirst" ? "in MSB" : "in LSB"
+    }`;
+  }
+
+  return `row-major, ${
+    bitDepth > 1 ? `${bitDepth} bit greyscale (0 is black), ` : ""
+  }${order}, ${padToByte ? "rows padded to bytes" : "rows not padded"}`;
+}
+
+/** Generate a C header declaring the image as a byte array */
+export function exportCSource(
+  image: IndexedImage,
+  options: CExportOptions
+): string {
+  const name = toCIdentifier(options.symbolName);
+  if (name.length === 0) {
+    throw new EncoderError("Symbol name must not be empty.");
+  }
+
+  const upperName = name.toUpperCase();
+  const { layout, progmem, rle } = options;
+
+  const raw = packBitmap(image, layout, options.bitOrder, options.padToByte);
+  const data = rle ? runLengthEncode(raw) : raw;
+
+  const lines: string[] = [
+    `// ${image.width} x ${image.height} pixels, ${layoutDescription(
+      options,
+      pixelBitDepth(image)
+    )}`
+  ];
+
+  if (rle) {
+    lines.push(
+      `// Run-length encoded as (count, value) byte pairs, ` +
+        `${raw.length} bytes decoded`
+    );
+  }
+
+  lines.push("", `#ifndef ${upperName}_H`, `#define ${upperName}_H`, "");
+
+  if (progmem) {
+    lines.push(
+      "#ifdef __AVR__",
+      "#include <avr/pgmspace.h>",
+      "#endif",
+      "",
+      "// Cores that keep constants in flash anyway may not define it",
+      "#ifndef PROGMEM",
+      "#define PROGMEM",
+      "#endif",
+      ""
+    );
+  }
+
+  const storage = progmem ? " PROGMEM" : "";
+
+  if (layout === "xbm") {
+    // XBM is itself C source, with names fixed by the format
+    lines.push(
+      `#define ${name}_width ${image.width}`,
+      `#define ${name}_height ${image.height}`
+    );
+    if (rle) {
+      lines.push(`#define ${name}_decoded_size ${raw.length}`);
+    }
+    lines.push("", `static const unsigned char ${name}_bits[]${storage} = {`);
+  } else {
+    lines.push(
+      "#include <stdint.h>",
+      "",
+      `#define ${upperName}_WIDTH ${image.width}`,
+      `#define ${upperName}_HEIGHT ${image.height}`
+    );
+    if (rle) {
+      lines.push(`#define ${upperName}_DECODED_SIZE ${raw.length}`);
+    }
+    lines.push("", `static const uint8_t ${name}[]${storage} = {`);
+  }
+
+  lines.push(formatBytes(data), "};", "", `#endif // ${upperName}_H`, "");
+
+  return lines.join("\n");
+}
@@ -0,0 +1,34 @@
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable() {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+
+    for (let n = 0; n < 256; ++n) {
+      let c = n;
+      for (let k = 0; k < 8; ++k) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  return crcTable;
+}
+
+/** CRC-32 as used by PNG and ZIP */
+export function crc32(
+  data: Uint8Array,
+  start = 0,
+  end = data.length,
+  crc = 0
+): number {
+  const table = getCrcTable();
+  crc = ~crc;
+
+  for (let i = start; i < end; ++i) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return ~crc >>> 0;
+}
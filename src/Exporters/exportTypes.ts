@@ -0,0 +1,19 @@
+import { RGB } from "../PixelExtractor/extractorTypes";
+
+// One pixel per cell, each pixel an index into the palette
+export interface IndexedImage {
+  width: number;
+  height: number;
+
+  // Palette index of each pixel, row major
+  indices: Uint8Array;
+
+  palette: RGB[];
+}
+
+export class EncoderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncoderError";
+  }
+}
@@ -0,0 +1,123 @@
+import { decodeBMP } from "../Cli/bmpDecoder";
+import { decodePNG } from "../Cli/pngDecoder";
+import { greyRamp } from "../PixelExtractor/greyscale";
+import { RGB } from "../PixelExtractor/extractorTypes";
+import { encodeBMP } from "./bmpEncoder";
+import { IndexedImage } from "./exportTypes";
+import { encodePNG } from "./pngEncoder";
+
+// Odd width, so that rows need padding at every bit depth, and enough
+// cells to use every entry of a 256 colour palette
+const width = 19;
+const height = 15;
+
+function indexedImage(palette: RGB[]): IndexedImage {
+  const indices = new Uint8Array(width * height);
+  for (let i = 0; i < indices.length; ++i) {
+    indices[i] = (i * 7) % palette.length;
+  }
+
+  return { width, height, indices, palette };
+}
+
+// A palette of distinct colours that isn't a grey ramp
+function colorPalette(size: number): RGB[] {
+  const palette: RGB[] = [];
+  for (let i = 0; i < size; ++i) {
+    palette.push([i, 255 - i, (i * 37) & 255]);
+  }
+  return palette;
+}
+
+/**
+ * Check that the decoded image has the size of the indexed image, and that
+ * every pixel is the palette colour of its index. Palette colours are
+ * distinct, so the indices can be read back from the colours.
+ */
+function expectDecoded(decoded: ImageData, image: IndexedImage) {
+  expect([decoded.width, decoded.height]).toEqual([width, height]);
+
+  const colorKey = (color: ArrayLike<number>) =>
+    `${color[0]},${color[1]},${color[2]}`;
+  const paletteIndex: { [color: string]: number } = {};
+  image.palette.forEach((color, i) => (paletteIndex[colorKey(color)] = i));
+
+  // Colours that aren't in the palette are left undefined
+  const indices: number[] = [];
+  for (let i = 0; i < width * height; ++i) {
+    const pixel = decoded.data.subarray(i * 4, i * 4 + 4);
+    expect(pixel[3]).toBe(255);
+    indices.push(paletteIndex[colorKey(pixel)]);
+  }
+
+  expect(indices).toEqual(Array.from(image.indices));
+}
+
+const bitDepths: [number, number][] = [
+  [1, 2],
+  [2, 4],
+  [4, 16],
+  [8, 256]
+];
+
+describe("encodeBMP", () => {
+  bitDepths.forEach(([bitDepth, size]) => {
+    it(`round trips a ${size} colour palette image (${bitDepth} bit)`, () => {
+      const image = indexedImage(colorPalette(size));
+      const encoded = encodeBMP(image);
+
+      // BMP has no 2 bit depth
+      expect(encoded[28]).toBe(bitDepth === 2 ? 4 : bitDepth);
+      expectDecoded(decodeBMP(encoded), image);
+    });
+  });
+
+  it("writes the palette as the colour table", () => {
+    const image = indexedImage(colorPalette(3));
+    const encoded = encodeBMP(image);
+
+    // Colours used and the BGRA table after the 54 bytes of headers
+    expect(encoded[46]).toBe(3);
+    expect(Array.from(encoded.subarray(54, 66))).toEqual([
+      0,
+      255,
+      0,
+      0,
+      37,
+      254,
+      1,
+      0,
+      74,
+      253,
+      2,
+      0
+    ]);
+  });
+});
+
+describe("encodePNG", () => {
+  bitDepths.forEach(([bitDepth, size]) => {
+    it(`round trips a ${size} colour palette image (${bitDepth} bit)`, () => {
+      const image = indexedImage(colorPalette(size));
+      const encoded = encodePNG(image);
+
+      // IHDR bit depth and indexed colour type
+      expect([encoded[24], encoded[25]]).toEqual([bitDepth, 3]);
+      expectDecoded(decodePNG(encoded), image);
+    });
+
+    it(`round trips a ${size} level grey ramp image as greyscale`, () => {
+      const image = indexedImage(greyRamp(size));
+      const encoded = encodePNG(image);
+
+      expect([encoded[24], encoded[25]]).toEqual([bitDepth, 0]);
+      expectDecoded(decodePNG(encoded), image);
+    });
+  });
+
+  it("round trips palettes that don't fill their bit depth", () => {
+    const image = indexedImage(colorPalette(3));
+
+    expectDecoded(decodePNG(encodePNG(image)), image);
+  });
+});
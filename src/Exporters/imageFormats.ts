@@ -0,0 +1,103 @@
+import { ExtractionSettings } from "../PixelExtractor/extractorTypes";
+import { AsciiArtOptions, decodeAsciiArt, encodeAsciiArt } from "./asciiArt";
+import { encodeBMP } from "./bmpEncoder";
+import { IndexedImage } from "./exportTypes";
+import { decodeJSON, encodeJSON } from "./jsonExport";
+import { decodeNetpbm, encodePBM, encodePGM } from "./netpbm";
+import { encodePNG } from "./pngEncoder";
+
+export type ExportFormat =
+  | "bmp"
+  | "png"
+  | "pbm"
+  | "pbmPlain"
+  | "pgm"
+  | "pgmPlain"
+  | "ascii"
+  | "json";
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const exportFormats: Record<ExportFormat, ExportFormatInfo> = {
+  bmp: { label: "BMP", extension: "bmp", mimeType: "image/bmp" },
+  png: { label: "PNG", extension: "png", mimeType: "image/png" },
+  pbm: {
+    label: "PBM (P4)",
+    extension: "pbm",
+    mimeType: "image/x-portable-bitmap"
+  },
+  pbmPlain: {
+    label: "PBM (P1)",
+    extension: "pbm",
+    mimeType: "image/x-portable-bitmap"
+  },
+  pgm: {
+    label: "PGM (P5)",
+    extension: "pgm",
+    mimeType: "image/x-portable-graymap"
+  },
+  pgmPlain: {
+    label: "PGM (P2)",
+    extension: "pgm",
+    mimeType: "image/x-portable-graymap"
+  },
+  ascii: { label: "ASCII art", extension: "txt", mimeType: "text/plain" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" }
+};
+
+export interface ExportContext {
+  asciiArt: AsciiArtOptions;
+
+  // Stored in JSON exports so that the extraction can be reproduced
+  settings?: ExtractionSettings;
+}
+
+export function encodeImage(
+  format: ExportFormat,
+  image: IndexedImage,
+  { asciiArt, settings }: ExportContext
+): Uint8Array | string {
+  switch (format) {
+    case "bmp":
+      return encodeBMP(image);
+    case "png":
+      return encodePNG(image);
+    case "pbm":
+    case "pbmPlain":
+      return encodePBM(image, format === "pbm");
+    case "pgm":
+    case "pgmPlain":
+      return encodePGM(image, format === "pgm");
+    case "ascii":
+      return encodeAsciiArt(image, asciiArt);
+    case "json":
+      return encodeJSON(image, settings);
+  }
+}
+
+/**
+ * Decode a file written by one of the text friendly exports. The format is
+ * detected from the content: netpbm magic numbers, a JSON object, otherwise
+ * ASCII art.
+ */
+export function decodeImage(
+  data: Uint8Array,
+  asciiArt: AsciiArtOptions
+): { image: IndexedImage; settings?: ExtractionSettings } {
+  const text = new TextDecoder().decode(data.subarray(0, 2));
+
+  if (/^P[1245]$/.test(text)) {
+    return { image: decodeNetpbm(data) };
+  }
+
+  const content = new TextDecoder().decode(data);
+  if (content.trim().charAt(0) === "{") {
+    return decodeJSON(content);
+  }
+
+  return { image: decodeAsciiArt(content, asciiArt) };
+}
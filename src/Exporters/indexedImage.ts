@@ -0,0 +1,111 @@
+import {
+  ExtractedPixels,
+  OutputMode,
+  PaletteEntry,
+  RGB
+} from "../PixelExtractor/extractorTypes";
+import {
+  defaultGreyscaleOptions,
+  greyRamp,
+  GreyscaleOptions,
+  quantizeGreyscale
+} from "../PixelExtractor/greyscale";
+import { quantizeToPalette } from "../PixelExtractor/palette";
+import { IndexedImage } from "./exportTypes";
+
+export const monochromePalette: RGB[] = [
+  [0, 0, 0],
+  [255, 255, 255]
+];
+
+/** The extracted cells as they are shown in the extracted image panel */
+export function toIndexedImage(
+  extracted: ExtractedPixels,
+  outputMode: OutputMode,
+  palette: PaletteEntry[],
+  greyscale: GreyscaleOptions = defaultGreyscaleOptions
+): IndexedImage {
+  const { width, height } = extracted;
+
+  if (outputMode === "greyscale") {
+    return {
+      width,
+      height,
+      indices: quantizeGreyscale(extracted.colors, width, height, greyscale),
+      palette: greyRamp(greyscale.levels)
+    };
+  }
+
+  if (outputMode === "palette" && palette.length > 0) {
+    return {
+      width,
+      height,
+      indices: quantizeToPalette(extracted.colors, palette),
+      palette: palette.map((entry) => entry.color)
+    };
+  }
+
+  return {
+    width,
+    height,
+    indices: extracted.bits.slice(),
+    palette: monochromePalette
+  };
+}
+
+/** Smallest bit depth out of 1, 2, 4 and 8 that can index the palette */
+export function bitDepthFor(paletteSize: number): 1 | 2 | 4 | 8 {
+  if (paletteSize <= 2) {
+    return 1;
+  } else if (paletteSize <= 4) {
+    return 2;
+  } else if (paletteSize <= 16) {
+    return 4;
+  }
+
+  return 8;
+}
+
+/**
+ * True if the palette is an evenly spaced grey ramp from black to white at
+ * the given bit depth, so that indices are also grey levels.
+ */
+export function isGreyRamp(palette: RGB[], bitDepth: number) {
+  const maxLevel = (1 << bitDepth) - 1;
+
+  return (
+    palette.length === maxLevel + 1 &&
+    palette.every(
+      ([r, g, b], i) =>
+        r === g && g === b && r === Math.round((i * 255) / maxLevel)
+    )
+  );
+}
+
+/**
+ * Pack rows of indices MSB first, each row padded to a multiple of
+ * rowAlignment bytes.
+ */
+export function packRows(
+  { width, height, indices }: IndexedImage,
+  bitDepth: number,
+  rowAlignment: number
+): { rowBytes: number; rows: Uint8Array[] } {
+  const rowBytes =
+    Math.ceil(Math.ceil((width * bitDepth) / 8) / rowAlignment) * rowAlignment;
+  const pixelsPerByte = 8 / bitDepth;
+  const rows: Uint8Array[] = [];
+
+  for (let y = 0; y < height; ++y) {
+    const row = new Uint8Array(rowBytes);
+
+    for (let x = 0; x < width; ++x) {
+      const shift = 8 - bitDepth * ((x % pixelsPerByte) + 1);
+      row[Math.floor(x / pixelsPerByte)] |= indices[y * width + x] << shift;
+    }
+
+    rows.push(row);
+  }
+
+  return { rowBytes, rows };
+}
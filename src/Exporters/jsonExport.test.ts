@@ -0,0 +1,72 @@
+import { defaultRegionSettings } from "../Regions/regions";
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { decodeJSON, encodeJSON } from "./jsonExport";
+
+const image: IndexedImage = {
+  width: 3,
+  height: 2,
+  indices: new Uint8Array([0, 1, 2, 2, 1, 0]),
+  palette: [
+    [0, 0, 0],
+    [128, 64, 32],
+    [255, 255, 255]
+  ]
+};
+
+const document = JSON.parse(encodeJSON(image, defaultRegionSettings));
+const withFields = (fields: object) =>
+  JSON.stringify({ ...document, ...fields });
+
+describe("decodeJSON", () => {
+  it("reads back an encoded image and its settings", () => {
+    expect(decodeJSON(encodeJSON(image, defaultRegionSettings))).toEqual({
+      image,
+      settings: defaultRegionSettings
+    });
+  });
+
+  it("reads documents without settings", () => {
+    expect(decodeJSON(encodeJSON(image)).settings).toBeUndefined();
+  });
+
+  // Description and document contents
+  const invalid: [string, string][] = [
+    ["not JSON", "["],
+    ["another format", withFields({ format: "other" })],
+    ["a newer version", withFields({ version: 2 })],
+    ["a negative width", withFields({ width: -3 })],
+    ["a fractional height", withFields({ height: 1.5 })],
+    ["a width that isn't a number", withFields({ width: "3" })],
+    [
+      "a palette of more than 256 colours",
+      withFields({ palette: new Array(257).fill([0, 0, 0]) })
+    ],
+    ["a colour that isn't RGB", withFields({ palette: [[0, 0]] })],
+    ["a row of the wrong length", withFields({ cells: [[0, 1], [2]] })],
+    [
+      "a fractional palette index",
+      withFields({
+        cells: [
+          [0, 0.5, 0],
+          [0, 0, 0]
+        ]
+      })
+    ],
+    [
+      "a palette index past the palette",
+      withFields({
+        cells: [
+          [0, 3, 0],
+          [0, 0, 0]
+        ]
+      })
+    ],
+    ["settings without a grid", withFields({ settings: { sampling: "mean" } })]
+  ];
+
+  invalid.forEach(([description, text]) => {
+    it(`rejects ${description}`, () => {
+      expect(() => decodeJSON(text)).toThrow(EncoderError);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { ExtractionSettings, RGB } from "../PixelExtractor/extractorTypes";
+import { isFields, isSettings } from "../Project/project";
+import { EncoderError, IndexedImage } from "./exportTypes";
+
+const documentFormat = "extract-pixels-bitmap";
+const documentVersion = 1;
+
+export interface BitmapDocument {
+  format: typeof documentFormat;
+  version: number;
+  width: number;
+  height: number;
+  palette: RGB[];
+
+  // Palette index of each cell, one array per row
+  cells: number[][];
+
+  // Settings that produced the cells, if they were extracted
+  settings?: ExtractionSettings;
+}
+
+export function encodeJSON(
+  { width, height, indices, palette }: IndexedImage,
+  settings?: ExtractionSettings
+): string {
+  const cells: number[][] = [];
+  for (let y = 0; y < height; ++y) {
+    cells.push(Array.prototype.slice.call(indices, y * width, (y + 1) * width));
+  }
+
+  const document: BitmapDocument = {
+    format: documentFormat,
+    version: documentVersion,
+    width,
+    height,
+    palette,
+    cells,
+    settings
+  };
+
+  return JSON.stringify(document, null, 2) + "\n";
+}
+
+// Palette indices are stored in bytes
+const maxPaletteSize = 256;
+
+function isColor(value: unknown): value is RGB {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((channel) => typeof channel === "number")
+  );
+}
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+export function decodeJSON(
+  text: string
+): {
+  image: IndexedImage;
+  settings?: ExtractionSettings;
+} {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new EncoderError("File is not valid JSON.");
+  }
+
+  if (!isFields(document) || document.format !== documentFormat) {
+    throw new EncoderError("File is not an extract-pixels bitmap document.");
+  }
+
+  const { version, width, height, palette, cells, settings } = document;
+
+  if (!isCount(version) || version < 1) {
+    throw new EncoderError("Bitmap document has an invalid version.");
+  }
+
+  if (version > documentVersion) {
+    throw new EncoderError(
+      `Bitmap document version ${version} is newer than supported.`
+    );
+  }
+
+  if (!isCount(width) || !isCount(height)) {
+    throw new EncoderError("Bitmap document has an invalid size.");
+  }
+
+  if (
+    !Array.isArray(palette) ||
+    !palette.every(isColor) ||
+    palette.length > maxPaletteSize
+  ) {
+    throw new EncoderError("Bitmap document has an invalid palette.");
+  }
+
+  if (!Array.isArray(cells) || cells.length !== height) {
+    throw new EncoderError(`Bitmap document should have ${height} rows.`);
+  }
+
+  if (settings !== undefined && !isSettings(settings)) {
+    throw new EncoderError("Bitmap document has invalid settings.");
+  }
+
+  const indices = new Uint8Array(width * height);
+  cells.forEach((row: unknown, y) => {
+    if (!Array.isArray(row) || row.length !== width) {
+      throw new EncoderError(
+        `Row ${y + 1} of bitmap document should have ${width} cells.`
+      );
+    }
+
+    row.forEach((index: unknown, x) => {
+      if (!isCount(index) || index >= palette.length) {
+        throw new EncoderError(
+          `Invalid palette index ${index} at row ${y + 1}, column ${x + 1}.`
+        );
+      }
+      indices[y * width + x] = index;
+    });
+  });
+
+  return {
+    image: { width, height, indices, palette },
+    settings
+  };
+}
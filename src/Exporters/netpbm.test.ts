@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { EncoderError } from "./exportTypes";
+import { decodeNetpbm, encodePBM } from "./netpbm";
+
+const decode = (text: string) => decodeNetpbm(new TextEncoder().encode(text));
+
+// PBM 1 is black, index 0, so rows of bits read back inverted
+const bits = (indices: Uint8Array) => Array.from(indices, (index) => 1 - index);
+
+describe("decodeNetpbm", () => {
+  it("skips comments between plain PBM pixels", () => {
+    const image = decode("P1\n# size\n4 2\n1001\n# c\n0110\n");
+
+    expect([image.width, image.height]).toEqual([4, 2]);
+    expect(bits(image.indices)).toEqual([1, 0, 0, 1, 0, 1, 1, 0]);
+  });
+
+  it("reads the last plain PBM pixel after a comment", () => {
+    const image = decode("P1 2 2\n1 0\n0 # last\n1");
+
+    expect(bits(image.indices)).toEqual([1, 0, 0, 1]);
+  });
+
+  it("reports plain PBM files that end early", () => {
+    expect(() => decode("P1 2 2\n1 0\n# no more pixels\n")).toThrow(
+      EncoderError
+    );
+  });
+
+  it("reads back plain and binary PBM files", () => {
+    const image = decode("P1 3 2\n101\n011\n");
+
+    [false, true].forEach((binary) => {
+      const decoded = decodeNetpbm(encodePBM(image, binary));
+      expect(bits(decoded.indices)).toEqual(bits(image.indices));
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { RGB } from "../PixelExtractor/extractorTypes";
+import { luminance } from "../PixelExtractor/threshold";
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { bitDepthFor, isGreyRamp, monochromePalette } from "./indexedImage";
+
+function greyLevels(palette: RGB[]) {
+  return palette.map(([r, g, b]) => Math.round(luminance(r, g, b)));
+}
+
+function withHeader(header: string, body: Uint8Array): Uint8Array {
+  const headerBytes = new TextEncoder().encode(header);
+  const result = new Uint8Array(headerBytes.length + body.length);
+  result.set(headerBytes, 0);
+  result.set(body, headerBytes.length);
+
+  return result;
+}
+
+// Lines of plain netpbm files shouldn't exceed 70 characters
+function wrapTokens(tokens: string[], separator: string, maxLength = 70) {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const token of tokens) {
+    if (
+      line.length > 0 &&
+      line.length + separator.length + token.length > maxLength
+    ) {
+      lines.push(line);
+      line = "";
+    }
+    line += (line.length > 0 ? separator : "") + token;
+  }
+
+  if (line.length > 0) {
+    lines.push(line);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Encode as PBM, P4 (binary) or P1 (plain). PBM uses 1 for black, so pixels
+ * with dark palette colours are written as 1.
+ */
+export function encodePBM(image: IndexedImage, binary: boolean): Uint8Array {
+  const { width, height, indices } = image;
+  const black = greyLevels(image.palette).map((level) => level < 128);
+  const header = `${binary ? "P4" : "P1"}\n${width} ${height}\n`;
+
+  if (binary) {
+    const rowBytes = Math.ceil(width / 8);
+    const body = new Uint8Array(rowBytes * height);
+
+    for (let y = 0; y < height; ++y) {
+      for (let x = 0; x < width; ++x) {
+        if (black[indices[y * width + x]]) {
+          body[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+
+    return withHeader(header, body);
+  }
+
+  const rows: string[] = [];
+  for (let y = 0; y < height; ++y) {
+    let row = "";
+    for (let x = 0; x < width; ++x) {
+      row += black[indices[y * width + x]] ? "1" : "0";
+    }
+    rows.push(wrapTokens(row.split(""), ""));
+  }
+
+  return new TextEncoder().encode(header + rows.join("\n") + "\n");
+}
+
+/**
+ * Encode as PGM, P5 (binary) or P2 (plain). Greyscale ramps of 4 or 16
+ * levels keep their bit depth, with a maximum value of 3 or 15 and the
+ * palette indices as values. Everything else has a maximum value of 255.
+ */
+export function encodePGM(image: IndexedImage, binary: boolean): Uint8Array {
+  const { width, height, indices, palette } = image;
+  const ramp =
+    palette.length > 2 && isGreyRamp(palette, bitDepthFor(palette.length));
+  const levels = ramp
+    ? palette.map((color, i) => i)
+    : greyLevels(image.palette);
+  const maxValue = ramp ? palette.length - 1 : 255;
+  const header = `${binary ? "P5" : "P2"}\n${width} ${height}\n${maxValue}\n`;
+
+  if (binary) {
+    const body = new Uint8Array(width * height);
+    for (let i = 0; i < body.length; ++i) {
+      body[i] = levels[indices[i]];
+    }
+
+    return withHeader(header, body);
+  }
+
+  const rows: string[] = [];
+  for (let y = 0; y < height; ++y) {
+    const row: string[] = [];
+    for (let x = 0; x < width; ++x) {
+      row.push(String(levels[indices[y * width + x]]));
+    }
+    rows.push(wrapTokens(row, " "));
+  }
+
+  return new TextEncoder().encode(header + rows.join("\n") + "\n");
+}
+
+/** Reads whitespace separated header tokens, skipping comments */
+class TokenReader {
+  public position = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  private isWhitespace(byte: number) {
+    return byte === 0x20 || (byte >= 0x09 && byte <= 0x0d);
+  }
+
+  // Comments run from # to the end of the line
+  private skipComment() {
+    while (
+      this.position < this.data.length &&
+      this.data[this.position] !== 0x0a
+    ) {
+      ++this.position;
+    }
+  }
+
+  public next(): string {
+    // Skip whitespace and comments
+    while (this.position < this.data.length) {
+      const byte = this.data[this.position];
+      if (byte === 0x23) {
+        this.skipComment();
+      } else if (this.isWhitespace(byte)) {
+        ++this.position;
+      } else {
+        break;
+      }
+    }
+
+    let token = "";
+    while (
+      this.position < this.data.length &&
+      !this.isWhitespace(this.data[this.position])
+    ) {
+      token += String.fromCharCode(this.data[this.position++]);
+    }
+
+    if (token.length === 0) {
+      throw new EncoderError("Unexpected end of netpbm file.");
+    }
+
+    return token;
+  }
+
+  public nextInt(): number {
+    const token = this.next();
+    const value = parseInt(token, 10);
+    if (isNaN(value) || value < 0) {
+      throw new EncoderError(`Expected a number in netpbm file, got ${token}.`);
+    }
+
+    return value;
+  }
+
+  // Plain PBM allows pixels without whitespace between them
+  public nextBit(): number {
+    while (
+      this.position < this.data.length &&
+      this.data[this.position] !== 0x30 &&
+      this.data[this.position] !== 0x31
+    ) {
+      if (this.data[this.position] === 0x23) {
+        this.skipComment();
+      } else {
+        ++this.position;
+      }
+    }
+
+    if (this.position >= this.data.length) {
+      throw new EncoderError("Unexpected end of netpbm file.");
+    }
+
+    return this.data[this.position++] - 0x30;
+  }
+}
+
+/**
+ * Decode a PBM (P1/P4) or PGM (P2/P5) file. PBM files decode to a black and
+ * white palette, PGM files to a palette of the grey levels they use.
+ */
+export function decodeNetpbm(data: Uint8Array): IndexedImage {
+  const reader = new TokenReader(data);
+  const magic = reader.next();
+
+  if (["P1", "P2", "P4", "P5"].indexOf(magic) < 0) {
+    throw new EncoderError(`Unsupported netpbm type ${magic}.`);
+  }
+
+  const width = reader.nextInt();
+  const height = reader.nextInt();
+  const maxValue = magic === "P1" || magic === "P4" ? 1 : reader.nextInt();
+
+  if (maxValue === 0 || maxValue > 255) {
+    throw new EncoderError(`Unsupported netpbm maximum value ${maxValue}.`);
+  }
+
+  // A single whitespace character separates the header from binary data
+  ++reader.position;
+
+  const samples = new Uint8Array(width * height);
+
+  if (magic === "P4") {
+    const rowBytes = Math.ceil(width / 8);
+    if (reader.position + rowBytes * height > data.length) {
+      throw new EncoderError("Unexpected end of netpbm file.");
+    }
+
+    for (let y = 0; y < height; ++y) {
+      for (let x = 0; x < width; ++x) {
+        const byte = data[reader.position + y * rowBytes + (x >> 3)];
+        samples[y * width + x] = (byte >> (7 - (x & 7))) & 1;
+      }
+    }
+  } else if (magic === "P5") {
+    if (reader.position + samples.length > data.length) {
+      throw new EncoderError("Unexpected end of netpbm file.");
+    }
+
+    samples.set(
+      data.subarray(reader.position, reader.position + samples.length)
+    );
+  } else {
+    // Step back so the plain readers see the separator as whitespace
+    --reader.position;
+
+    for (let i = 0; i < samples.length; ++i) {
+      samples[i] = magic === "P1" ? reader.nextBit() : reader.nextInt();
+    }
+  }
+
+  if (magic === "P1" || magic === "P4") {
+    // PBM 1 is black, which is index 0 of the monochrome palette
+    const indices = samples.map((bit) => 1 - bit);
+    return { width, height, indices, palette: monochromePalette };
+  }
+
+  // Palette of the grey levels that are used, darkest first
+  const used: boolean[] = [];
+  samples.forEach((sample) => (used[Math.min(sample, maxValue)] = true));
+
+  const palette: RGB[] = [];
+  const indexOfLevel: number[] = [];
+  for (let level = 0; level <= maxValue; ++level) {
+    if (used[level]) {
+      const grey = Math.round((level * 255) / maxValue);
+      indexOfLevel[level] = palette.length;
+      palette.push([grey, grey, grey]);
+    }
+  }
+
+  const indices = samples.map(
+    (sample) => indexOfLevel[Math.min(sample, maxValue)]
+  );
+
+  return { width, height, indices, palette };
+}
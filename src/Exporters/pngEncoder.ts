@@ -0,0 +1,128 @@
+import { crc32 } from "./crc32";
+import { EncoderError, IndexedImage } from "./exportTypes";
+import { bitDepthFor, isGreyRamp, packRows } from "./indexedImage";
+
+const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// PNG colour types
+const colorTypeGreyscale = 0;
+const colorTypeIndexed = 3;
+
+// Largest block of data a stored deflate block can hold
+const maxStoredBlockSize = 0xffff;
+
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+
+  for (let i = 0; i < data.length; ++i) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Wrap data in a zlib stream made of stored (uncompressed) deflate blocks.
+ * Bitmaps at one pixel per cell are small, so compression isn't worth the
+ * extra code.
+ */
+export function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / maxStoredBlockSize));
+  const result = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  const view = new DataView(result.buffer);
+
+  // CMF: deflate with 32K window, FLG: no dictionary, check bits
+  result[0] = 0x78;
+  result[1] = 0x01;
+
+  let offset = 2;
+  for (let block = 0; block < blockCount; ++block) {
+    const start = block * maxStoredBlockSize;
+    const length = Math.min(maxStoredBlockSize, data.length - start);
+
+    result[offset] = block === blockCount - 1 ? 1 : 0; // BFINAL, BTYPE = 00
+    view.setUint16(offset + 1, length, true);
+    view.setUint16(offset + 3, ~length & 0xffff, true);
+    result.set(data.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+
+  view.setUint32(offset, adler32(data));
+
+  return result;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const result = new Uint8Array(12 + data.length);
+  const view = new DataView(result.buffer);
+
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; ++i) {
+    result[4 + i] = type.charCodeAt(i);
+  }
+  result.set(data, 8);
+  view.setUint32(8 + data.length, crc32(result, 4, 8 + data.length));
+
+  return result;
+}
+
+/**
+ * Encode an indexed image as a PNG. Images whose palette is a grey ramp
+ * (such as black and white) are written as greyscale, everything else as
+ * an indexed colour PNG.
+ */
+export function encodePNG(image: IndexedImage): Uint8Array {
+  const { width, height, palette } = image;
+
+  if (palette.length === 0 || palette.length > 256) {
+    throw new EncoderError(
+      `PNG palette must have 1 to 256 colours, got ${palette.length}.`
+    );
+  }
+
+  const bitDepth = bitDepthFor(palette.length);
+  const greyscale = isGreyRamp(palette, bitDepth);
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = greyscale ? colorTypeGreyscale : colorTypeIndexed;
+  header[10] = 0; // Deflate compression
+  header[11] = 0; // Adaptive filtering
+  header[12] = 0; // No interlace
+
+  // Each row is preceded by its filter type, always 0 (none)
+  const { rowBytes, rows } = packRows(image, bitDepth, 1);
+  const raw = new Uint8Array((rowBytes + 1) * height);
+  rows.forEach((row, y) => raw.set(row, y * (rowBytes + 1) + 1));
+
+  const chunks = [chunk("IHDR", header)];
+
+  if (!greyscale) {
+    const paletteData = new Uint8Array(palette.length * 3);
+    palette.forEach((color, i) => paletteData.set(color, i * 3));
+    chunks.push(chunk("PLTE", paletteData));
+  }
+
+  chunks.push(chunk("IDAT", zlibStore(raw)));
+  chunks.push(chunk("IEND", new Uint8Array(0)));
+
+  const length = chunks.reduce(
+    (total, data) => total + data.length,
+    pngSignature.length
+  );
+  const result = new Uint8Array(length);
+  result.set(pngSignature, 0);
+
+  let offset = pngSignature.length;
+  for (const data of chunks) {
+    result.set(data, offset);
+    offset += data.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import { crc32 } from "./crc32";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// Time and date in MS-DOS format, as stored in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate()
+  };
+}
+
+/**
+ * Build a ZIP archive with every entry stored uncompressed. Exported
+ * bitmaps are small, so this keeps the archive code simple.
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()) {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+
+  const names = entries.map((entry) => encoder.encode(entry.name));
+  const crcs = entries.map((entry) => crc32(entry.data));
+
+  const localSize = entries.reduce(
+    (total, entry, i) => total + 30 + names[i].length + entry.data.length,
+    0
+  );
+  const centralSize = names.reduce(
+    (total, name) => total + 46 + name.length,
+    0
+  );
+
+  const result = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(result.buffer);
+
+  // Fields shared by the local and central directory headers, starting at
+  // "version needed to extract"
+  const writeCommonFields = (offset: number, i: number) => {
+    view.setUint16(offset, 20, true); // Version needed to extract
+    view.setUint16(offset + 2, 0x0800, true); // UTF-8 names
+    view.setUint16(offset + 4, 0, true); // Stored
+    view.setUint16(offset + 6, time, true);
+    view.setUint16(offset + 8, date, true);
+    view.setUint32(offset + 10, crcs[i], true);
+    view.setUint32(offset + 14, entries[i].data.length, true); // Compressed
+    view.setUint32(offset + 18, entries[i].data.length, true); // Uncompressed
+    view.setUint16(offset + 22, names[i].length, true);
+    view.setUint16(offset + 24, 0, true); // Extra field length
+  };
+
+  const localOffsets: number[] = [];
+  let offset = 0;
+
+  entries.forEach((entry, i) => {
+    localOffsets.push(offset);
+
+    view.setUint32(offset, 0x04034b50, true);
+    writeCommonFields(offset + 4, i);
+    result.set(names[i], offset + 30);
+    result.set(entry.data, offset + 30 + names[i].length);
+
+    offset += 30 + names[i].length + entry.data.length;
+  });
+
+  const centralOffset = offset;
+
+  entries.forEach((_entry, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    writeCommonFields(offset + 6, i);
+    view.setUint16(offset + 32, 0, true); // Comment length
+    view.setUint16(offset + 34, 0, true); // Disk number
+    view.setUint16(offset + 36, 0, true); // Internal attributes
+    view.setUint32(offset + 38, 0, true); // External attributes
+    view.setUint32(offset + 42, localOffsets[i], true);
+    result.set(names[i], offset + 46);
+
+    offset += 46 + names[i].length;
+  });
+
+  // End of central directory record
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return result;
+}
@@ -0,0 +1,57 @@
+import * as React from "react";
+
+import {
+  DitherMethod,
+  GreyLevels,
+  greyLevelChoices,
+  GreyscaleOptions
+} from "./PixelExtractor/greyscale";
+
+interface GreyscaleControlsProps {
+  options: GreyscaleOptions;
+  onChange: (options: GreyscaleOptions) => void;
+}
+
+export function GreyscaleControls({
+  options,
+  onChange
+}: GreyscaleControlsProps) {
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Grey levels:&nbsp;</div>
+        <select
+          value={options.levels}
+          onChange={(event) =>
+            onChange({
+              ...options,
+              levels: Number(event.target.value) as GreyLevels
+            })
+          }
+        >
+          {greyLevelChoices.map((levels) => (
+            <option key={levels} value={levels}>
+              {levels} ({Math.log(levels) / Math.LN2} bit)
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="ScaleInfo">
+        <div>Dithering:&nbsp;</div>
+        <select
+          value={options.dither}
+          onChange={(event) =>
+            onChange({
+              ...options,
+              dither: event.target.value as DitherMethod
+            })
+          }
+        >
+          <option value="none">None</option>
+          <option value="floydSteinberg">Floyd–Steinberg</option>
+          <option value="ordered">Ordered (Bayer)</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import * as React from "react";
+
+import { Coord } from "./GridRenderer/rendererTypes";
+
+// Inputs show and accept this many decimal places
+const decimals = 3;
+
+interface GridControlsProps {
+  gridOffset: Coord;
+  gridSize: Coord;
+  onChangeOffset: (offset: Coord) => void;
+  onChangeSize: (size: Coord) => void;
+
+  // Keep cells square
+  lockAspect: boolean;
+  onToggleLockAspect: () => void;
+}
+
+function round(value: number) {
+  return Number(value.toFixed(decimals));
+}
+
+export function GridControls({
+  gridOffset,
+  gridSize,
+  onChangeOffset,
+  onChangeSize,
+  lockAspect,
+  onToggleLockAspect
+}: GridControlsProps) {
+  const onChangeOffsetAxis = (axis: 0 | 1) => (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const value = event.target.valueAsNumber;
+    if (!isNaN(value)) {
+      const offset: Coord = [gridOffset[0], gridOffset[1]];
+      offset[axis] = Math.max(0, value);
+      onChangeOffset(offset);
+    }
+  };
+
+  const onChangeSizeAxis = (axis: 0 | 1) => (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const value = event.target.valueAsNumber;
+    if (!isNaN(value)) {
+      const size: Coord = [gridSize[0], gridSize[1]];
+      size[axis] = Math.max(1, value);
+      onChangeSize(lockAspect ? [size[axis], size[axis]] : size);
+    }
+  };
+
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Offset:&nbsp;</div>
+        <input
+          type="number"
+          min={0}
+          step={Math.pow(10, -decimals)}
+          value={round(gridOffset[0])}
+          onChange={onChangeOffsetAxis(0)}
+        />
+        <input
+          type="number"
+          min={0}
+          step={Math.pow(10, -decimals)}
+          value={round(gridOffset[1])}
+          onChange={onChangeOffsetAxis(1)}
+        />
+      </div>
+      <div className="ScaleInfo">
+        <div>Cell size:&nbsp;</div>
+        <input
+          type="number"
+          min={1}
+          step={Math.pow(10, -decimals)}
+          value={round(gridSize[0])}
+          onChange={onChangeSizeAxis(0)}
+        />
+        <input
+          type="number"
+          min={1}
+          step={Math.pow(10, -decimals)}
+          value={round(gridSize[1])}
+          onChange={onChangeSizeAxis(1)}
+        />
+      </div>
+      <label className="ScaleInfo">
+        <input
+          type="checkbox"
+          checked={lockAspect}
+          onChange={onToggleLockAspect}
+        />
+        Square cells
+      </label>
+      <div className="StatusText">
+        Arrows move, Shift+arrows resize, Alt for fine steps
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { boundariesFromGrid } from "../GridRenderer/boundaries";
+import { BoundaryGrid, Coord } from "../GridRenderer/rendererTypes";
+
+/**
+ * Strength of the colour transition at each pixel boundary along an axis.
+ * Entry i is the boundary before pixel i, summed over the other axis.
+ */
+function transitionProfile(image: ImageData, axis: 0 | 1) {
+  const { width, height, data } = image;
+  const length = axis === 0 ? width : height;
+  const profile = new Float64Array(length + 1);
+
+  for (let y = axis === 1 ? 1 : 0; y < height; ++y) {
+    for (let x = axis === 0 ? 1 : 0; x < width; ++x) {
+      const i = (y * width + x) * 4;
+      const j = axis === 0 ? i - 4 : i - width * 4;
+
+      profile[axis === 0 ? x : y] +=
+        Math.abs(data[i] - data[j]) +
+        Math.abs(data[i + 1] - data[j + 1]) +
+        Math.abs(data[i + 2] - data[j + 2]);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Snap each nominal boundary to the strongest transition within a pixel
+ * or so of it. Boundaries with no transition nearby (such as between cells
+ * of the same colour) keep their nominal position.
+ */
+function snapToTransitions(
+  nominal: number[],
+  exact: (i: number) => number,
+  profile: Float64Array,
+  cellSize: number
+) {
+  const radius = Math.max(1, Math.floor(cellSize / 2) - 1);
+  const result: number[] = [];
+
+  nominal.forEach((line, i) => {
+    let best = line;
+    let bestStrength = 0;
+
+    for (
+      let candidate = line - radius;
+      candidate <= line + radius;
+      ++candidate
+    ) {
+      if (candidate < 0 || candidate >= profile.length) {
+        continue;
+      }
+
+      const strength = profile[candidate];
+      if (
+        strength > bestStrength ||
+        (strength === bestStrength &&
+          strength > 0 &&
+          Math.abs(candidate - exact(i)) < Math.abs(best - exact(i)))
+      ) {
+        best = candidate;
+        bestStrength = strength;
+      }
+    }
+
+    // Keep boundaries strictly increasing
+    result.push(i > 0 ? Math.max(result[i - 1] + 1, best) : best);
+  });
+
+  return result;
+}
+
+/**
+ * Derive per-column and per-row boundaries for the cells of an axis
+ * aligned grid, following the colour transitions in the image. This fixes
+ * up grids of images upscaled by a non-integer factor, where cells are
+ * alternately one pixel smaller or larger than the average.
+ */
+export function deriveBoundaries(
+  image: ImageData,
+  cellSize: Coord,
+  gridOffset: Coord,
+  cells: Coord
+): BoundaryGrid {
+  const nominal = boundariesFromGrid(cellSize, gridOffset, cells);
+
+  return {
+    columns: snapToTransitions(
+      nominal.columns,
+      (i) => gridOffset[0] + i * cellSize[0],
+      transitionProfile(image, 0),
+      cellSize[0]
+    ),
+    rows: snapToTransitions(
+      nominal.rows,
+      (i) => gridOffset[1] + i * cellSize[1],
+      transitionProfile(image, 1),
+      cellSize[1]
+    )
+  };
+}
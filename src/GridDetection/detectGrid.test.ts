@@ -0,0 +1,94 @@
+import { Coord } from "../GridRenderer/rendererTypes";
+import { detectGrid } from "./detectGrid";
+
+// Pseudo-random numbers from 0 to 1, the same on every run
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed >> 8) / 8388608;
+  };
+}
+
+/**
+ * An upscaled image of random coloured cells. Pixels belong to the cell
+ * their centre is in, so fractional cell sizes alternate between the two
+ * nearest whole sizes, as in a nearest neighbour upscale.
+ */
+function cellImage(
+  width: number,
+  height: number,
+  cellSize: Coord,
+  gridOffset: Coord
+): ImageData {
+  const next = random(1);
+  const columns = Math.ceil(width / cellSize[0]) + 1;
+  const rows = Math.ceil(height / cellSize[1]) + 1;
+  const colors: number[][] = [];
+  for (let i = 0; i < columns * rows; ++i) {
+    colors.push([next() * 255, next() * 255, next() * 255]);
+  }
+
+  // Cells partly before the offset are numbered -1, so shift by one
+  const cellOf = (value: number, axis: 0 | 1) =>
+    Math.floor((value + 0.5 - gridOffset[axis]) / cellSize[axis]) + 1;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      data.set(
+        colors[cellOf(y, 1) * columns + cellOf(x, 0)],
+        (y * width + x) * 4
+      );
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+
+  return { width, height, data } as ImageData;
+}
+
+function imageOf(width: number, height: number, level: () => number) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; ++i) {
+    data.set([level(), level(), level(), 255], i * 4);
+  }
+
+  return { width, height, data } as ImageData;
+}
+
+describe("detectGrid", () => {
+  it("finds whole pixel cells", () => {
+    const fit = detectGrid(cellImage(128, 128, [8, 8], [0, 0]));
+
+    fit.cellSize.forEach((size) => expect(size).toBeCloseTo(8, 1));
+    expect(fit.gridOffset).toEqual([0, 0]);
+    expect(fit.confidence).toBeGreaterThan(0.9);
+  });
+
+  it("finds cells that aren't a whole number of pixels", () => {
+    const fit = detectGrid(cellImage(120, 120, [7.5, 7.5], [0, 0]));
+
+    fit.cellSize.forEach((size) => expect(size).toBeCloseTo(7.5, 1));
+    expect(fit.confidence).toBeGreaterThan(0.9);
+  });
+
+  it("finds the offset of a grid that doesn't start at the corner", () => {
+    const fit = detectGrid(cellImage(120, 100, [6, 5], [3, 2]));
+
+    expect(fit.cellSize[0]).toBeCloseTo(6, 1);
+    expect(fit.cellSize[1]).toBeCloseTo(5, 1);
+    expect(Math.abs(fit.gridOffset[0] - 3)).toBeLessThan(0.1);
+    expect(Math.abs(fit.gridOffset[1] - 2)).toBeLessThan(0.1);
+    expect(fit.confidence).toBeGreaterThan(0.9);
+  });
+
+  it("has next to no confidence in a grid in noise", () => {
+    const next = random(7);
+    const fit = detectGrid(imageOf(128, 128, () => next() * 255));
+
+    expect(fit.confidence).toBeLessThan(0.05);
+  });
+
+  it("has no confidence in a grid in a flat image", () => {
+    expect(detectGrid(imageOf(64, 64, () => 128)).confidence).toBe(0);
+  });
+});
@@ -0,0 +1,405 @@
+import { Coord } from "../GridRenderer/rendererTypes";
+
+export interface GridFitOptions {
+  // Range of cell sizes (in source pixels) to consider
+  minPeriod?: number;
+  maxPeriod?: number;
+}
+
+export interface GridFit {
+  cellSize: Coord;
+  gridOffset: Coord;
+
+  // 0 (no idea) to 1 (certain)
+  confidence: number;
+}
+
+interface AxisFit {
+  period: number;
+  phase: number;
+  strength: number;
+}
+
+const defaultMinPeriod = 2;
+const defaultMaxPeriod = 64;
+
+// Largest region (in source pixels) used when refining the fit by
+// cell variance. Keeps refinement fast on large screenshots.
+const refineRegionSize = 256;
+
+/**
+ * Sum of absolute colour differences between neighbouring pixels, projected
+ * onto one axis. Entry i holds the edge energy between pixel i - 1 and i.
+ */
+function edgeProfile(image: ImageData, axis: 0 | 1): Float64Array {
+  const { width, height, data } = image;
+  const profile = new Float64Array(axis === 0 ? width : height);
+  const step = axis === 0 ? 4 : width * 4;
+
+  for (let y = axis === 0 ? 0 : 1; y < height; ++y) {
+    for (let x = axis === 0 ? 1 : 0; x < width; ++x) {
+      const index = (y * width + x) * 4;
+      const energy =
+        Math.abs(data[index] - data[index - step]) +
+        Math.abs(data[index + 1] - data[index + 1 - step]) +
+        Math.abs(data[index + 2] - data[index + 2 - step]);
+
+      profile[axis === 0 ? x : y] += energy;
+    }
+  }
+
+  return profile;
+}
+
+// Subtract a moving average so that a cluster of edges in one part of the
+// image doesn't masquerade as a long period.
+function removeTrend(profile: Float64Array, radius: number): Float64Array {
+  const result = new Float64Array(profile.length);
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+
+  for (let i = 0; i < profile.length; ++i) {
+    while (windowEnd < Math.min(profile.length, i + radius + 1)) {
+      windowSum += profile[windowEnd++];
+    }
+    while (windowStart < i - radius) {
+      windowSum -= profile[windowStart++];
+    }
+
+    result[i] = profile[i] - windowSum / (windowEnd - windowStart);
+  }
+
+  return result;
+}
+
+/**
+ * Fit a comb of the given frequency to the edge profile. Returns the
+ * normalized magnitude (how well edges line up with the comb) and the phase
+ * of the comb.
+ */
+function combResponse(
+  trend: Float64Array,
+  energy: number,
+  frequency: number
+): { strength: number; phase: number } {
+  const omega = 2 * Math.PI * frequency;
+  let re = 0;
+  let im = 0;
+
+  for (let i = 0; i < trend.length; ++i) {
+    if (trend[i] !== 0) {
+      re += trend[i] * Math.cos(omega * i);
+      im += trend[i] * Math.sin(omega * i);
+    }
+  }
+
+  return {
+    strength: energy > 0 ? Math.min(1, Math.hypot(re, im) / energy) : 0,
+    phase: Math.atan2(im, re)
+  };
+}
+
+function fitAxis(
+  profile: Float64Array,
+  minPeriod: number,
+  maxPeriod: number
+): AxisFit | undefined {
+  const size = profile.length;
+
+  // Need at least a couple of cells to see a period
+  maxPeriod = Math.min(maxPeriod, size / 2);
+  if (maxPeriod < minPeriod) {
+    return undefined;
+  }
+
+  let energy = 0;
+  for (let i = 0; i < size; ++i) {
+    energy += profile[i];
+  }
+  if (energy === 0) {
+    return undefined;
+  }
+
+  const trend = removeTrend(profile, Math.ceil(maxPeriod));
+
+  // Scan in frequency space, with steps fine enough not to step over a peak
+  const minFrequency = 1 / maxPeriod;
+  const maxFrequency = 1 / minPeriod;
+  const frequencyStep = 0.25 / size;
+
+  const frequencies: number[] = [];
+  const strengths: number[] = [];
+
+  for (let f = minFrequency; f <= maxFrequency; f += frequencyStep) {
+    frequencies.push(f);
+    strengths.push(combResponse(trend, energy, f).strength);
+  }
+
+  if (frequencies.length === 0) {
+    return undefined;
+  }
+
+  let bestStrength = 0;
+  for (const strength of strengths) {
+    bestStrength = Math.max(bestStrength, strength);
+  }
+
+  // A grid of period p also lines up with combs of period p / 2, p / 3, ...
+  // so pick the lowest frequency peak that is nearly as strong as the best.
+  let peakIndex = 0;
+  for (let i = 0; i < strengths.length; ++i) {
+    const isPeak =
+      (i === 0 || strengths[i] >= strengths[i - 1]) &&
+      (i === strengths.length - 1 || strengths[i] >= strengths[i + 1]);
+
+    if (isPeak && strengths[i] >= 0.9 * bestStrength) {
+      peakIndex = i;
+      break;
+    }
+  }
+
+  // Refine the peak to sub-step precision with a golden section search
+  let low = Math.max(minFrequency, frequencies[peakIndex] - frequencyStep);
+  let high = Math.min(maxFrequency, frequencies[peakIndex] + frequencyStep);
+  const ratio = (Math.sqrt(5) - 1) / 2;
+
+  for (let iteration = 0; iteration < 24; ++iteration) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+
+    if (
+      combResponse(trend, energy, a).strength >=
+      combResponse(trend, energy, b).strength
+    ) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+
+  const frequency = (low + high) / 2;
+  const { strength, phase } = combResponse(trend, energy, frequency);
+  const period = 1 / frequency;
+
+  return {
+    period,
+    phase: positiveModulo((phase / (2 * Math.PI)) * period, period),
+    strength
+  };
+}
+
+function positiveModulo(value: number, modulus: number) {
+  return ((value % modulus) + modulus) % modulus;
+}
+
+/**
+ * Ratio of the colour variance within grid cells to the overall colour
+ * variance of the same pixels. Lower is better.
+ */
+function cellVarianceRatio(
+  image: ImageData,
+  region: [number, number, number, number],
+  cellSize: Coord,
+  gridOffset: Coord
+): number {
+  const [x0, y0, x1, y1] = region;
+  const { width, data } = image;
+
+  const cellIndex = (value: number, axis: 0 | 1) =>
+    Math.floor((value + 0.5 - gridOffset[axis]) / cellSize[axis]);
+
+  const firstCell: Coord = [
+    Math.max(0, cellIndex(x0, 0)),
+    Math.max(0, cellIndex(y0, 1))
+  ];
+  const cellsX = cellIndex(x1 - 1, 0) - firstCell[0] + 1;
+  const cellsY = cellIndex(y1 - 1, 1) - firstCell[1] + 1;
+
+  if (cellsX <= 0 || cellsY <= 0) {
+    return 1;
+  }
+
+  const counts = new Float64Array(cellsX * cellsY);
+  const sums = new Float64Array(cellsX * cellsY * 3);
+  let totalSquares = 0;
+  const totalSums = [0, 0, 0];
+  let totalCount = 0;
+
+  for (let y = y0; y < y1; ++y) {
+    const cy = cellIndex(y, 1) - firstCell[1];
+    if (cy < 0) {
+      continue;
+    }
+
+    for (let x = x0; x < x1; ++x) {
+      const cx = cellIndex(x, 0) - firstCell[0];
+      if (cx < 0) {
+        continue;
+      }
+
+      const cell = cy * cellsX + cx;
+      const index = (y * width + x) * 4;
+
+      ++counts[cell];
+      ++totalCount;
+
+      for (let c = 0; c < 3; ++c) {
+        const value = data[index + c];
+        sums[cell * 3 + c] += value;
+        totalSums[c] += value;
+        totalSquares += value * value;
+      }
+    }
+  }
+
+  // Within-cell sum of squares is the total sum of squares minus the sum of
+  // squares explained by the cell means
+  let explainedSquares = 0;
+  for (let cell = 0; cell < counts.length; ++cell) {
+    if (counts[cell] > 0) {
+      for (let c = 0; c < 3; ++c) {
+        explainedSquares +=
+          (sums[cell * 3 + c] * sums[cell * 3 + c]) / counts[cell];
+      }
+    }
+  }
+
+  let meanSquares = 0;
+  for (let c = 0; c < 3; ++c) {
+    meanSquares += (totalSums[c] * totalSums[c]) / Math.max(1, totalCount);
+  }
+
+  const totalVariance = totalSquares - meanSquares;
+  if (totalVariance <= 0) {
+    return 1;
+  }
+
+  return Math.max(0, totalSquares - explainedSquares) / totalVariance;
+}
+
+// Coordinate descent over cell size and offset, minimising the variance
+// inside each cell
+function refineFit(
+  image: ImageData,
+  cellSize: Coord,
+  gridOffset: Coord
+): { cellSize: Coord; gridOffset: Coord; varianceRatio: number } {
+  const regionWidth = Math.min(image.width, refineRegionSize);
+  const regionHeight = Math.min(image.height, refineRegionSize);
+  const left = Math.floor((image.width - regionWidth) / 2);
+  const top = Math.floor((image.height - regionHeight) / 2);
+  const region: [number, number, number, number] = [
+    left,
+    top,
+    left + regionWidth,
+    top + regionHeight
+  ];
+
+  // params: cellSize x, cellSize y, offset x, offset y
+  const params = [cellSize[0], cellSize[1], gridOffset[0], gridOffset[1]];
+  const evaluate = () =>
+    cellVarianceRatio(
+      image,
+      region,
+      [params[0], params[1]],
+      [params[2], params[3]]
+    );
+
+  // An error in cell size accumulates across the cells in the region, so the
+  // size steps are scaled down by the number of cells the region spans
+  const cellSpan = [
+    Math.max(1, (left + regionWidth) / cellSize[0]),
+    Math.max(1, (top + regionHeight) / cellSize[1])
+  ];
+  const steps = [0.5 / cellSpan[0], 0.5 / cellSpan[1], 0.5, 0.5];
+  const minSteps = steps.map((step) => step / 64);
+
+  let best = evaluate();
+
+  for (let iteration = 0; iteration < 200; ++iteration) {
+    let improved = false;
+
+    for (let i = 0; i < params.length; ++i) {
+      for (const direction of [-1, 1]) {
+        const previous = params[i];
+        params[i] = previous + direction * steps[i];
+
+        const valid =
+          params[0] >= 1 && params[1] >= 1 && params[2] >= 0 && params[3] >= 0;
+        const cost = valid ? evaluate() : Infinity;
+
+        if (cost < best) {
+          best = cost;
+          improved = true;
+          break;
+        }
+
+        params[i] = previous;
+      }
+    }
+
+    if (!improved) {
+      let done = true;
+      for (let i = 0; i < steps.length; ++i) {
+        if (steps[i] > minSteps[i]) {
+          steps[i] /= 2;
+          done = false;
+        }
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  }
+
+  return {
+    cellSize: [params[0], params[1]],
+    gridOffset: [params[2], params[3]],
+    varianceRatio: best
+  };
+}
+
+/**
+ * Estimate the cell size and offset of a nearest neighbour upscaled image.
+ *
+ * The period and phase on each axis are found by fitting a comb to the edge
+ * energy profile, then refined by minimising the colour variance inside each
+ * cell.
+ */
+export function detectGrid(
+  image: ImageData,
+  {
+    minPeriod = defaultMinPeriod,
+    maxPeriod = defaultMaxPeriod
+  }: GridFitOptions = {}
+): GridFit {
+  const fitX = fitAxis(edgeProfile(image, 0), minPeriod, maxPeriod);
+  const fitY = fitAxis(edgeProfile(image, 1), minPeriod, maxPeriod);
+
+  if (!fitX || !fitY) {
+    return { cellSize: [1, 1], gridOffset: [0, 0], confidence: 0 };
+  }
+
+  const refined = refineFit(
+    image,
+    [fitX.period, fitY.period],
+    [fitX.phase, fitY.phase]
+  );
+
+  // An offset of almost a whole cell is better expressed as a zero offset,
+  // so that the first column/row isn't dropped
+  const gridOffset = refined.gridOffset.map((offset, axis) =>
+    offset > refined.cellSize[axis] - 0.5
+      ? Math.max(0, offset - refined.cellSize[axis])
+      : offset
+  ) as Coord;
+
+  return {
+    cellSize: refined.cellSize,
+    gridOffset,
+    confidence:
+      Math.min(fitX.strength, fitY.strength) * (1 - refined.varianceRatio)
+  };
+}
@@ -0,0 +1,56 @@
+import { BoundaryGrid, Coord } from "./rendererTypes";
+
+/** Number of cells across and down a boundary grid */
+export function boundaryCellCount({ columns, rows }: BoundaryGrid): Coord {
+  return [Math.max(0, columns.length - 1), Math.max(0, rows.length - 1)];
+}
+
+/** True if both axes have at least one cell and strictly increase */
+export function isValidBoundaries({ columns, rows }: BoundaryGrid) {
+  const increasing = (lines: number[]) =>
+    lines.length >= 2 &&
+    lines.every((line, i) => i === 0 || line > lines[i - 1]);
+
+  return increasing(columns) && increasing(rows);
+}
+
+/** Boundaries of an axis aligned grid, rounded to whole pixels */
+export function boundariesFromGrid(
+  cellSize: Coord,
+  gridOffset: Coord,
+  cells: Coord
+): BoundaryGrid {
+  const lines = (axis: 0 | 1) => {
+    const result: number[] = [];
+    for (let i = 0; i <= cells[axis]; ++i) {
+      result.push(Math.round(gridOffset[axis] + i * cellSize[axis]));
+    }
+    return result;
+  };
+
+  return { columns: lines(0), rows: lines(1) };
+}
+
+/**
+ * Move one boundary, keeping it at least a pixel away from its neighbours.
+ * Returns a new grid.
+ */
+export function moveBoundary(
+  boundaries: BoundaryGrid,
+  axis: 0 | 1,
+  index: number,
+  position: number
+): BoundaryGrid {
+  const lines = (axis === 0 ? boundaries.columns : boundaries.rows).slice();
+  const min = index > 0 ? lines[index - 1] + 1 : -Infinity;
+  const max = index < lines.length - 1 ? lines[index + 1] - 1 : Infinity;
+
+  lines[index] = Math.min(
+    max,
+    Math.max(min, Math.max(0, Math.round(position)))
+  );
+
+  return axis === 0
+    ? { ...boundaries, columns: lines }
+    : { ...boundaries, rows: lines };
+}
@@ -1,11 +1,60 @@
-import { GridParams } from "./rendererTypes";
+import { boundaryCellCount } from "./boundaries";
+import { CellGrid, cellCorners, gridLines } from "./cellGeometry";
+import {
+  cssColor,
+  defaultGridStyle,
+  isMajorLine,
+  otherGridStyle
+} from "./gridStyle";
+import { cellToCanvas, project } from "./perspective";
+import {
+  BoundaryGrid,
+  CellHighlights,
+  Coord,
+  GridParams,
+  GridStyle,
+  PerspectiveGrid,
+  Renderer
+} from "./rendererTypes";
+import { tileCount, tileOrigin } from "../Tiles/tiles";
+
+export class Canvas2DRenderer implements Renderer {
+  public readonly canvas: HTMLCanvasElement;
+
+  public constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+  }
+
+  public render(gridParams: GridParams) {
+    renderGrid(this.canvas, gridParams);
+  }
+
+  // The 2D context holds nothing that needs freeing
+  public dispose() {}
+}
 
 export function renderGrid(
   canvas: HTMLCanvasElement,
-  { canvasSize, maxCells, cellSize, gridOffset, renderScale }: GridParams
+  {
+    canvasSize,
+    maxCells,
+    cellSize,
+    gridOffset,
+    renderScale,
+    tiles,
+    perspective,
+    boundaries,
+    view,
+    highlights,
+    style = defaultGridStyle,
+    otherGrids = []
+  }: GridParams
 ) {
-  canvas.width = canvasSize[0] * renderScale;
-  canvas.height = canvasSize[1] * renderScale;
+  const scaledWidth = canvasSize[0] * renderScale;
+  const scaledHeight = canvasSize[1] * renderScale;
+
+  canvas.width = Math.round(view ? view.size[0] : scaledWidth);
+  canvas.height = Math.round(view ? view.size[1] : scaledHeight);
 
   const ctx = canvas.getContext("2d");
   if (!ctx) {
@@ -16,59 +65,340 @@ export function renderGrid(
   ctx.clearRect(0, 0, canvas.width, canvas.height);
   ctx.lineWidth = 1;
 
-  const gridPixels = [
-    Math.min(
-      maxCells[0],
-      Math.floor((canvasSize[0] - gridOffset[0]) / cellSize[0])
-    ),
-    Math.min(
-      maxCells[1],
-      Math.floor((canvasSize[1] - gridOffset[1]) / cellSize[1])
-    )
-  ];
-
-  const gridEnd = [
-    gridOffset[0] + cellSize[0] * gridPixels[0],
-    gridOffset[1] + cellSize[1] * gridPixels[1]
-  ];
-
-  ctx.beginPath();
-
-  for (
-    let x = renderScale * gridOffset[0], ix = 0;
-    x < canvas.width && ix <= gridPixels[0];
-    x += renderScale * cellSize[0], ++ix
-  ) {
-    ctx.moveTo(x + 0.5, renderScale * gridOffset[1]);
-    ctx.lineTo(x + 0.5, renderScale * gridEnd[1]);
-  }
-
-  for (
-    let y = renderScale * gridOffset[1], iy = 0;
-    y < canvas.height && iy <= gridPixels[1];
-    y += renderScale * cellSize[1], ++iy
-  ) {
-    ctx.moveTo(renderScale * gridOffset[0], y + 0.5);
-    ctx.lineTo(renderScale * gridEnd[0], y + 0.5);
-  }
-
-  ctx.strokeStyle = "black";
-  ctx.stroke();
-
-  ctx.strokeStyle = "white";
-  ctx.setLineDash([1, 1]);
-  ctx.stroke();
-
-  ctx.beginPath();
-  const x = renderScale * gridOffset[0];
-  ctx.moveTo(x + 0.5, renderScale * gridOffset[1]);
-  ctx.lineTo(x + 0.5, renderScale * gridEnd[1]);
-
-  const y = renderScale * gridOffset[1];
-  ctx.moveTo(renderScale * gridOffset[0], y + 0.5);
-  ctx.lineTo(renderScale * gridEnd[0], y + 0.5);
-
-  ctx.strokeStyle = "cyan";
-  ctx.setLineDash([1, 1]);
-  ctx.stroke();
+  // Lines are drawn at whole pixels (plus a half for 1px lines) so that
+  // they stay crisp at fractional scales
+  if (view) {
+    ctx.translate(-Math.round(view.offset[0]), -Math.round(view.offset[1]));
+  }
+
+  for (const grid of otherGrids) {
+    renderGridLines(ctx, {
+      ...grid,
+      canvasSize,
+      renderScale,
+      style: otherGridStyle(style)
+    });
+  }
+
+  if (highlights) {
+    renderHighlights(
+      ctx,
+      { cellSize, gridOffset, perspective, boundaries },
+      highlights,
+      renderScale
+    );
+  }
+
+  renderGridLines(ctx, {
+    canvasSize,
+    maxCells,
+    cellSize,
+    gridOffset,
+    renderScale,
+    tiles,
+    perspective,
+    boundaries,
+    style
+  });
+}
+
+// The parts of the grid parameters for drawing the lines of one grid
+type GridLines = Pick<
+  GridParams,
+  | "canvasSize"
+  | "maxCells"
+  | "cellSize"
+  | "gridOffset"
+  | "renderScale"
+  | "tiles"
+  | "perspective"
+  | "boundaries"
+> & { style: GridStyle };
+
+function renderGridLines(
+  ctx: CanvasRenderingContext2D,
+  {
+    canvasSize,
+    maxCells,
+    cellSize,
+    gridOffset,
+    renderScale,
+    tiles,
+    perspective,
+    boundaries,
+    style
+  }: GridLines
+) {
+  if (perspective) {
+    renderPerspectiveGrid(ctx, perspective, renderScale, tiles, style);
+    return;
+  }
+
+  if (boundaries) {
+    renderBoundaryGrid(ctx, boundaries, renderScale, tiles, style);
+    return;
+  }
+
+  const { columns: columnLines, rows: rowLines } = gridLines({
+    canvasSize,
+    maxCells,
+    cellSize,
+    gridOffset
+  });
+
+  strokeGridPaths(
+    ctx,
+    axisAlignedGridPaths(columnLines, rowLines, renderScale, style),
+    style
+  );
+
+  if (tiles) {
+    const [columns, rows] = tileCount(
+      [columnLines.length - 1, rowLines.length - 1],
+      tiles
+    );
+
+    ctx.beginPath();
+
+    for (let row = 0; row < rows; ++row) {
+      for (let column = 0; column < columns; ++column) {
+        const origin = tileOrigin(column, row, tiles);
+
+        ctx.rect(
+          Math.round(renderScale * (gridOffset[0] + origin[0] * cellSize[0])),
+          Math.round(renderScale * (gridOffset[1] + origin[1] * cellSize[1])),
+          Math.round(renderScale * tiles.tileSize[0] * cellSize[0]),
+          Math.round(renderScale * tiles.tileSize[1] * cellSize[1])
+        );
+      }
+    }
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "magenta";
+    ctx.setLineDash([]);
+    ctx.stroke();
+  }
+}
+
+// Fill colours by highlight mask value
+const highlightColors = ["", "rgba(255, 128, 0, 0.4)", "rgba(255, 0, 0, 0.6)"];
+
+function renderHighlights(
+  ctx: CanvasRenderingContext2D,
+  grid: CellGrid,
+  { width, height, mask }: CellHighlights,
+  renderScale: number
+) {
+  const corners = cellCorners(grid);
+
+  for (let value = 1; value < highlightColors.length; ++value) {
+    ctx.beginPath();
+
+    for (let y = 0; y < height; ++y) {
+      for (let x = 0; x < width; ++x) {
+        if (mask[y * width + x] !== value) {
+          continue;
+        }
+
+        corners(x, y).forEach(([cx, cy], i) => {
+          if (i === 0) {
+            ctx.moveTo(renderScale * cx, renderScale * cy);
+          } else {
+            ctx.lineTo(renderScale * cx, renderScale * cy);
+          }
+        });
+        ctx.closePath();
+      }
+    }
+
+    ctx.fillStyle = highlightColors[value];
+    ctx.fill();
+  }
+}
+
+// Grid lines sorted by how they are styled
+interface GridPaths {
+  lines: Path2D;
+  major: Path2D;
+  outline: Path2D;
+}
+
+function createGridPaths(): GridPaths {
+  return { lines: new Path2D(), major: new Path2D(), outline: new Path2D() };
+}
+
+function strokeGridPaths(
+  ctx: CanvasRenderingContext2D,
+  { lines, major, outline }: GridPaths,
+  style: GridStyle
+) {
+  ctx.save();
+  ctx.globalAlpha = style.opacity;
+
+  const stroke = (path: Path2D, color: GridStyle["lineColor"]) => {
+    // Dashes of the two colours alternate without overlapping, so that
+    // they blend the same at any opacity
+    if (style.dashed) {
+      ctx.setLineDash([1, 1]);
+      ctx.lineDashOffset = 1;
+      ctx.strokeStyle = cssColor(style.dashColor);
+      ctx.stroke(path);
+      ctx.lineDashOffset = 0;
+    } else {
+      ctx.setLineDash([]);
+    }
+
+    ctx.strokeStyle = cssColor(color);
+    ctx.stroke(path);
+  };
+
+  stroke(lines, style.lineColor);
+  stroke(major, style.majorColor);
+  stroke(outline, style.outlineColor);
+
+  ctx.restore();
+}
+
+// Paths for a grid with lines at the given unscaled positions
+function axisAlignedGridPaths(
+  columns: number[],
+  rows: number[],
+  renderScale: number,
+  style: GridStyle
+) {
+  const paths = createGridPaths();
+
+  const left = Math.round(renderScale * columns[0]);
+  const right = Math.round(renderScale * columns[columns.length - 1]);
+  const top = Math.round(renderScale * rows[0]);
+  const bottom = Math.round(renderScale * rows[rows.length - 1]);
+
+  for (let i = 1; i < columns.length - 1; ++i) {
+    const x = Math.round(renderScale * columns[i]);
+    const path = isMajorLine(i, style) ? paths.major : paths.lines;
+    path.moveTo(x + 0.5, top);
+    path.lineTo(x + 0.5, bottom);
+  }
+
+  for (let i = 1; i < rows.length - 1; ++i) {
+    const y = Math.round(renderScale * rows[i]);
+    const path = isMajorLine(i, style) ? paths.major : paths.lines;
+    path.moveTo(left, y + 0.5);
+    path.lineTo(right, y + 0.5);
+  }
+
+  paths.outline.rect(left + 0.5, top + 0.5, right - left, bottom - top);
+
+  return paths;
+}
+
+function renderBoundaryGrid(
+  ctx: CanvasRenderingContext2D,
+  { columns, rows }: BoundaryGrid,
+  renderScale: number,
+  tiles: GridParams["tiles"],
+  style: GridStyle
+) {
+  strokeGridPaths(
+    ctx,
+    axisAlignedGridPaths(columns, rows, renderScale, style),
+    style
+  );
+
+  if (tiles) {
+    const [tileColumns, tileRows] = tileCount(
+      boundaryCellCount({ columns, rows }),
+      tiles
+    );
+
+    ctx.beginPath();
+
+    for (let row = 0; row < tileRows; ++row) {
+      for (let column = 0; column < tileColumns; ++column) {
+        const [x, y] = tileOrigin(column, row, tiles);
+        const tileLeft = Math.round(renderScale * columns[x]);
+        const tileTop = Math.round(renderScale * rows[y]);
+
+        ctx.rect(
+          tileLeft,
+          tileTop,
+          Math.round(renderScale * columns[x + tiles.tileSize[0]]) - tileLeft,
+          Math.round(renderScale * rows[y + tiles.tileSize[1]]) - tileTop
+        );
+      }
+    }
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "magenta";
+    ctx.setLineDash([]);
+    ctx.stroke();
+  }
+}
+
+function renderPerspectiveGrid(
+  ctx: CanvasRenderingContext2D,
+  perspective: PerspectiveGrid,
+  renderScale: number,
+  tiles: GridParams["tiles"],
+  style: GridStyle
+) {
+  const [columns, rows] = perspective.cells;
+  const toCanvas = cellToCanvas(perspective);
+
+  // Lines stay straight under a homography, so only the ends are mapped
+  const line = (
+    path: Path2D | CanvasRenderingContext2D,
+    from: Coord,
+    to: Coord
+  ) => {
+    const start = project(toCanvas, from);
+    const end = project(toCanvas, to);
+    path.moveTo(renderScale * start[0], renderScale * start[1]);
+    path.lineTo(renderScale * end[0], renderScale * end[1]);
+  };
+
+  const paths = createGridPaths();
+
+  for (let x = 1; x < columns; ++x) {
+    line(isMajorLine(x, style) ? paths.major : paths.lines, [x, 0], [x, rows]);
+  }
+
+  for (let y = 1; y < rows; ++y) {
+    line(
+      isMajorLine(y, style) ? paths.major : paths.lines,
+      [0, y],
+      [columns, y]
+    );
+  }
+
+  line(paths.outline, [0, 0], [columns, 0]);
+  line(paths.outline, [columns, 0], [columns, rows]);
+  line(paths.outline, [columns, rows], [0, rows]);
+  line(paths.outline, [0, rows], [0, 0]);
+
+  strokeGridPaths(ctx, paths, style);
+
+  if (tiles) {
+    const [tileColumns, tileRows] = tileCount(perspective.cells, tiles);
+
+    ctx.beginPath();
+
+    for (let row = 0; row < tileRows; ++row) {
+      for (let column = 0; column < tileColumns; ++column) {
+        const [left, top] = tileOrigin(column, row, tiles);
+        const right = left + tiles.tileSize[0];
+        const bottom = top + tiles.tileSize[1];
+
+        line(ctx, [left, top], [right, top]);
+        line(ctx, [right, top], [right, bottom]);
+        line(ctx, [right, bottom], [left, bottom]);
+        line(ctx, [left, bottom], [left, top]);
+      }
+    }
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "magenta";
+    ctx.setLineDash([]);
+    ctx.stroke();
+  }
 }
@@ -0,0 +1,195 @@
+import {
+  cellAt,
+  cellCenter,
+  cellCorners,
+  gridCellCount,
+  gridLines
+} from "./cellGeometry";
+import { defaultGridStyle, isMajorLine } from "./gridStyle";
+import { perspectiveFromGrid } from "./perspective";
+import { Coord, PerspectiveGrid } from "./rendererTypes";
+
+// 4 x 3 cells of 5 x 4 pixels starting at (2, 1), on a canvas with room
+// for more
+const uniform = {
+  canvasSize: [40, 20] as Coord,
+  maxCells: [4, 10] as Coord,
+  cellSize: [5, 4] as Coord,
+  gridOffset: [2, 1] as Coord
+};
+
+const boundaries = {
+  ...uniform,
+  boundaries: { columns: [0, 3, 7, 10], rows: [2, 4, 7] }
+};
+
+// The uniform grid as a perspective grid, and a trapezoid narrowing
+// towards the top
+const flat = {
+  ...uniform,
+  perspective: perspectiveFromGrid([5, 4], [2, 1], [4, 3])
+};
+const trapezoid: PerspectiveGrid = {
+  corners: [
+    [10, 0],
+    [30, 0],
+    [40, 20],
+    [0, 20]
+  ],
+  cells: [4, 2]
+};
+
+const close = (coord: Coord) => coord.map((value) => +value.toFixed(6));
+
+describe("gridCellCount", () => {
+  it("fits cells into the canvas up to maxCells", () => {
+    expect(gridCellCount(uniform)).toEqual([4, 4]);
+    expect(gridCellCount({ ...uniform, maxCells: [10, 3] })).toEqual([7, 3]);
+  });
+
+  it("has no cells when the offset is past the canvas", () => {
+    expect(gridCellCount({ ...uniform, gridOffset: [50, 1] })).toEqual([0, 4]);
+  });
+
+  it("counts boundary and perspective cells", () => {
+    expect(gridCellCount(boundaries)).toEqual([3, 2]);
+
+    // Perspective takes precedence over boundaries
+    expect(
+      gridCellCount({
+        ...uniform,
+        perspective: trapezoid,
+        boundaries: {
+          columns: [0, 1],
+          rows: [0, 1]
+        }
+      })
+    ).toEqual([4, 2]);
+  });
+});
+
+describe("gridLines", () => {
+  it("places lines at the offset plus whole cells", () => {
+    expect(gridLines({ ...uniform, maxCells: [4, 3] })).toEqual({
+      columns: [2, 7, 12, 17, 22],
+      rows: [1, 5, 9, 13]
+    });
+  });
+
+  it("keeps fractional positions", () => {
+    const { columns } = gridLines({
+      ...uniform,
+      cellSize: [2.5, 4],
+      gridOffset: [0.5, 1],
+      maxCells: [3, 1]
+    });
+
+    expect(columns).toEqual([0.5, 3, 5.5, 8]);
+  });
+
+  it("uses the boundaries of boundary grids", () => {
+    expect(gridLines(boundaries)).toEqual(boundaries.boundaries);
+  });
+
+  it("has just the leading edge of an empty grid", () => {
+    expect(gridLines({ ...uniform, gridOffset: [50, 1] }).columns).toEqual([
+      50
+    ]);
+  });
+});
+
+describe("cellCorners", () => {
+  it("gives the corners of uniform cells clockwise from the top left", () => {
+    expect(cellCorners(uniform)(1, 2)).toEqual([
+      [7, 9],
+      [12, 9],
+      [12, 13],
+      [7, 13]
+    ]);
+  });
+
+  it("gives the corners of boundary cells", () => {
+    expect(cellCorners(boundaries)(1, 1)).toEqual([
+      [3, 4],
+      [7, 4],
+      [7, 7],
+      [3, 7]
+    ]);
+  });
+
+  it("places perspective cells like the same uniform grid", () => {
+    for (let y = 0; y < 3; ++y) {
+      for (let x = 0; x < 4; ++x) {
+        expect(cellCorners(flat)(x, y).map(close)).toEqual(
+          cellCorners(uniform)(x, y)
+        );
+      }
+    }
+  });
+
+  it("follows the perspective of a trapezoid", () => {
+    const corners = cellCorners({ ...uniform, perspective: trapezoid });
+
+    // The grid's own corners
+    expect(close(corners(0, 0)[0])).toEqual([10, 0]);
+    expect(close(corners(3, 1)[2])).toEqual([40, 20]);
+
+    // Cells are narrower at the top
+    const width = (x: number, y: number) =>
+      corners(x, y)[1][0] - corners(x, y)[0][0];
+    expect(width(0, 0)).toBeLessThan(width(0, 1));
+  });
+});
+
+describe("cellCenter", () => {
+  it("is the middle of a uniform cell", () => {
+    expect(cellCenter(uniform, 1, 2)).toEqual([9.5, 11]);
+  });
+
+  it("is the middle of a boundary cell", () => {
+    expect(cellCenter(boundaries, 2, 0)).toEqual([8.5, 3]);
+  });
+});
+
+describe("cellAt", () => {
+  it("finds the cell of a point in a uniform grid", () => {
+    expect(cellAt(uniform, [7, 9])).toEqual([1, 2]);
+    expect(cellAt(uniform, [6.9, 8.9])).toEqual([0, 1]);
+  });
+
+  it("finds nothing outside the grid", () => {
+    expect(cellAt(uniform, [1, 1])).toBeUndefined();
+    expect(cellAt({ ...uniform, maxCells: [4, 3] }, [7, 13])).toBeUndefined();
+  });
+
+  it("finds the cell of a point in a boundary grid", () => {
+    expect(cellAt(boundaries, [3, 6.5])).toEqual([1, 1]);
+    expect(cellAt(boundaries, [10, 3])).toBeUndefined();
+  });
+
+  it("finds the cell of a point in a perspective grid", () => {
+    const grid = { ...uniform, perspective: trapezoid };
+
+    // Centre of each cell, found through its corners
+    for (let y = 0; y < 2; ++y) {
+      for (let x = 0; x < 4; ++x) {
+        expect(cellAt(grid, cellCenter(grid, x, y))).toEqual([x, y]);
+      }
+    }
+    expect(cellAt(grid, [1, 1])).toBeUndefined();
+  });
+});
+
+describe("isMajorLine", () => {
+  it("marks every majorEvery lines from the top left", () => {
+    const style = { ...defaultGridStyle, majorEvery: 4 };
+    const major = [0, 1, 2, 3, 4, 5, 8].filter((i) => isMajorLine(i, style));
+
+    expect(major).toEqual([0, 4, 8]);
+  });
+
+  it("marks nothing when majorEvery is 0", () => {
+    expect(isMajorLine(0, defaultGridStyle)).toBe(false);
+    expect(isMajorLine(4, defaultGridStyle)).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import { boundaryCellCount } from "./boundaries";
+import { cellToCanvas, invert, project } from "./perspective";
+import { Coord, GridParams, PerspectiveGrid } from "./rendererTypes";
+
+// The parts of the grid parameters that place cells
+export type CellGrid = Pick<
+  GridParams,
+  "cellSize" | "gridOffset" | "perspective" | "boundaries"
+>;
+
+/**
+ * Returns a function giving the corners of a cell in unscaled canvas
+ * coordinates, in the order top left, top right, bottom right, bottom left.
+ */
+export function cellCorners({
+  cellSize,
+  gridOffset,
+  perspective,
+  boundaries
+}: CellGrid): (x: number, y: number) => PerspectiveGrid["corners"] {
+  if (perspective) {
+    const toCanvas = cellToCanvas(perspective);
+    return (x, y) => [
+      project(toCanvas, [x, y]),
+      project(toCanvas, [x + 1, y]),
+      project(toCanvas, [x + 1, y + 1]),
+      project(toCanvas, [x, y + 1])
+    ];
+  }
+
+  const rect = (left: number, top: number, right: number, bottom: number) =>
+    [
+      [left, top],
+      [right, top],
+      [right, bottom],
+      [left, bottom]
+    ] as PerspectiveGrid["corners"];
+
+  if (boundaries) {
+    const { columns, rows } = boundaries;
+    return (x, y) => rect(columns[x], rows[y], columns[x + 1], rows[y + 1]);
+  }
+
+  return (x, y) =>
+    rect(
+      gridOffset[0] + x * cellSize[0],
+      gridOffset[1] + y * cellSize[1],
+      gridOffset[0] + (x + 1) * cellSize[0],
+      gridOffset[1] + (y + 1) * cellSize[1]
+    );
+}
+
+/** Centre of a cell in unscaled canvas coordinates */
+export function cellCenter(grid: CellGrid, x: number, y: number): Coord {
+  const corners = cellCorners(grid)(x, y);
+  return [
+    (corners[0][0] + corners[1][0] + corners[2][0] + corners[3][0]) / 4,
+    (corners[0][1] + corners[1][1] + corners[2][1] + corners[3][1]) / 4
+  ];
+}
+
+// The parts of the grid parameters that give its extent
+type GridExtent = Pick<
+  GridParams,
+  | "canvasSize"
+  | "maxCells"
+  | "cellSize"
+  | "gridOffset"
+  | "perspective"
+  | "boundaries"
+>;
+
+/** Extent of the grid in cells */
+export function gridCellCount({
+  canvasSize,
+  maxCells,
+  cellSize,
+  gridOffset,
+  perspective,
+  boundaries
+}: GridExtent): Coord {
+  if (perspective) {
+    return perspective.cells;
+  }
+
+  if (boundaries) {
+    return boundaryCellCount(boundaries);
+  }
+
+  return [
+    Math.max(
+      0,
+      Math.min(
+        maxCells[0],
+        Math.floor((canvasSize[0] - gridOffset[0]) / cellSize[0])
+      )
+    ),
+    Math.max(
+      0,
+      Math.min(
+        maxCells[1],
+        Math.floor((canvasSize[1] - gridOffset[1]) / cellSize[1])
+      )
+    )
+  ];
+}
+
+// The parts of the grid parameters that place the lines of an axis aligned
+// grid
+type AxisAlignedGrid = Pick<
+  GridParams,
+  "canvasSize" | "maxCells" | "cellSize" | "gridOffset" | "boundaries"
+>;
+
+/**
+ * Positions of the vertical (columns) and horizontal (rows) lines of an
+ * axis aligned grid in unscaled canvas coordinates, from the left and top
+ * edges of the grid to the right and bottom ones
+ */
+export function gridLines(
+  grid: AxisAlignedGrid
+): {
+  columns: number[];
+  rows: number[];
+} {
+  const { cellSize, gridOffset, boundaries } = grid;
+
+  if (boundaries) {
+    return { columns: boundaries.columns, rows: boundaries.rows };
+  }
+
+  const count = gridCellCount(grid);
+  const lines = (axis: 0 | 1) => {
+    const positions: number[] = [];
+    for (let i = 0; i <= count[axis]; ++i) {
+      positions.push(gridOffset[axis] + i * cellSize[axis]);
+    }
+    return positions;
+  };
+
+  return { columns: lines(0), rows: lines(1) };
+}
+
+/**
+ * The cell containing a point in unscaled canvas coordinates, or undefined
+ * outside the grid
+ */
+export function cellAt(gridParams: GridExtent, point: Coord) {
+  const { cellSize, gridOffset, perspective, boundaries } = gridParams;
+  const count = gridCellCount(gridParams);
+
+  let cell: Coord;
+
+  if (perspective) {
+    const inCells = project(invert(cellToCanvas(perspective)), point);
+    cell = [Math.floor(inCells[0]), Math.floor(inCells[1])];
+  } else if (boundaries) {
+    const indexOf = (lines: number[], position: number) => {
+      for (let i = 0; i < lines.length - 1; ++i) {
+        if (position >= lines[i] && position < lines[i + 1]) {
+          return i;
+        }
+      }
+      return -1;
+    };
+
+    cell = [
+      indexOf(boundaries.columns, point[0]),
+      indexOf(boundaries.rows, point[1])
+    ];
+  } else {
+    cell = [
+      Math.floor((point[0] - gridOffset[0]) / cellSize[0]),
+      Math.floor((point[1] - gridOffset[1]) / cellSize[1])
+    ];
+  }
+
+  return cell[0] >= 0 &&
+    cell[1] >= 0 &&
+    cell[0] < count[0] &&
+    cell[1] < count[1]
+    ? cell
+    : undefined;
+}
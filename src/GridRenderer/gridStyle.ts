@@ -0,0 +1,30 @@
+import { GridStyle, LineColor } from "./rendererTypes";
+
+// White lines dashed with black, with a cyan outline
+export const defaultGridStyle: GridStyle = {
+  lineColor: [255, 255, 255],
+  dashColor: [0, 0, 0],
+  majorColor: [255, 64, 64],
+  outlineColor: [0, 255, 255],
+  opacity: 1,
+  dashed: true,
+  majorEvery: 0,
+  rulers: false
+};
+
+export function cssColor([r, g, b]: LineColor) {
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/** True for lines that get the major colour, by their index from the top left */
+export function isMajorLine(index: number, { majorEvery }: GridStyle) {
+  return majorEvery > 0 && index % majorEvery === 0;
+}
+
+// Other grids are drawn at this fraction of the style's opacity
+const otherGridOpacity = 0.35;
+
+/** Style of the grids drawn under the active grid */
+export function otherGridStyle(style: GridStyle): GridStyle {
+  return { ...style, opacity: style.opacity * otherGridOpacity };
+}
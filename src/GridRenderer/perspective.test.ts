@@ -0,0 +1,87 @@
+import {
+  cellToCanvas,
+  invert,
+  isConvexQuad,
+  multiply,
+  perspectiveFromGrid,
+  project,
+  squareToQuad
+} from "./perspective";
+import { Coord, PerspectiveGrid } from "./rendererTypes";
+
+const identity = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const quad: PerspectiveGrid["corners"] = [
+  [10, 5],
+  [50, 0],
+  [60, 40],
+  [0, 30]
+];
+
+// Rounded, without negative zeros
+const close = (values: number[]) =>
+  values.map((value) => +value.toFixed(6) + 0);
+
+describe("perspective", () => {
+  it("maps the unit square onto the quad's corners", () => {
+    const m = squareToQuad(quad);
+    const square: Coord[] = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1]
+    ];
+
+    square.forEach((corner, i) => {
+      expect(close(project(m, corner))).toEqual(quad[i]);
+    });
+  });
+
+  it("inverts homographies up to scale", () => {
+    const m = squareToQuad(quad);
+    const product = multiply(m, invert(m));
+
+    expect(close(product.map((value) => value / product[8]))).toEqual(identity);
+    expect(close(project(invert(m), [60, 40]))).toEqual([1, 1]);
+  });
+
+  it("maps cell coordinates to the canvas", () => {
+    const grid: PerspectiveGrid = { corners: quad, cells: [4, 2] };
+    const m = cellToCanvas(grid);
+
+    expect(close(project(m, [4, 2]))).toEqual([60, 40]);
+    expect(close(project(m, [0, 2]))).toEqual([0, 30]);
+  });
+
+  it("makes a perspective grid from an axis aligned one", () => {
+    const grid = perspectiveFromGrid([5, 4], [2, 1], [4, 3]);
+
+    expect(grid).toEqual({
+      corners: [
+        [2, 1],
+        [22, 1],
+        [22, 13],
+        [2, 13]
+      ],
+      cells: [4, 3]
+    });
+    expect(close(project(cellToCanvas(grid), [1.5, 2]))).toEqual([9.5, 9]);
+  });
+
+  it("accepts convex quads in either winding", () => {
+    expect(isConvexQuad(quad)).toBe(true);
+    expect(isConvexQuad([quad[3], quad[2], quad[1], quad[0]])).toBe(true);
+  });
+
+  it("rejects concave and crossed quads", () => {
+    expect(
+      isConvexQuad([
+        [0, 0],
+        [10, 0],
+        [2, 2],
+        [0, 10]
+      ])
+    ).toBe(false);
+    expect(isConvexQuad([quad[0], quad[2], quad[1], quad[3]])).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import { Coord, PerspectiveGrid } from "./rendererTypes";
+
+// A 3x3 matrix in row major order, mapping [x, y, 1] to homogeneous
+// coordinates
+export type Homography = number[];
+
+export function multiply(a: Homography, b: Homography): Homography {
+  const result: Homography = [];
+
+  for (let row = 0; row < 3; ++row) {
+    for (let column = 0; column < 3; ++column) {
+      result.push(
+        a[row * 3] * b[column] +
+          a[row * 3 + 1] * b[3 + column] +
+          a[row * 3 + 2] * b[6 + column]
+      );
+    }
+  }
+
+  return result;
+}
+
+export function invert(m: Homography): Homography {
+  // Adjugate; the scale of a homography doesn't matter so there's no need
+  // to divide by the determinant
+  return [
+    m[4] * m[8] - m[5] * m[7],
+    m[2] * m[7] - m[1] * m[8],
+    m[1] * m[5] - m[2] * m[4],
+    m[5] * m[6] - m[3] * m[8],
+    m[0] * m[8] - m[2] * m[6],
+    m[2] * m[3] - m[0] * m[5],
+    m[3] * m[7] - m[4] * m[6],
+    m[1] * m[6] - m[0] * m[7],
+    m[0] * m[4] - m[1] * m[3]
+  ];
+}
+
+export function project(m: Homography, [x, y]: Coord): Coord {
+  const w = m[6] * x + m[7] * y + m[8];
+  return [(m[0] * x + m[1] * y + m[2]) / w, (m[3] * x + m[4] * y + m[5]) / w];
+}
+
+/**
+ * Homography mapping the unit square to a quad, with (0, 0) mapped to the
+ * first corner and going clockwise.
+ */
+export function squareToQuad([
+  [x0, y0],
+  [x1, y1],
+  [x2, y2],
+  [x3, y3]
+]: PerspectiveGrid["corners"]): Homography {
+  const dx1 = x1 - x2;
+  const dx2 = x3 - x2;
+  const dx3 = x0 - x1 + x2 - x3;
+  const dy1 = y1 - y2;
+  const dy2 = y3 - y2;
+  const dy3 = y0 - y1 + y2 - y3;
+
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+
+  return [
+    x1 - x0 + g * x1,
+    x3 - x0 + h * x3,
+    x0,
+    y1 - y0 + g * y1,
+    y3 - y0 + h * y3,
+    y0,
+    g,
+    h,
+    1
+  ];
+}
+
+/** Homography mapping cell coordinates to canvas coordinates */
+export function cellToCanvas({ corners, cells }: PerspectiveGrid): Homography {
+  return multiply(squareToQuad(corners), [
+    1 / cells[0],
+    0,
+    0,
+    0,
+    1 / cells[1],
+    0,
+    0,
+    0,
+    1
+  ]);
+}
+
+/** True if the corners form a convex quad, which a homography needs */
+export function isConvexQuad(corners: PerspectiveGrid["corners"]) {
+  let sign = 0;
+
+  for (let i = 0; i < 4; ++i) {
+    const [ax, ay] = corners[i];
+    const [bx, by] = corners[(i + 1) % 4];
+    const [cx, cy] = corners[(i + 2) % 4];
+    const cross = (bx - ax) * (cy - by) - (by - ay) * (cx - bx);
+
+    if (cross === 0 || (sign !== 0 && Math.sign(cross) !== sign)) {
+      return false;
+    }
+    sign = Math.sign(cross);
+  }
+
+  return true;
+}
+
+/** Perspective grid covering the same cells as an axis aligned grid */
+export function perspectiveFromGrid(
+  cellSize: Coord,
+  gridOffset: Coord,
+  cells: Coord
+): PerspectiveGrid {
+  const right = gridOffset[0] + cellSize[0] * cells[0];
+  const bottom = gridOffset[1] + cellSize[1] * cells[1];
+
+  return {
+    corners: [
+      [gridOffset[0], gridOffset[1]],
+      [right, gridOffset[1]],
+      [right, bottom],
+      [gridOffset[0], bottom]
+    ],
+    cells
+  };
+}
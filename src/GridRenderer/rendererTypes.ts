@@ -1,5 +1,65 @@
 export type Coord = [number, number];
 
+// Tiles group cells into blocks of tileSize cells, such as the glyphs of a
+// font sheet. All sizes are in cells.
+export interface TileParams {
+  tileSize: Coord;
+  spacing: Coord; // Cells between neighbouring tiles
+  margin: Coord; // Cells before the first tile
+}
+
+// A grid warped by perspective, such as a photo of a screen taken at an
+// angle. The corners are in unscaled canvas coordinates, in the order top
+// left, top right, bottom right, bottom left.
+export interface PerspectiveGrid {
+  corners: [Coord, Coord, Coord, Coord];
+  cells: Coord; // Number of cells across and down
+}
+
+// A grid with explicit cell boundaries, for images scaled by a non-integer
+// factor where cells alternate between sizes. Boundaries are increasing
+// whole canvas pixels, with one more boundary than there are cells.
+export interface BoundaryGrid {
+  columns: number[];
+  rows: number[];
+}
+
+// A view onto part of the scaled grid, in canvas pixels. The canvas is
+// size pixels, with its top left at offset in the scaled grid.
+export interface ViewTransform {
+  offset: Coord;
+  size: Coord;
+}
+
+// Colour with 0 - 255 channels
+export type LineColor = [number, number, number];
+
+// How grid lines are drawn. Lines on the outline of the grid take the
+// outline colour, major lines every majorEvery cells (0 for none) the major
+// colour, and the rest the line colour. Dashed lines alternate pixels of
+// that colour with the dash colour.
+export interface GridStyle {
+  lineColor: LineColor;
+  dashColor: LineColor;
+  majorColor: LineColor;
+  outlineColor: LineColor;
+  opacity: number; // 0 - 1
+  dashed: boolean;
+  majorEvery: number;
+
+  // Label the cells along the top and left edges of the view
+  rulers: boolean;
+}
+
+// Cells tinted under the grid lines, such as cells the extractor was unsure
+// about. The mask is row major over the grid's width x height cells, with
+// 0 for plain cells, 1 for highlighted cells and 2 for the selected cell.
+export interface CellHighlights {
+  width: number;
+  height: number;
+  mask: Uint8Array;
+}
+
 // The extent of the grid (in cells) is first calculated by
 // counting how many cells will fit in the canvas. If the calculated
 // extent exceeds maxCells, then the extent is reduced to maxCells.
@@ -11,5 +71,46 @@ export interface GridParams {
   gridOffset: Coord; // Offset to start of grid within canvas
 
   // The entire grid is scaled by the renderScale
-  renderScale: number; // Integer
+  renderScale: number; // May be fractional
+
+  // Without a view, the canvas covers the entire scaled grid
+  view?: ViewTransform;
+
+  // Optional tile boundaries, drawn as a heavier layer over the grid
+  tiles?: TileParams;
+
+  // When set, replaces the axis aligned grid described by maxCells,
+  // cellSize and gridOffset
+  perspective?: PerspectiveGrid;
+
+  // Also replaces the axis aligned grid, but is ignored when perspective
+  // is set
+  boundaries?: BoundaryGrid;
+
+  highlights?: CellHighlights;
+
+  // Defaults to defaultGridStyle
+  style?: GridStyle;
+
+  // Further grids on the same canvas, such as the other regions of the
+  // image. They are drawn dimmed under this grid, without tiles or
+  // highlights.
+  otherGrids?: GridPlacement[];
+}
+
+// The parts of the grid parameters that place one grid on the canvas
+export type GridPlacement = Pick<
+  GridParams,
+  "maxCells" | "cellSize" | "gridOffset" | "perspective" | "boundaries"
+>;
+
+// A grid drawing backend, bound to one canvas for its lifetime
+export interface Renderer {
+  readonly canvas: HTMLCanvasElement;
+
+  render(gridParams: GridParams): void;
+
+  // Free the resources held by the renderer. Rendering afterwards does
+  // nothing.
+  dispose(): void;
 }
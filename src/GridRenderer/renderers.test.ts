@@ -0,0 +1,294 @@
+import { boundaryCellCount } from "./boundaries";
+import { renderGrid } from "./canvas2DRenderer";
+import { gridCellCount } from "./cellGeometry";
+import { cssColor, defaultGridStyle, isMajorLine } from "./gridStyle";
+import { Coord, GridParams, LineColor } from "./rendererTypes";
+import { WebGLRenderer } from "./webGLRenderer";
+
+// Positions of the vertical and horizontal lines of an axis aligned grid,
+// in canvas pixels, split by how they are styled
+interface AxisLines {
+  columns: number[];
+  rows: number[];
+  majorColumns: number[];
+  majorRows: number[];
+}
+
+const sorted = (values: number[]) =>
+  values
+    .filter((value, i) => values.indexOf(value) === i)
+    .sort((a, b) => a - b);
+
+type Segment = [Coord, Coord];
+
+// Records the segments added to a path
+class PathStub {
+  public segments: Segment[] = [];
+  private position: Coord = [0, 0];
+
+  public moveTo(x: number, y: number) {
+    this.position = [x, y];
+  }
+
+  public lineTo(x: number, y: number) {
+    this.segments.push([this.position, [x, y]]);
+    this.position = [x, y];
+  }
+
+  public rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.lineTo(x, y);
+  }
+
+  public closePath() {}
+}
+
+/** Segments of the grid lines drawn by the 2D renderer, by stroke style */
+function canvas2DSegments(params: GridParams) {
+  const strokes: { [style: string]: Segment[] } = {};
+  const ctx = {
+    strokeStyle: "",
+    clearRect() {},
+    translate() {},
+    save() {},
+    restore() {},
+    setLineDash() {},
+    beginPath() {},
+    rect() {},
+    fill() {},
+    stroke(path?: PathStub) {
+      // Tiles are stroked without a path
+      if (path) {
+        strokes[this.strokeStyle] = (strokes[this.strokeStyle] || []).concat(
+          path.segments
+        );
+      }
+    }
+  };
+  const canvas = { getContext: () => ctx };
+
+  const globals = (window as unknown) as { Path2D: unknown };
+  const path2D = globals.Path2D;
+  globals.Path2D = PathStub;
+  try {
+    renderGrid((canvas as unknown) as HTMLCanvasElement, params);
+  } finally {
+    globals.Path2D = path2D;
+  }
+
+  return strokes;
+}
+
+/**
+ * Lines drawn by the 2D renderer. Lines are drawn through the middle of
+ * the pixel after their position.
+ */
+function canvas2DLines(params: GridParams): AxisLines {
+  const style = params.style || defaultGridStyle;
+  const strokes = canvas2DSegments(params);
+  const all = [style.lineColor, style.majorColor, style.outlineColor]
+    .map((color) => strokes[cssColor(color)] || [])
+    .reduce((all, segments) => all.concat(segments));
+  const major = strokes[cssColor(style.majorColor)] || [];
+
+  const positions = (segments: Segment[], axis: 0 | 1) =>
+    sorted(
+      segments
+        .filter(([from, to]) => from[axis] === to[axis])
+        .map(([from]) => from[axis] - 0.5)
+    );
+
+  return {
+    columns: positions(all, 0),
+    rows: positions(all, 1),
+    majorColumns: positions(major, 0),
+    majorRows: positions(major, 1)
+  };
+}
+
+/** Uniforms and boundary texels the WebGL renderer last drew with */
+function webGLUniforms(params: GridParams) {
+  const uniforms: { [name: string]: number[] } = {};
+  let boundaryTexels = new Uint8Array(0);
+
+  const methods: { [name: string]: (...args: never[]) => unknown } = {
+    getUniformLocation: (program: unknown, name: string) => name,
+    getShaderParameter: () => true,
+    getProgramParameter: () => true,
+    getParameter: () => 4096,
+    uniform1f: (name: string, value: number) => (uniforms[name] = [value]),
+    uniform2fv: (name: string, value: number[]) =>
+      (uniforms[name] = Array.from(value)),
+    uniform3fv: (name: string, value: number[]) =>
+      (uniforms[name] = Array.from(value)),
+    texImage2D: (...args: unknown[]) => {
+      // Only the boundaries texture is two texels high
+      if (args[4] === 2) {
+        boundaryTexels = args[8] as Uint8Array;
+      }
+    }
+  };
+
+  // Everything else does nothing and returns a placeholder object
+  const gl = new Proxy(methods, {
+    get: (target, name: string) => target[name] || (() => ({}))
+  });
+  const canvas = {
+    getContext: () => gl,
+    addEventListener() {},
+    removeEventListener() {}
+  };
+
+  const renderer = new WebGLRenderer((canvas as unknown) as HTMLCanvasElement);
+  renderer.render(params);
+  renderer.dispose();
+
+  return { uniforms, boundaryTexels };
+}
+
+/**
+ * Lines of a uniform grid drawn by the WebGL renderer. The shader draws
+ * them every uGridCellSize from uGridBottomLeft, with the y axis pointing
+ * up.
+ */
+function webGLLines(params: GridParams): AxisLines {
+  const { uniforms } = webGLUniforms(params);
+  const [left, bottom] = uniforms.uGridBottomLeft;
+  const cellSize = uniforms.uGridCellSize;
+  const cellCount = uniforms.uGridCellCount;
+  const top = uniforms.uCanvasHeight[0] - bottom - cellCount[1] * cellSize[1];
+  const majorEvery = uniforms.uMajorEvery[0];
+
+  const lines = (start: number, axis: 0 | 1, major: boolean) => {
+    const positions: number[] = [];
+    for (let i = 0; i <= cellCount[axis]; ++i) {
+      const inside = i > 0 && i < cellCount[axis];
+      if (
+        !major ||
+        (inside && isMajorLine(i, { ...defaultGridStyle, majorEvery }))
+      ) {
+        positions.push(Math.round(start + i * cellSize[axis]));
+      }
+    }
+    return positions;
+  };
+
+  return {
+    columns: lines(left, 0, false),
+    rows: lines(top, 1, false),
+    majorColumns: lines(left, 0, true),
+    majorRows: lines(top, 1, true)
+  };
+}
+
+const baseParams: GridParams = {
+  canvasSize: [100, 80],
+  maxCells: [10, 20],
+  cellSize: [7.25, 6],
+  gridOffset: [3.5, 2],
+  renderScale: 2,
+  style: { ...defaultGridStyle, dashed: false, majorEvery: 4 }
+};
+
+describe("grid renderers", () => {
+  it("draw the same lines for a uniform grid", () => {
+    const lines = canvas2DLines(baseParams);
+
+    expect(lines).toEqual(webGLLines(baseParams));
+    expect(lines.columns.length).toBe(11);
+    expect(lines.rows.length).toBe(14);
+    expect(lines.majorColumns.length).toBe(2);
+  });
+
+  it("draw the same lines for a grid cut short by maxCells", () => {
+    const params = { ...baseParams, maxCells: [3, 2] as Coord };
+
+    expect(canvas2DLines(params)).toEqual(webGLLines(params));
+  });
+
+  it("draw the same lines for a boundary grid", () => {
+    const boundaries = { columns: [2, 9, 15, 22, 30], rows: [1, 8, 14] };
+    const params = { ...baseParams, boundaries };
+    const { columns, rows } = canvas2DLines(params);
+
+    // The shader finds the lines by the cell offsets in the boundaries
+    // texture, one texel per unscaled pixel, with a row per axis
+    const { uniforms, boundaryTexels } = webGLUniforms(params);
+    const width = uniforms.uBoundariesWidth[0];
+    const texelLines = (axis: number) => {
+      const lines: number[] = [];
+      for (let x = 0; x < width; ++x) {
+        const i = (axis * width + x) * 4;
+        if (boundaryTexels[i] === 0 && boundaryTexels[i + 3] > 0) {
+          lines.push(x * params.renderScale);
+        }
+      }
+      return lines;
+    };
+
+    expect(columns).toEqual(texelLines(0));
+    expect(rows).toEqual(texelLines(1));
+    expect(uniforms.uGridCellCount).toEqual(boundaryCellCount(boundaries));
+  });
+
+  it("draw the same lines for a perspective grid", () => {
+    const perspective = {
+      corners: [
+        [10, 5],
+        [50, 0],
+        [60, 40],
+        [0, 30]
+      ] as [Coord, Coord, Coord, Coord],
+      cells: [4, 3] as Coord
+    };
+    const params = { ...baseParams, perspective };
+    const style = baseParams.style!;
+
+    // The shader maps each fragment to cell coordinates, so map the ends of
+    // the 2D renderer's lines the same way. Each line should have a whole
+    // cell x or y along its length.
+    const { uniforms } = webGLUniforms(params);
+    const height = uniforms.uCanvasHeight[0];
+    const toCell = ([x, y]: Coord) => {
+      const p = [x, height - y, 1];
+      const dot = (row: number[]) =>
+        row[0] * p[0] + row[1] * p[1] + row[2] * p[2];
+      const w = dot(uniforms.uCanvasToCellW);
+      return [
+        dot(uniforms.uCanvasToCellX) / w,
+        dot(uniforms.uCanvasToCellY) / w
+      ].map((value) => +value.toFixed(4) + 0) as Coord;
+    };
+
+    const strokes = canvas2DSegments(params);
+    const linesOf = (color: LineColor) => {
+      const columns: number[] = [];
+      const rows: number[] = [];
+      for (const segment of strokes[cssColor(color)] || []) {
+        const [from, to] = segment.map(toCell);
+        if (from[0] === to[0]) {
+          columns.push(from[0]);
+        } else {
+          expect(from[1]).toBe(to[1]);
+          rows.push(from[1]);
+        }
+      }
+      return { columns: sorted(columns), rows: sorted(rows) };
+    };
+
+    expect(linesOf(style.lineColor)).toEqual({
+      columns: [1, 2, 3],
+      rows: [1, 2]
+    });
+    expect(linesOf(style.outlineColor)).toEqual({
+      columns: [0, 4],
+      rows: [0, 3]
+    });
+    expect(linesOf(style.majorColor)).toEqual({ columns: [], rows: [] });
+    expect(uniforms.uPerspective).toEqual([1]);
+    expect(uniforms.uGridCellCount).toEqual(gridCellCount(params));
+  });
+});
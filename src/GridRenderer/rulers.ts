@@ -0,0 +1,104 @@
+import { cellCorners, gridCellCount } from "./cellGeometry";
+import { defaultGridStyle } from "./gridStyle";
+import { Coord, GridParams } from "./rendererTypes";
+
+// Height of the top ruler and width of the left ruler, in pixels
+const rulerSize: Coord = [32, 16];
+
+// Labels are spaced at least this many pixels apart
+const minLabelSpacing = 32;
+
+// Label every step cells, picking the smallest step from 1, 2, 5, 10, 20,
+// 50 and so on that spaces labels far enough apart
+function labelStep(cellPixels: number) {
+  if (!(cellPixels > 0)) {
+    return 1;
+  }
+
+  for (let step = 1; ; step *= 10) {
+    for (const multiple of [1, 2, 5]) {
+      if (step * multiple * cellPixels >= minLabelSpacing) {
+        return step * multiple;
+      }
+    }
+  }
+}
+
+/**
+ * Label the columns and rows of the grid with their indices, along the top
+ * and left edges of a canvas laid over the grid canvas. The canvas is
+ * cleared when the grid style has no rulers.
+ *
+ * Rulers are drawn separately from the grid so that they look the same
+ * whichever renderer draws the grid.
+ */
+export function renderRulers(
+  canvas: HTMLCanvasElement,
+  gridParams: GridParams
+) {
+  const {
+    canvasSize,
+    renderScale,
+    view,
+    style = defaultGridStyle
+  } = gridParams;
+
+  canvas.width = Math.round(view ? view.size[0] : canvasSize[0] * renderScale);
+  canvas.height = Math.round(view ? view.size[1] : canvasSize[1] * renderScale);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx || !style.rulers) {
+    return;
+  }
+
+  const [columns, rows] = gridCellCount(gridParams);
+  if (columns === 0 || rows === 0) {
+    return;
+  }
+
+  // Centres of the cells along the top and left edges of the grid, in
+  // canvas pixels
+  const corners = cellCorners(gridParams);
+  const viewOffset = view ? view.offset : [0, 0];
+  const center = (x: number, y: number, axis: 0 | 1) => {
+    const cell = corners(x, y);
+    const sum = cell[0][axis] + cell[1][axis] + cell[2][axis] + cell[3][axis];
+    return Math.round((renderScale * sum) / 4 - viewOffset[axis]);
+  };
+
+  const columnAt = (x: number) => center(x, 0, 0);
+  const rowAt = (y: number) => center(0, y, 1);
+
+  ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+  ctx.fillRect(0, 0, canvas.width, rulerSize[1]);
+  ctx.fillRect(0, rulerSize[1], rulerSize[0], canvas.height - rulerSize[1]);
+
+  ctx.fillStyle = "white";
+  ctx.font = "10px sans-serif";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  const columnStep = labelStep(
+    columns > 1
+      ? Math.abs(columnAt(columns - 1) - columnAt(0)) / (columns - 1)
+      : minLabelSpacing
+  );
+  for (let x = 0; x < columns; x += columnStep) {
+    const position = columnAt(x);
+    if (position >= rulerSize[0] && position < canvas.width) {
+      ctx.fillText(String(x), position, rulerSize[1] / 2);
+    }
+  }
+
+  const rowStep = labelStep(
+    rows > 1
+      ? Math.abs(rowAt(rows - 1) - rowAt(0)) / (rows - 1)
+      : minLabelSpacing
+  );
+  for (let y = 0; y < rows; y += rowStep) {
+    const position = rowAt(y);
+    if (position >= rulerSize[1] && position < canvas.height) {
+      ctx.fillText(String(y), rulerSize[0] / 2, position);
+    }
+  }
+}
@@ -1,4 +1,8 @@
-import { GridParams } from "./rendererTypes";
+import { gridCellCount } from "./cellGeometry";
+import { cellToCanvas, invert, multiply } from "./perspective";
+import { defaultGridStyle, otherGridStyle } from "./gridStyle";
+import { BoundaryGrid, GridParams, LineColor, Renderer } from "./rendererTypes";
+import { tileCount } from "../Tiles/tiles";
 
 // Vertex shader program
 
@@ -17,7 +21,127 @@ const fsSource = `
   uniform vec2 uGridCellSize;
   uniform vec2 uGridCellCount;
 
-  void main() {
+  // Perspective grids map canvas pixels to cells with a homography, given
+  // as the rows of its matrix. uPerspective is 1.0 when it's used.
+  uniform float uPerspective;
+  uniform vec3 uCanvasToCellX;
+  uniform vec3 uCanvasToCellY;
+  uniform vec3 uCanvasToCellW;
+
+  // Boundary grids look up the cell containing each canvas pixel in
+  // uBoundaries, with a row of texels per axis. Each texel holds the
+  // offset into the cell (r), the cell index (g * 256 + b) and the cell
+  // size (a), in canvas pixels. A cell size of zero is outside the grid.
+  // uUseBoundaries is 1.0 when it's used.
+  uniform float uUseBoundaries;
+  uniform sampler2D uBoundaries;
+  uniform float uBoundariesWidth;
+  uniform float uRenderScale;
+  uniform float uCanvasHeight;
+  uniform vec2 uViewOffset;
+
+  // Tile layer, in cells from the top left of the grid. uTileCount is zero
+  // when there are no tiles.
+  uniform vec2 uTileMargin;
+  uniform vec2 uTileSize;
+  uniform vec2 uTileSpacing;
+  uniform vec2 uTileCount;
+
+  // Grid style, as described by GridStyle. Colours are 0 - 1.
+  uniform vec3 uLineColor;
+  uniform vec3 uDashColor;
+  uniform vec3 uMajorColor;
+  uniform vec3 uOutlineColor;
+  uniform float uOpacity;
+  uniform float uDashed;
+  uniform float uMajorEvery;
+
+  // Highlighted cells, one texel per cell holding the highlight mask value
+  // times 127. uUseHighlights is 1.0 when there are highlights.
+  uniform float uUseHighlights;
+  uniform sampler2D uHighlights;
+  uniform vec2 uHighlightsSize;
+
+  // Cells from the top left of the grid, and the size of a canvas pixel in
+  // cells. Lines are drawn by converting distances in cells to pixels.
+  vec2 cell;
+  vec2 pixelInCells;
+
+  void perspectiveCell() {
+    vec3 p = vec3(gl_FragCoord.xy, 1.0);
+    float w = dot(uCanvasToCellW, p);
+
+    cell = vec2(dot(uCanvasToCellX, p), dot(uCanvasToCellY, p)) / w;
+    pixelInCells = vec2(
+      length(uCanvasToCellX.xy - cell.x * uCanvasToCellW.xy),
+      length(uCanvasToCellY.xy - cell.y * uCanvasToCellW.xy)
+    ) / abs(w);
+  }
+
+  // Returns false outside the grid
+  bool boundaryCell() {
+    vec2 source = (
+      vec2(gl_FragCoord.x, uCanvasHeight - gl_FragCoord.y) + uViewOffset
+    ) / uRenderScale;
+    vec2 texel = (floor(source) + 0.5) / uBoundariesWidth;
+
+    vec4 column = floor(texture2D(uBoundaries, vec2(texel.x, 0.25)) * 255.0 + 0.5);
+    vec4 row = floor(texture2D(uBoundaries, vec2(texel.y, 0.75)) * 255.0 + 0.5);
+
+    vec2 offset = vec2(column.r, row.r) + fract(source);
+    vec2 index = vec2(column.g, row.g) * 256.0 + vec2(column.b, row.b);
+    vec2 size = max(vec2(column.a, row.a), 1.0);
+
+    cell = index + offset / size;
+    pixelInCells = 1.0 / (size * uRenderScale);
+
+    return column.a > 0.0 && row.a > 0.0;
+  }
+
+  bool isMajorLine(float index) {
+    return uMajorEvery > 0.5 && mod(index + 0.5, uMajorEvery) < 1.0;
+  }
+
+  // Colour of a pixel on a line of each axis, with line indices counted
+  // from the top left of the grid. Premultiplied by alpha.
+  vec4 lineColor(bool lineX, bool lineY, vec2 lineIndex, bool outline, float dashPhase) {
+    if (!(lineX || lineY)) {
+      return vec4(0.0);
+    }
+
+    vec3 color = uLineColor;
+    if (outline) {
+      color = uOutlineColor;
+    } else if ((lineX && isMajorLine(lineIndex.x)) || (lineY && isMajorLine(lineIndex.y))) {
+      color = uMajorColor;
+    }
+
+    if (uDashed > 0.5 && dashPhase < 0.5) {
+      color = uDashColor;
+    }
+
+    return vec4(color, 1.0) * uOpacity;
+  }
+
+  vec4 cellGridColor() {
+    // Signed distances in pixels to the nearest line, which is drawn on
+    // the pixel after it
+    vec2 lineDistance = (cell - floor(cell + 0.5)) / pixelInCells;
+    vec2 edgeDistance = min(cell, uGridCellCount - cell) / pixelInCells;
+    float insideDistance = min(edgeDistance.x, edgeDistance.y);
+
+    bool gridArea = insideDistance >= -0.5;
+    bool gridInnerArea = insideDistance > 0.5;
+
+    bool lineX = gridArea && lineDistance.x > -0.5 && lineDistance.x <= 0.5;
+    bool lineY = gridArea && lineDistance.y > -0.5 && lineDistance.y <= 0.5;
+
+    float dashPhase = mod(gl_FragCoord.x + gl_FragCoord.y, 2.0) < 1.0 ? 1.0 : 0.0;
+
+    return lineColor(lineX, lineY, floor(cell + 0.5), !gridInnerArea, dashPhase);
+  }
+
+  vec4 gridColor() {
     vec2 coordInGridSpace = vec2(gl_FragCoord.x, gl_FragCoord.y) - uGridBottomLeft;
     vec2 uGridTopRightInGridSpace = uGridCellSize * uGridCellCount;
 
@@ -29,18 +153,83 @@ const fsSource = `
       step(1.0, coordInGridSpace.x) * (1.0 - step(uGridTopRightInGridSpace.x, coordInGridSpace.x)) *
       step(1.0, coordInGridSpace.y) * (1.0 - step(uGridTopRightInGridSpace.y, coordInGridSpace.y));
 
-    float gridLine = (
-      mod(coordInGridSpace.x, uGridCellSize.x) <= 1.0 ||
-      mod(coordInGridSpace.y, uGridCellSize.y) <= 1.0
-    )
-    ? gridArea
-    : 0.0;
-    
+    bool lineX = gridArea > 0.5 && mod(coordInGridSpace.x, uGridCellSize.x) <= 1.0;
+    bool lineY = gridArea > 0.5 && mod(coordInGridSpace.y, uGridCellSize.y) <= 1.0;
+
+    // Rows are counted down from the top
+    vec2 lineIndex = vec2(
+      floor(coordInGridSpace.x / uGridCellSize.x),
+      uGridCellCount.y - floor(coordInGridSpace.y / uGridCellSize.y)
+    );
+
     float dashPhase = mod(coordInGridSpace.x + coordInGridSpace.y, 2.0) < 1.0 ? 1.0 : 0.0;
 
-    float lum = gridLine * dashPhase;
+    cell = vec2(
+      coordInGridSpace.x,
+      uGridTopRightInGridSpace.y - coordInGridSpace.y
+    ) / uGridCellSize;
+    pixelInCells = 1.0 / uGridCellSize;
 
-    gl_FragColor = vec4(lum * gridInnerArea, lum, lum, gridLine);
+    return lineColor(lineX, lineY, lineIndex, gridInnerArea < 0.5, dashPhase);
+  }
+
+  void main() {
+    vec4 color;
+
+    if (uPerspective > 0.5) {
+      perspectiveCell();
+      color = cellGridColor();
+    } else if (uUseBoundaries > 0.5) {
+      if (boundaryCell()) {
+        color = cellGridColor();
+      } else {
+        cell = vec2(-1.0);
+        color = vec4(0.0);
+      }
+    } else {
+      color = gridColor();
+    }
+
+    // Tint highlighted cells under the grid lines. Colours are
+    // premultiplied by alpha.
+    vec2 highlightCell = floor(cell);
+    if (
+      uUseHighlights > 0.5 &&
+      all(greaterThanEqual(highlightCell, vec2(0.0))) &&
+      all(lessThan(highlightCell, uHighlightsSize))
+    ) {
+      float highlight = floor(
+        texture2D(uHighlights, (highlightCell + 0.5) / uHighlightsSize).r * 2.0 + 0.5
+      );
+      vec4 tint = highlight > 1.5
+        ? vec4(0.6, 0.0, 0.0, 0.6)
+        : vec4(0.4, 0.2, 0.0, 0.4) * highlight;
+
+      color += tint * (1.0 - color.a);
+    }
+
+    vec2 coordInTileSpace = cell - uTileMargin;
+    vec2 tilePeriod = uTileSize + uTileSpacing;
+    vec2 tileIndex = floor(coordInTileSpace / tilePeriod);
+
+    // Position within the tile and size of the tile, in pixels
+    vec2 coordInTile = (coordInTileSpace - tileIndex * tilePeriod) / pixelInCells;
+    vec2 tileSize = uTileSize / pixelInCells;
+
+    float inTiles =
+      step(0.0, tileIndex.x) * step(tileIndex.x, uTileCount.x - 1.0) *
+      step(0.0, tileIndex.y) * step(tileIndex.y, uTileCount.y - 1.0);
+
+    bool tileEdgeX =
+      (coordInTile.x <= 2.0 || abs(coordInTile.x - tileSize.x) <= 1.0) &&
+      coordInTile.y <= tileSize.y + 1.0;
+    bool tileEdgeY =
+      (coordInTile.y <= 2.0 || abs(coordInTile.y - tileSize.y) <= 1.0) &&
+      coordInTile.x <= tileSize.x + 1.0;
+
+    float tileLine = (tileEdgeX || tileEdgeY) ? inTiles : 0.0;
+
+    gl_FragColor = mix(color, vec4(1.0, 0.0, 1.0, 1.0), tileLine);
   }
 `;
 
@@ -132,6 +321,30 @@ interface GridRendererProgramInfo {
     gridBottomLeft: WebGLUniformLocation;
     gridCellSize: WebGLUniformLocation;
     gridCellCount: WebGLUniformLocation;
+    perspective: WebGLUniformLocation;
+    canvasToCellX: WebGLUniformLocation;
+    canvasToCellY: WebGLUniformLocation;
+    canvasToCellW: WebGLUniformLocation;
+    useBoundaries: WebGLUniformLocation;
+    boundaries: WebGLUniformLocation;
+    boundariesWidth: WebGLUniformLocation;
+    renderScale: WebGLUniformLocation;
+    canvasHeight: WebGLUniformLocation;
+    viewOffset: WebGLUniformLocation;
+    tileMargin: WebGLUniformLocation;
+    tileSize: WebGLUniformLocation;
+    tileSpacing: WebGLUniformLocation;
+    tileCount: WebGLUniformLocation;
+    lineColor: WebGLUniformLocation;
+    dashColor: WebGLUniformLocation;
+    majorColor: WebGLUniformLocation;
+    outlineColor: WebGLUniformLocation;
+    opacity: WebGLUniformLocation;
+    dashed: WebGLUniformLocation;
+    majorEvery: WebGLUniformLocation;
+    useHighlights: WebGLUniformLocation;
+    highlights: WebGLUniformLocation;
+    highlightsSize: WebGLUniformLocation;
   };
 }
 
@@ -148,13 +361,42 @@ function createGridRendererProgram(
     uniformLocations: {
       gridBottomLeft: gl.getUniformLocation(shaderProgram, "uGridBottomLeft")!,
       gridCellSize: gl.getUniformLocation(shaderProgram, "uGridCellSize")!,
-      gridCellCount: gl.getUniformLocation(shaderProgram, "uGridCellCount")!
+      gridCellCount: gl.getUniformLocation(shaderProgram, "uGridCellCount")!,
+      perspective: gl.getUniformLocation(shaderProgram, "uPerspective")!,
+      canvasToCellX: gl.getUniformLocation(shaderProgram, "uCanvasToCellX")!,
+      canvasToCellY: gl.getUniformLocation(shaderProgram, "uCanvasToCellY")!,
+      canvasToCellW: gl.getUniformLocation(shaderProgram, "uCanvasToCellW")!,
+      useBoundaries: gl.getUniformLocation(shaderProgram, "uUseBoundaries")!,
+      boundaries: gl.getUniformLocation(shaderProgram, "uBoundaries")!,
+      boundariesWidth: gl.getUniformLocation(
+        shaderProgram,
+        "uBoundariesWidth"
+      )!,
+      renderScale: gl.getUniformLocation(shaderProgram, "uRenderScale")!,
+      canvasHeight: gl.getUniformLocation(shaderProgram, "uCanvasHeight")!,
+      viewOffset: gl.getUniformLocation(shaderProgram, "uViewOffset")!,
+      tileMargin: gl.getUniformLocation(shaderProgram, "uTileMargin")!,
+      tileSize: gl.getUniformLocation(shaderProgram, "uTileSize")!,
+      tileSpacing: gl.getUniformLocation(shaderProgram, "uTileSpacing")!,
+      tileCount: gl.getUniformLocation(shaderProgram, "uTileCount")!,
+      lineColor: gl.getUniformLocation(shaderProgram, "uLineColor")!,
+      dashColor: gl.getUniformLocation(shaderProgram, "uDashColor")!,
+      majorColor: gl.getUniformLocation(shaderProgram, "uMajorColor")!,
+      outlineColor: gl.getUniformLocation(shaderProgram, "uOutlineColor")!,
+      opacity: gl.getUniformLocation(shaderProgram, "uOpacity")!,
+      dashed: gl.getUniformLocation(shaderProgram, "uDashed")!,
+      majorEvery: gl.getUniformLocation(shaderProgram, "uMajorEvery")!,
+      useHighlights: gl.getUniformLocation(shaderProgram, "uUseHighlights")!,
+      highlights: gl.getUniformLocation(shaderProgram, "uHighlights")!,
+      highlightsSize: gl.getUniformLocation(shaderProgram, "uHighlightsSize")!
     }
   };
 }
 
 interface GridRendererBuffers {
   position: WebGLBuffer;
+  boundaries: WebGLTexture;
+  highlights: WebGLTexture;
 }
 
 // Create the buffers we need for the grid renderer
@@ -182,17 +424,72 @@ function createGridRendererBuffers(
   // Copy buffer vertices into GL buffer
   gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(bufferVerts), gl.STATIC_DRAW);
 
+  // Textures for boundary grids and highlights, filled in when drawing
+  const createLookupTexture = (name: string) => {
+    const texture = gl.createTexture();
+
+    if (!texture) {
+      throw new WebGLError(`Failed to create ${name} texture`);
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    return texture;
+  };
+
   return {
-    position: positionBuffer
+    position: positionBuffer,
+    boundaries: createLookupTexture("boundaries"),
+    highlights: createLookupTexture("highlights")
   };
 }
 
-function drawGridScene(
-  gl: WebGLRenderingContext,
-  programInfo: GridRendererProgramInfo,
-  gridRendererBuffers: GridRendererBuffers,
-  { canvasSize, maxCells, cellSize, gridOffset, renderScale }: GridParams
-) {
+/**
+ * Texels of the boundaries texture, as described for uBoundaries in the
+ * fragment shader. Offsets and sizes over 255 pixels are clamped, so very
+ * large cells aren't drawn correctly.
+ */
+function boundaryTexels({ columns, rows }: BoundaryGrid, width: number) {
+  const texels = new Uint8Array(width * 2 * 4);
+
+  [columns, rows].forEach((lines, axis) => {
+    const cells = lines.length - 1;
+
+    for (let index = 0; index <= cells; ++index) {
+      // The pixel after the last cell holds its closing line
+      const start = Math.round(lines[index]);
+      const end = index < cells ? Math.round(lines[index + 1]) : start + 1;
+      const size =
+        index < cells ? end - start : start - Math.round(lines[index - 1]);
+
+      for (let x = Math.max(0, start); x < Math.min(width, end); ++x) {
+        const i = (axis * width + x) * 4;
+        texels[i] = Math.min(255, x - start);
+        texels[i + 1] = index >> 8;
+        texels[i + 2] = index & 255;
+        texels[i + 3] = Math.min(255, Math.max(1, size));
+      }
+    }
+  });
+
+  return texels;
+}
+
+/** Size of the canvas in pixels, which is the view if there is one */
+function canvasPixelSize({ canvasSize, renderScale, view }: GridParams) {
+  return view
+    ? [Math.round(view.size[0]), Math.round(view.size[1])]
+    : [
+        Math.round(canvasSize[0] * renderScale),
+        Math.round(canvasSize[1] * renderScale)
+      ];
+}
+
+function clearGridScene(gl: WebGLRenderingContext) {
   gl.clearColor(0.0, 0.0, 0.0, 0.0); // Clear to black, fully transparent
   gl.clearDepth(1.0); // Clear everything
   gl.enable(gl.DEPTH_TEST); // Enable depth testing
@@ -201,6 +498,37 @@ function drawGridScene(
   // Clear the canvas
   gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
+  // Each grid is drawn over the ones before it. The shader's colours are
+  // premultiplied by alpha.
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+}
+
+function drawGridScene(
+  gl: WebGLRenderingContext,
+  programInfo: GridRendererProgramInfo,
+  gridRendererBuffers: GridRendererBuffers,
+  gridParams: GridParams
+) {
+  const {
+    canvasSize,
+    cellSize,
+    gridOffset,
+    renderScale,
+    tiles,
+    perspective,
+    boundaries,
+    view,
+    highlights,
+    style = defaultGridStyle
+  } = gridParams;
+
+  // The view offset is in whole pixels so that lines stay crisp
+  const [canvasWidth, canvasHeight] = canvasPixelSize(gridParams);
+  const viewOffset = view
+    ? [Math.round(view.offset[0]), Math.round(view.offset[1])]
+    : [0, 0];
+
   // Map buffer to vertexPosition attribute
   {
     const numComponents = 2;
@@ -226,28 +554,166 @@ function drawGridScene(
 
   // Calculate grid uniforms
   const gridCellSize = [cellSize[0] * renderScale, cellSize[1] * renderScale];
-
-  // prettier-ignore
-  const gridCellCount = [
-    Math.min(maxCells[0], Math.floor((canvasSize[0] - gridOffset[0]) / cellSize[0])),
-    Math.min(maxCells[1], Math.floor((canvasSize[1] - gridOffset[1]) / cellSize[1]))
-  ];
+  const cellCount = gridCellCount(gridParams);
 
   // prettier-ignore
   const gridBottomLeft = [
-    renderScale * gridOffset[0],
-    renderScale * (canvasSize[1] - gridOffset[1] - gridCellCount[1] * cellSize[1])
+    renderScale * gridOffset[0] - viewOffset[0],
+    canvasHeight + viewOffset[1] - renderScale * (gridOffset[1] + cellCount[1] * cellSize[1])
   ];
 
   gl.uniform2fv(programInfo.uniformLocations.gridBottomLeft, gridBottomLeft);
   gl.uniform2fv(programInfo.uniformLocations.gridCellSize, gridCellSize);
-  gl.uniform2fv(programInfo.uniformLocations.gridCellCount, gridCellCount);
+  gl.uniform2fv(programInfo.uniformLocations.gridCellCount, cellCount);
+
+  // Calculate perspective uniforms. gl_FragCoord is in scaled pixels from
+  // the bottom left of the canvas, so flip, offset and unscale it first.
+  // prettier-ignore
+  const canvasToCell = perspective
+    ? multiply(invert(cellToCanvas(perspective)), [
+        1 / renderScale, 0, viewOffset[0] / renderScale,
+        0, -1 / renderScale, (canvasHeight + viewOffset[1]) / renderScale,
+        0, 0, 1
+      ])
+    : [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+  gl.uniform1f(programInfo.uniformLocations.perspective, perspective ? 1 : 0);
+  gl.uniform3fv(
+    programInfo.uniformLocations.canvasToCellX,
+    canvasToCell.slice(0, 3)
+  );
+  gl.uniform3fv(
+    programInfo.uniformLocations.canvasToCellY,
+    canvasToCell.slice(3, 6)
+  );
+  gl.uniform3fv(
+    programInfo.uniformLocations.canvasToCellW,
+    canvasToCell.slice(6, 9)
+  );
+
+  // Fill in the boundaries texture, one texel per canvas pixel
+  const useBoundaries = !perspective && boundaries !== undefined;
+  const boundariesWidth = Math.min(
+    gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    Math.max(canvasSize[0], canvasSize[1]) + 1
+  );
+
+  gl.activeTexture(gl.TEXTURE0);
+  gl.bindTexture(gl.TEXTURE_2D, gridRendererBuffers.boundaries);
+
+  if (boundaries && useBoundaries) {
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      boundariesWidth,
+      2,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      boundaryTexels(boundaries, boundariesWidth)
+    );
+  }
+
+  gl.uniform1f(
+    programInfo.uniformLocations.useBoundaries,
+    useBoundaries ? 1 : 0
+  );
+  gl.uniform1i(programInfo.uniformLocations.boundaries, 0);
+  gl.uniform1f(programInfo.uniformLocations.boundariesWidth, boundariesWidth);
+  gl.uniform1f(programInfo.uniformLocations.renderScale, renderScale);
+  gl.uniform1f(programInfo.uniformLocations.canvasHeight, canvasHeight);
+  gl.uniform2fv(programInfo.uniformLocations.viewOffset, viewOffset);
+
+  // Style uniforms
+  const toUniformColor = (color: LineColor) => color.map((c) => c / 255);
+
+  gl.uniform3fv(
+    programInfo.uniformLocations.lineColor,
+    toUniformColor(style.lineColor)
+  );
+  gl.uniform3fv(
+    programInfo.uniformLocations.dashColor,
+    toUniformColor(style.dashColor)
+  );
+  gl.uniform3fv(
+    programInfo.uniformLocations.majorColor,
+    toUniformColor(style.majorColor)
+  );
+  gl.uniform3fv(
+    programInfo.uniformLocations.outlineColor,
+    toUniformColor(style.outlineColor)
+  );
+  gl.uniform1f(programInfo.uniformLocations.opacity, style.opacity);
+  gl.uniform1f(programInfo.uniformLocations.dashed, style.dashed ? 1 : 0);
+  gl.uniform1f(programInfo.uniformLocations.majorEvery, style.majorEvery);
+
+  // Fill in the highlights texture, one texel per cell. Grids larger than
+  // the maximum texture size aren't highlighted.
+  const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+  const useHighlights =
+    highlights !== undefined &&
+    highlights.width > 0 &&
+    highlights.height > 0 &&
+    highlights.width <= maxTextureSize &&
+    highlights.height <= maxTextureSize;
+
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_2D, gridRendererBuffers.highlights);
+
+  if (highlights && useHighlights) {
+    const texels = new Uint8Array(highlights.mask.length);
+    for (let i = 0; i < texels.length; ++i) {
+      texels[i] = highlights.mask[i] * 127;
+    }
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.LUMINANCE,
+      highlights.width,
+      highlights.height,
+      0,
+      gl.LUMINANCE,
+      gl.UNSIGNED_BYTE,
+      texels
+    );
+  }
+
+  gl.uniform1f(
+    programInfo.uniformLocations.useHighlights,
+    useHighlights ? 1 : 0
+  );
+  gl.uniform1i(programInfo.uniformLocations.highlights, 1);
+  gl.uniform2fv(
+    programInfo.uniformLocations.highlightsSize,
+    highlights ? [highlights.width, highlights.height] : [1, 1]
+  );
+
+  // Calculate tile uniforms. A tile size of 1 avoids dividing by zero in
+  // the shader when there are no tiles.
+  const tileCounts = tiles ? tileCount(cellCount, tiles) : [0, 0];
+
+  gl.uniform2fv(
+    programInfo.uniformLocations.tileMargin,
+    tiles ? tiles.margin : [0, 0]
+  );
+  gl.uniform2fv(
+    programInfo.uniformLocations.tileSize,
+    tiles ? tiles.tileSize : [1, 1]
+  );
+  gl.uniform2fv(
+    programInfo.uniformLocations.tileSpacing,
+    tiles ? tiles.spacing : [0, 0]
+  );
+  gl.uniform2fv(programInfo.uniformLocations.tileCount, tileCounts);
 
   // Set active shader program
   gl.useProgram(programInfo.program);
 
   // Set viewport to cover the entire render target
-  gl.viewport(0, 0, canvasSize[0] * renderScale, canvasSize[1] * renderScale);
+  gl.viewport(0, 0, canvasWidth, canvasHeight);
 
   // Make draw call
   {
@@ -257,15 +723,24 @@ function drawGridScene(
   }
 }
 
-// We're relying on garbage collection to free WebGL resources. This
-// is probably bad.
-export class GridRenderer {
-  private canvas: HTMLCanvasElement;
+/**
+ * Draws the grid with a fragment shader.
+ *
+ * The constructor throws a WebGLError when WebGL isn't available. When the
+ * context is lost nothing is drawn and onContextLost is called; if it is
+ * restored, the GL resources are created again and the last grid is
+ * redrawn.
+ */
+export class WebGLRenderer implements Renderer {
+  public readonly canvas: HTMLCanvasElement;
   private gl: WebGLRenderingContext;
-  private gridRendererProgramInfo: GridRendererProgramInfo;
-  private gridRendererBuffers: GridRendererBuffers;
+  private gridRendererProgramInfo: GridRendererProgramInfo | undefined;
+  private gridRendererBuffers: GridRendererBuffers | undefined;
+  private lastGridParams: GridParams | undefined;
+  private disposed = false;
+  private onContextLost: (() => void) | undefined;
 
-  public constructor(canvas: HTMLCanvasElement) {
+  public constructor(canvas: HTMLCanvasElement, onContextLost?: () => void) {
     // Initialize the GL context
     const gl = canvas.getContext("webgl");
 
@@ -276,20 +751,53 @@ export class GridRenderer {
 
     this.canvas = canvas;
     this.gl = gl;
-    this.gridRendererProgramInfo = createGridRendererProgram(gl);
-    this.gridRendererBuffers = createGridRendererBuffers(gl);
-  }
+    this.onContextLost = onContextLost;
+    this.createResources();
 
-  public gridCanvas() {
-    return this.canvas;
+    canvas.addEventListener("webglcontextlost", this.handleContextLost);
+    canvas.addEventListener("webglcontextrestored", this.handleContextRestored);
   }
 
   public render(gridParams: GridParams) {
-    const { canvasSize, renderScale } = gridParams;
+    this.lastGridParams = gridParams;
+
+    if (
+      this.disposed ||
+      !this.gridRendererProgramInfo ||
+      !this.gridRendererBuffers
+    ) {
+      return;
+    }
 
     // Update canvas size
-    this.canvas.width = canvasSize[0] * renderScale;
-    this.canvas.height = canvasSize[1] * renderScale;
+    const [width, height] = canvasPixelSize(gridParams);
+    this.canvas.width = width;
+    this.canvas.height = height;
+
+    clearGridScene(this.gl);
+
+    // Other grids are drawn dimmed under the active grid, without tiles or
+    // highlights
+    const { otherGrids = [], style = defaultGridStyle } = gridParams;
+
+    for (const grid of otherGrids) {
+      drawGridScene(
+        this.gl,
+        this.gridRendererProgramInfo,
+        this.gridRendererBuffers,
+        {
+          ...gridParams,
+          maxCells: grid.maxCells,
+          cellSize: grid.cellSize,
+          gridOffset: grid.gridOffset,
+          perspective: grid.perspective,
+          boundaries: grid.boundaries,
+          tiles: undefined,
+          highlights: undefined,
+          style: otherGridStyle(style)
+        }
+      );
+    }
 
     drawGridScene(
       this.gl,
@@ -298,4 +806,65 @@ export class GridRenderer {
       gridParams
     );
   }
+
+  public dispose() {
+    if (this.disposed) {
+      return;
+    }
+
+    this.disposed = true;
+    this.canvas.removeEventListener("webglcontextlost", this.handleContextLost);
+    this.canvas.removeEventListener(
+      "webglcontextrestored",
+      this.handleContextRestored
+    );
+    this.deleteResources();
+  }
+
+  private createResources() {
+    this.gridRendererProgramInfo = createGridRendererProgram(this.gl);
+    this.gridRendererBuffers = createGridRendererBuffers(this.gl);
+  }
+
+  private deleteResources() {
+    const gl = this.gl;
+
+    if (this.gridRendererProgramInfo) {
+      gl.deleteProgram(this.gridRendererProgramInfo.program);
+    }
+
+    if (this.gridRendererBuffers) {
+      gl.deleteBuffer(this.gridRendererBuffers.position);
+      gl.deleteTexture(this.gridRendererBuffers.boundaries);
+      gl.deleteTexture(this.gridRendererBuffers.highlights);
+    }
+
+    this.gridRendererProgramInfo = undefined;
+    this.gridRendererBuffers = undefined;
+  }
+
+  private handleContextLost = (event: Event) => {
+    // Without this the context is never restored
+    event.preventDefault();
+
+    // Resources of a lost context are already gone
+    this.gridRendererProgramInfo = undefined;
+    this.gridRendererBuffers = undefined;
+
+    if (this.onContextLost) {
+      this.onContextLost();
+    }
+  };
+
+  private handleContextRestored = () => {
+    if (this.disposed) {
+      return;
+    }
+
+    this.createResources();
+
+    if (this.lastGridParams) {
+      this.render(this.lastGridParams);
+    }
+  };
 }
@@ -0,0 +1,91 @@
+import * as React from "react";
+
+import { colorToHex, hexToColor } from "./colorHex";
+import { GridStyle } from "./GridRenderer/rendererTypes";
+
+type ColorKey = "lineColor" | "dashColor" | "majorColor" | "outlineColor";
+
+const colorLabels: [ColorKey, string][] = [
+  ["lineColor", "Lines"],
+  ["dashColor", "Dashes"],
+  ["majorColor", "Major"],
+  ["outlineColor", "Outline"]
+];
+
+interface GridStyleControlsProps {
+  style: GridStyle;
+  onChange: (style: GridStyle) => void;
+}
+
+export function GridStyleControls({ style, onChange }: GridStyleControlsProps) {
+  const onChangeOpacity = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const opacity = event.target.valueAsNumber;
+    if (!isNaN(opacity)) {
+      onChange({ ...style, opacity: Math.min(1, Math.max(opacity, 0)) });
+    }
+  };
+
+  const onChangeMajorEvery = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const majorEvery = event.target.valueAsNumber;
+    if (!isNaN(majorEvery)) {
+      onChange({ ...style, majorEvery: Math.max(0, Math.round(majorEvery)) });
+    }
+  };
+
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Grid:&nbsp;</div>
+        {colorLabels.map(([key, label]) => (
+          <label key={key} className="ScaleInfo">
+            <input
+              type="color"
+              value={colorToHex(style[key])}
+              onChange={(event) =>
+                onChange({ ...style, [key]: hexToColor(event.target.value) })
+              }
+            />
+            {label}&nbsp;
+          </label>
+        ))}
+      </div>
+      <div className="ScaleInfo">
+        <div>Opacity:&nbsp;</div>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={style.opacity}
+          onChange={onChangeOpacity}
+        />
+      </div>
+      <label className="ScaleInfo">
+        <input
+          type="checkbox"
+          checked={style.dashed}
+          onChange={() => onChange({ ...style, dashed: !style.dashed })}
+        />
+        Dashed
+      </label>
+      <div className="ScaleInfo">
+        <div>Major every:&nbsp;</div>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={style.majorEvery}
+          onChange={onChangeMajorEvery}
+        />
+      </div>
+      <label className="ScaleInfo">
+        <input
+          type="checkbox"
+          checked={style.rulers}
+          onChange={() => onChange({ ...style, rulers: !style.rulers })}
+        />
+        Rulers
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+}
+
+// Entries before and after the present are kept in chronological order
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+export const defaultMaxHistoryEntries = 100;
+
+export function createHistory<T>(state: T, label: string): History<T> {
+  return { past: [], present: { label, state }, future: [] };
+}
+
+/** Record a new state. Anything that was undone is discarded. */
+export function pushHistory<T>(
+  { past, present }: History<T>,
+  state: T,
+  label: string,
+  maxEntries = defaultMaxHistoryEntries
+): History<T> {
+  return {
+    past: past.concat(present).slice(-(maxEntries - 1)),
+    present: { label, state },
+    future: []
+  };
+}
+
+/** Apply a change to the state of every entry, such as a renumbering */
+export function mapHistory<T>(
+  { past, present, future }: History<T>,
+  update: (state: T) => T
+): History<T> {
+  const mapEntry = ({ label, state }: HistoryEntry<T>) => ({
+    label,
+    state: update(state)
+  });
+
+  return {
+    past: past.map(mapEntry),
+    present: mapEntry(present),
+    future: future.map(mapEntry)
+  };
+}
+
+export function canUndo<T>(history: History<T>) {
+  return history.past.length > 0;
+}
+
+export function canRedo<T>(history: History<T>) {
+  return history.future.length > 0;
+}
+
+export function undo<T>(history: History<T>): History<T> {
+  const { past, present, future } = history;
+  if (past.length === 0) {
+    return history;
+  }
+
+  return {
+    past: past.slice(0, -1),
+    present: past[past.length - 1],
+    future: [present].concat(future)
+  };
+}
+
+export function redo<T>(history: History<T>): History<T> {
+  const { past, present, future } = history;
+  if (future.length === 0) {
+    return history;
+  }
+
+  return {
+    past: past.concat(present),
+    present: future[0],
+    future: future.slice(1)
+  };
+}
+
+/**
+ * Undo or redo to the entry at index, counting from the oldest entry in
+ * the past.
+ */
+export function jumpTo<T>(history: History<T>, index: number): History<T> {
+  const entries = history.past.concat(history.present, history.future);
+  if (index < 0 || index >= entries.length) {
+    return history;
+  }
+
+  return {
+    past: entries.slice(0, index),
+    present: entries[index],
+    future: entries.slice(index + 1)
+  };
+}
@@ -0,0 +1,36 @@
+import * as React from "react";
+
+import { History } from "./History/history";
+
+interface HistoryPanelProps<T> {
+  history: History<T>;
+  onJump: (index: number) => void;
+}
+
+export function HistoryPanel<T>({ history, onJump }: HistoryPanelProps<T>) {
+  const { past, present, future } = history;
+  const entries = past.concat(present, future);
+
+  return (
+    <div className="HistoryPanel">
+      <div>History</div>
+      <ol>
+        {entries.map((entry, index) => (
+          <li
+            key={index}
+            className={
+              index === past.length
+                ? "HistoryPresent"
+                : index > past.length
+                ? "HistoryFuture"
+                : undefined
+            }
+            onClick={() => onJump(index)}
+          >
+            {entry.label}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import * as React from "react";
+
+import { colorToHex, hexToColor } from "./colorHex";
+import { PaletteEntry, PaletteMethod } from "./PixelExtractor/extractorTypes";
+
+const maxPaletteSize = 16;
+
+interface PalettePanelProps {
+  palette: PaletteEntry[];
+
+  // When entries are moved or removed, newIndices gives the new position of
+  // each old entry, or undefined for a removed one
+  onChange: (
+    palette: PaletteEntry[],
+    newIndices?: (number | undefined)[]
+  ) => void;
+
+  // Replace the unlocked colours with colours derived from the image
+  onDerive: (size: number, method: PaletteMethod) => void;
+}
+
+export function PalettePanel({
+  palette,
+  onChange,
+  onDerive
+}: PalettePanelProps) {
+  const [size, setSize] = React.useState(4);
+  const [method, setMethod] = React.useState<PaletteMethod>("kMeans");
+
+  const updateEntry = (index: number, update: Partial<PaletteEntry>) =>
+    onChange(
+      palette.map((entry, i) => (i === index ? { ...entry, ...update } : entry))
+    );
+
+  const moveEntry = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= palette.length) {
+      return;
+    }
+
+    const reordered = palette.slice();
+    reordered[index] = palette[target];
+    reordered[target] = palette[index];
+    onChange(
+      reordered,
+      palette.map((_entry, i) =>
+        i === index ? target : i === target ? index : i
+      )
+    );
+  };
+
+  const removeEntry = (index: number) =>
+    onChange(
+      palette.filter((_entry, i) => i !== index),
+      palette.map((_entry, i) =>
+        i < index ? i : i === index ? undefined : i - 1
+      )
+    );
+
+  const addEntry = () =>
+    onChange(
+      palette.concat({
+        name: `Colour ${palette.length + 1}`,
+        color: [0, 0, 0],
+        locked: false
+      })
+    );
+
+  const onChangeSize = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.valueAsNumber;
+    if (!isNaN(value)) {
+      setSize(Math.min(maxPaletteSize, Math.max(value, 2)));
+    }
+  };
+
+  return (
+    <div className="PalettePanel">
+      <div className="ScaleBar">
+        <div className="ScaleInfo">
+          <div>Colours:&nbsp;</div>
+          <input
+            type="number"
+            min={2}
+            max={maxPaletteSize}
+            step={1}
+            value={size}
+            onChange={onChangeSize}
+          />
+          <select
+            value={method}
+            onChange={(event) => setMethod(event.target.value as PaletteMethod)}
+          >
+            <option value="kMeans">k-means</option>
+            <option value="medianCut">Median cut</option>
+          </select>
+        </div>
+        <button onClick={() => onDerive(size, method)}>Derive palette</button>
+      </div>
+      {palette.map((entry, index) => (
+        <div className="PaletteEntry" key={index}>
+          <input
+            type="color"
+            value={colorToHex(entry.color)}
+            onChange={(event) =>
+              updateEntry(index, { color: hexToColor(event.target.value) })
+            }
+          />
+          <input
+            type="text"
+            value={entry.name}
+            onChange={(event) =>
+              updateEntry(index, { name: event.target.value })
+            }
+          />
+          <label>
+            <input
+              type="checkbox"
+              checked={entry.locked}
+              onChange={() => updateEntry(index, { locked: !entry.locked })}
+            />
+            Lock
+          </label>
+          <button onClick={() => moveEntry(index, -1)} disabled={index === 0}>
+            Up
+          </button>
+          <button
+            onClick={() => moveEntry(index, 1)}
+            disabled={index === palette.length - 1}
+          >
+            Down
+          </button>
+          <button onClick={() => removeEntry(index)}>Remove</button>
+        </div>
+      ))}
+      <button onClick={addEntry} disabled={palette.length >= maxPaletteSize}>
+        Add colour
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { IndexedImage } from "../Exporters/exportTypes";
+import {
+  applyEdits,
+  CellValue,
+  EditLayer,
+  GridGeometry,
+  remapPaletteEdits,
+  setCellEdit
+} from "./editLayer";
+
+const geometry: GridGeometry = { cellSize: [8, 8], gridOffset: [0, 0] };
+
+// Cells 0 - 2 of the first row painted with palette entries 0 - 2, and cell
+// 3 painted on
+const values: CellValue[] = [
+  { paletteIndex: 0 },
+  { paletteIndex: 1 },
+  { paletteIndex: 2 },
+  "on"
+];
+const layer = values.reduce<EditLayer>(
+  (layer, value, x) => setCellEdit(layer, x, 0, value, geometry),
+  {}
+);
+
+const red: [number, number, number] = [255, 0, 0];
+const green: [number, number, number] = [0, 255, 0];
+const blue: [number, number, number] = [0, 0, 255];
+const white: [number, number, number] = [255, 255, 255];
+
+// Colours of the first row after applying the edits to a blank image
+function paintedColors(layer: EditLayer, palette: [number, number, number][]) {
+  const image: IndexedImage = {
+    width: 4,
+    height: 1,
+    indices: new Uint8Array(4),
+    palette
+  };
+
+  const { indices } = applyEdits(image, layer, true, palette);
+  return Array.from(indices, (index) => palette[index]);
+}
+
+describe("remapPaletteEdits", () => {
+  it("keeps cells their colour when entries are reordered", () => {
+    // Red and green swap places
+    const remapped = remapPaletteEdits(layer, [1, 0, 2, 3]);
+
+    expect(paintedColors(layer, [red, green, blue, white])).toEqual(
+      paintedColors(remapped, [green, red, blue, white])
+    );
+    expect(remapped["0,0"].value).toEqual({ paletteIndex: 1 });
+    expect(remapped["3,0"]).toBe(layer["3,0"]);
+  });
+
+  it("drops the edits of removed entries and renumbers the rest", () => {
+    // Green removed
+    const remapped = remapPaletteEdits(layer, [0, undefined, 1, 2]);
+
+    expect(Object.keys(remapped).sort()).toEqual(["0,0", "2,0", "3,0"]);
+    expect(remapped["0,0"].value).toEqual({ paletteIndex: 0 });
+    expect(remapped["2,0"].value).toEqual({ paletteIndex: 1 });
+    expect(paintedColors(remapped, [red, blue, white])).toEqual([
+      red,
+      red,
+      blue,
+      white
+    ]);
+  });
+
+  it("returns the same layer when no edit moves", () => {
+    expect(remapPaletteEdits(layer, [0, 1, 2, undefined])).toBe(layer);
+  });
+});
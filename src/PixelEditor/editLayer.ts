@@ -0,0 +1,194 @@
+import { Coord, GridParams } from "../GridRenderer/rendererTypes";
+import { IndexedImage } from "../Exporters/exportTypes";
+import { RGB } from "../PixelExtractor/extractorTypes";
+import { luminance } from "../PixelExtractor/threshold";
+
+// The grid geometry an edit was made against
+export type GridGeometry = Pick<
+  GridParams,
+  "cellSize" | "gridOffset" | "perspective" | "boundaries"
+>;
+
+export type CellValue = "on" | "off" | { paletteIndex: number };
+
+export interface CellEdit {
+  value: CellValue;
+  geometry: GridGeometry;
+}
+
+// Edits keyed by cell coordinate, see cellKey
+export interface EditLayer {
+  [cell: string]: CellEdit;
+}
+
+export function cellKey(x: number, y: number) {
+  return `${x},${y}`;
+}
+
+export function parseCellKey(key: string): [number, number] {
+  const [x, y] = key.split(",").map((value) => parseInt(value, 10));
+  return [x, y];
+}
+
+export function sameGeometry(a: GridGeometry, b: GridGeometry) {
+  const epsilon = 1e-6;
+  const near = (a: Coord, b: Coord) =>
+    Math.abs(a[0] - b[0]) < epsilon && Math.abs(a[1] - b[1]) < epsilon;
+
+  if (a.perspective || b.perspective) {
+    return (
+      !!a.perspective &&
+      !!b.perspective &&
+      near(a.perspective.cells, b.perspective.cells) &&
+      a.perspective.corners.every((corner, i) =>
+        near(corner, b.perspective!.corners[i])
+      )
+    );
+  }
+
+  if (a.boundaries || b.boundaries) {
+    const sameLines = (a: number[], b: number[]) =>
+      a.length === b.length && a.every((line, i) => line === b[i]);
+
+    return (
+      !!a.boundaries &&
+      !!b.boundaries &&
+      sameLines(a.boundaries.columns, b.boundaries.columns) &&
+      sameLines(a.boundaries.rows, b.boundaries.rows)
+    );
+  }
+
+  return near(a.cellSize, b.cellSize) && near(a.gridOffset, b.gridOffset);
+}
+
+/** Keys of edits that were made against a different grid geometry */
+export function staleEdits(layer: EditLayer, geometry: GridGeometry) {
+  return Object.keys(layer).filter(
+    (key) => !sameGeometry(layer[key].geometry, geometry)
+  );
+}
+
+/**
+ * Return a copy of the layer with the cell set to value, or with the edit
+ * removed if value is undefined.
+ */
+export function setCellEdit(
+  layer: EditLayer,
+  x: number,
+  y: number,
+  value: CellValue | undefined,
+  geometry: GridGeometry
+): EditLayer {
+  const key = cellKey(x, y);
+  const result = { ...layer };
+
+  if (value === undefined) {
+    delete result[key];
+  } else {
+    result[key] = { value, geometry };
+  }
+
+  return result;
+}
+
+/**
+ * Move palette edits along with their palette entries when entries are
+ * reordered or removed. newIndices[i] is the new position of entry i, or
+ * undefined if it was removed, in which case its edits are dropped.
+ */
+export function remapPaletteEdits(
+  layer: EditLayer,
+  newIndices: (number | undefined)[]
+): EditLayer {
+  const result: EditLayer = {};
+  let changed = false;
+
+  Object.keys(layer).forEach((key) => {
+    const edit = layer[key];
+    const { value } = edit;
+
+    if (value === "on" || value === "off") {
+      result[key] = edit;
+      return;
+    }
+
+    const paletteIndex = newIndices[value.paletteIndex];
+    if (paletteIndex !== value.paletteIndex) {
+      changed = true;
+    }
+
+    if (paletteIndex !== undefined) {
+      result[key] = { ...edit, value: { paletteIndex } };
+    }
+  });
+
+  return changed ? result : layer;
+}
+
+function brightestIndex(palette: RGB[], brightest: boolean) {
+  let best = 0;
+  palette.forEach(([r, g, b], i) => {
+    const [br, bg, bb] = palette[best];
+    const difference = luminance(r, g, b) - luminance(br, bg, bb);
+    if (brightest ? difference > 0 : difference < 0) {
+      best = i;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Apply edits to an image. On and off map to the brightest and darkest
+ * colours of the image palette. A palette edit uses its index directly when
+ * the image is palettised, otherwise it is on if the colour it refers to in
+ * editPalette is light.
+ */
+export function applyEdits(
+  image: IndexedImage,
+  layer: EditLayer,
+  palettised: boolean,
+  editPalette: RGB[]
+): IndexedImage {
+  const keys = Object.keys(layer);
+  if (keys.length === 0) {
+    return image;
+  }
+
+  const { width, height, palette } = image;
+  const indices = image.indices.slice();
+  const onIndex = brightestIndex(palette, true);
+  const offIndex = brightestIndex(palette, false);
+
+  for (const key of keys) {
+    const [x, y] = parseCellKey(key);
+    if (x < 0 || y < 0 || x >= width || y >= height) {
+      continue;
+    }
+
+    const { value } = layer[key];
+    let index: number;
+
+    if (value === "on") {
+      index = onIndex;
+    } else if (value === "off") {
+      index = offIndex;
+    } else if (palettised) {
+      if (value.paletteIndex >= palette.length) {
+        continue;
+      }
+      index = value.paletteIndex;
+    } else {
+      const color = editPalette[value.paletteIndex];
+      if (!color) {
+        continue;
+      }
+      index =
+        luminance(color[0], color[1], color[2]) >= 128 ? onIndex : offIndex;
+    }
+
+    indices[y * width + x] = index;
+  }
+
+  return { ...image, indices };
+}
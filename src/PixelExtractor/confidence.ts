@@ -0,0 +1,42 @@
+import { ExtractedPixels } from "./extractorTypes";
+
+export interface AmbiguityOptions {
+  // Cells whose sample is within this distance of the threshold level
+  thresholdMargin: number;
+
+  // Cells whose pixels have a larger luminance standard deviation than
+  // this, which usually means a grid line crosses the cell
+  maxDeviation: number;
+}
+
+export const defaultAmbiguityOptions: AmbiguityOptions = {
+  thresholdMargin: 24,
+  maxDeviation: 48
+};
+
+export function isAmbiguousCell(
+  { thresholdDistance, variance }: ExtractedPixels,
+  index: number,
+  { thresholdMargin, maxDeviation }: AmbiguityOptions
+) {
+  return (
+    thresholdDistance[index] < thresholdMargin ||
+    variance[index] > maxDeviation * maxDeviation
+  );
+}
+
+/** Indices of the ambiguous cells, in row major order */
+export function ambiguousCells(
+  extracted: ExtractedPixels,
+  options: AmbiguityOptions
+): number[] {
+  const cells: number[] = [];
+
+  for (let i = 0; i < extracted.width * extracted.height; ++i) {
+    if (isAmbiguousCell(extracted, i, options)) {
+      cells.push(i);
+    }
+  }
+
+  return cells;
+}
@@ -0,0 +1,178 @@
+import { ExtractionError, extractPixels } from "./extractPixels";
+import { RGB, SamplingMethod } from "./extractorTypes";
+
+const samplingMethods: SamplingMethod[] = [
+  "mean",
+  "median",
+  "center",
+  "majority",
+  "trimmedMean"
+];
+
+function imageFrom(
+  width: number,
+  height: number,
+  colorAt: (x: number, y: number) => RGB
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      data.set(colorAt(x, y), (y * width + x) * 4);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+
+  return { width, height, data } as ImageData;
+}
+
+// A horizontal ramp, 20 levels per pixel, one pixel high
+const ramp = (width: number) => imageFrom(width, 1, (x) => [x * 20, 0, 0]);
+
+// Red channel of each extracted cell
+const reds = (colors: Uint8ClampedArray) =>
+  Array.prototype.filter.call(colors, (value, i) => i % 4 === 0);
+
+describe("extractPixels", () => {
+  // 3 x 2 cells of 2 x 2 pixels, each a different flat colour
+  const cellColor = (x: number, y: number): RGB => [x * 80, y * 200, 30];
+  const flatCells = imageFrom(6, 4, (x, y) =>
+    cellColor(Math.floor(x / 2), Math.floor(y / 2))
+  );
+
+  samplingMethods.forEach((sampling) => {
+    it(`samples flat cells exactly with ${sampling}`, () => {
+      const extracted = extractPixels(
+        flatCells,
+        { maxCells: [10, 10], cellSize: [2, 2], gridOffset: [0, 0] },
+        { sampling }
+      );
+
+      expect(extracted.width).toBe(3);
+      expect(extracted.height).toBe(2);
+
+      for (let y = 0; y < 2; ++y) {
+        for (let x = 0; x < 3; ++x) {
+          const i = (y * 3 + x) * 4;
+          expect(Array.from(extracted.colors.subarray(i, i + 3))).toEqual(
+            cellColor(x, y)
+          );
+        }
+      }
+    });
+  });
+
+  describe("samplers on a mixed cell", () => {
+    // One 4 x 4 cell: three black pixels, one 100, a 50 in the centre and
+    // eleven 200s
+    const mixed = imageFrom(4, 4, (x, y) => {
+      const level =
+        y === 0 && x < 3 ? 0 : y === 0 ? 100 : x === 2 && y === 2 ? 50 : 200;
+      return [level, level, level];
+    });
+
+    const expected: Record<SamplingMethod, number> = {
+      mean: 147, // 2350 / 16, rounded
+      median: 200,
+      center: 50,
+      majority: 200,
+      trimmedMean: 154 // One pixel dropped from each end, 2150 / 14
+    };
+
+    samplingMethods.forEach((sampling) => {
+      it(`picks ${expected[sampling]} with ${sampling}`, () => {
+        const extracted = extractPixels(
+          mixed,
+          { maxCells: [1, 1], cellSize: [4, 4], gridOffset: [0, 0] },
+          { sampling }
+        );
+
+        expect(extracted.colors[0]).toBe(expected[sampling]);
+      });
+    });
+  });
+
+  it("rounds fractional cell sizes and offsets to whole pixels", () => {
+    // Cells start at 0.5, 3 and 5.5 and are 2.5 pixels wide, so they cover
+    // pixels 1 - 3, 3 - 5 and 6 - 8. Every pixel of a ramp differs, so
+    // majority has no majority to find and is left out.
+    samplingMethods
+      .filter((sampling) => sampling !== "majority")
+      .forEach((sampling) => {
+        const extracted = extractPixels(
+          ramp(10),
+          { maxCells: [10, 1], cellSize: [2.5, 1], gridOffset: [0.5, 0] },
+          { sampling }
+        );
+
+        expect(extracted.width).toBe(3);
+        expect(reds(extracted.colors)).toEqual([40, 80, 140]);
+      });
+  });
+
+  it("handles fractional cell heights", () => {
+    const image = imageFrom(1, 7, (x, y) => [0, y * 30, 0]);
+    const extracted = extractPixels(
+      image,
+      { maxCells: [1, 10], cellSize: [1, 3.5], gridOffset: [0, 0] },
+      { sampling: "mean" }
+    );
+
+    // Rows 0 - 3 and 4 - 6
+    expect(extracted.height).toBe(2);
+    expect(extracted.colors[1]).toBe(45);
+    expect(extracted.colors[5]).toBe(150);
+  });
+
+  it("clips cells at a negative offset instead of shifting them", () => {
+    const extracted = extractPixels(
+      ramp(8),
+      { maxCells: [10, 1], cellSize: [4, 1], gridOffset: [-1, 0] },
+      { sampling: "mean" }
+    );
+
+    // Pixels 0 - 2 and 3 - 6
+    expect(reds(extracted.colors)).toEqual([20, 90]);
+  });
+
+  it("limits the grid to maxCells", () => {
+    const extracted = extractPixels(flatCells, {
+      maxCells: [2, 1],
+      cellSize: [2, 2],
+      gridOffset: [0, 0]
+    });
+
+    expect([extracted.width, extracted.height]).toEqual([2, 1]);
+  });
+
+  it("thresholds the sampled colours", () => {
+    const extracted = extractPixels(
+      ramp(8),
+      { maxCells: [10, 1], cellSize: [2, 1], gridOffset: [0, 0] },
+      { sampling: "mean" }
+    );
+
+    // Means 10, 50, 90 and 130 against the default level of 127
+    expect(Array.from(extracted.bits)).toEqual([0, 0, 0, 1]);
+  });
+
+  it("keeps the luminance mean and variance of each cell", () => {
+    const extracted = extractPixels(
+      imageFrom(2, 1, (x) => [x * 100, x * 100, x * 100]),
+      { maxCells: [1, 1], cellSize: [2, 1], gridOffset: [0, 0] }
+    );
+
+    expect(extracted.mean[0]).toBeCloseTo(50);
+    expect(extracted.variance[0]).toBeCloseTo(2500);
+  });
+
+  it("rejects cell sizes that aren't positive", () => {
+    expect(() =>
+      extractPixels(flatCells, {
+        maxCells: [10, 10],
+        cellSize: [0, 2],
+        gridOffset: [0, 0]
+      })
+    ).toThrow(ExtractionError);
+  });
+});
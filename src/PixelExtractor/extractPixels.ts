@@ -0,0 +1,302 @@
+import {
+  boundaryCellCount,
+  isValidBoundaries
+} from "../GridRenderer/boundaries";
+import {
+  cellToCanvas,
+  isConvexQuad,
+  project
+} from "../GridRenderer/perspective";
+import { Coord, GridParams } from "../GridRenderer/rendererTypes";
+import { ExtractOptions, ExtractedPixels, Sampler } from "./extractorTypes";
+import { samplerFor } from "./samplers";
+import {
+  applyThreshold,
+  defaultThresholdOptions,
+  luminance,
+  ThresholdOptions
+} from "./threshold";
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+/**
+ * Sample every cell of the grid from the source image.
+ *
+ * Only the cell geometry of the grid is used (maxCells, cellSize and
+ * gridOffset, or perspective, or boundaries). The extent of an axis aligned
+ * grid is calculated against the size of the source image.
+ *
+ * Cells of a perspective grid are resampled into a rectangle of roughly the
+ * cell's size in source pixels before being passed to the sampler.
+ */
+export function extractPixels(
+  source: ImageData,
+  {
+    maxCells,
+    cellSize,
+    gridOffset,
+    perspective,
+    boundaries
+  }: Pick<
+    GridParams,
+    "maxCells" | "cellSize" | "gridOffset" | "perspective" | "boundaries"
+  >,
+  {
+    sampling = "mean",
+    trimFraction = 0.1,
+    threshold = defaultThresholdOptions
+  }: ExtractOptions = {}
+): ExtractedPixels {
+  if (!(cellSize[0] > 0 && cellSize[1] > 0)) {
+    throw new ExtractionError(
+      `Cell size must be positive, got ${cellSize[0]} x ${cellSize[1]}.`
+    );
+  }
+
+  if (!(trimFraction >= 0 && trimFraction < 0.5)) {
+    throw new ExtractionError(
+      `Trim fraction must be in the range [0, 0.5), got ${trimFraction}.`
+    );
+  }
+
+  if (perspective && !isConvexQuad(perspective.corners)) {
+    throw new ExtractionError(
+      "Perspective grid corners must form a convex quad."
+    );
+  }
+
+  if (!perspective && boundaries && !isValidBoundaries(boundaries)) {
+    throw new ExtractionError(
+      "Grid boundaries must increase, with at least one cell across and down."
+    );
+  }
+
+  const sampler = samplerFor(sampling, trimFraction);
+
+  if (perspective) {
+    return extractWarpedPixels(source, perspective, sampler, threshold);
+  }
+
+  const [width, height] = boundaries
+    ? boundaryCellCount(boundaries)
+    : [
+        Math.max(
+          0,
+          Math.min(
+            maxCells[0],
+            Math.floor((source.width - gridOffset[0]) / cellSize[0])
+          )
+        ),
+        Math.max(
+          0,
+          Math.min(
+            maxCells[1],
+            Math.floor((source.height - gridOffset[1]) / cellSize[1])
+          )
+        )
+      ];
+
+  // Unrounded samples, so that thresholding isn't affected by rounding
+  const samples = new Float32Array(width * height * 3);
+  const statistics = createCellStatistics(width * height);
+
+  // Scratch buffer holding the pixels of one cell
+  let cellPixels = new Uint8ClampedArray(0);
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      let sx, ex, sy, ey;
+
+      if (boundaries) {
+        sx = Math.max(0, Math.round(boundaries.columns[x]));
+        ex = Math.min(source.width, Math.round(boundaries.columns[x + 1]));
+        sy = Math.max(0, Math.round(boundaries.rows[y]));
+        ey = Math.min(source.height, Math.round(boundaries.rows[y + 1]));
+      } else {
+        // Cells are clipped to the image, so the end is measured from the
+        // unclipped start
+        const startX = Math.round(gridOffset[0] + x * cellSize[0]);
+        const startY = Math.round(gridOffset[1] + y * cellSize[1]);
+        sx = Math.max(0, startX);
+        ex = Math.min(source.width, Math.round(startX + cellSize[0]));
+        sy = Math.max(0, startY);
+        ey = Math.min(source.height, Math.round(startY + cellSize[1]));
+      }
+
+      const cellWidth = ex - sx;
+      const cellHeight = ey - sy;
+      const cellIndex = y * width + x;
+
+      if (cellWidth <= 0 || cellHeight <= 0) {
+        continue;
+      }
+
+      if (cellPixels.length < cellWidth * cellHeight * 3) {
+        cellPixels = new Uint8ClampedArray(cellWidth * cellHeight * 3);
+      }
+
+      let i = 0;
+      for (let iy = sy; iy < ey; ++iy) {
+        for (let ix = sx; ix < ex; ++ix) {
+          const sourcePixelIndex = (iy * source.width + ix) * 4;
+          cellPixels[i++] = source.data[sourcePixelIndex];
+          cellPixels[i++] = source.data[sourcePixelIndex + 1];
+          cellPixels[i++] = source.data[sourcePixelIndex + 2];
+        }
+      }
+
+      const color = sampler(cellPixels, cellWidth, cellHeight);
+      addCellStatistics(
+        statistics,
+        cellIndex,
+        cellPixels,
+        cellWidth * cellHeight
+      );
+
+      samples[cellIndex * 3] = color[0];
+      samples[cellIndex * 3 + 1] = color[1];
+      samples[cellIndex * 3 + 2] = color[2];
+    }
+  }
+
+  return toExtractedPixels(width, height, samples, statistics, threshold);
+}
+
+function extractWarpedPixels(
+  source: ImageData,
+  perspective: NonNullable<GridParams["perspective"]>,
+  sampler: Sampler,
+  threshold: ThresholdOptions
+): ExtractedPixels {
+  const [width, height] = perspective.cells;
+  const toCanvas = cellToCanvas(perspective);
+
+  const samples = new Float32Array(width * height * 3);
+  const statistics = createCellStatistics(width * height);
+  let cellPixels = new Uint8ClampedArray(0);
+
+  const distance = (a: Coord, b: Coord) =>
+    Math.sqrt((a[0] - b[0]) * (a[0] - b[0]) + (a[1] - b[1]) * (a[1] - b[1]));
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const topLeft = project(toCanvas, [x, y]);
+      const cellWidth = Math.max(
+        1,
+        Math.round(distance(topLeft, project(toCanvas, [x + 1, y])))
+      );
+      const cellHeight = Math.max(
+        1,
+        Math.round(distance(topLeft, project(toCanvas, [x, y + 1])))
+      );
+
+      if (cellPixels.length < cellWidth * cellHeight * 3) {
+        cellPixels = new Uint8ClampedArray(cellWidth * cellHeight * 3);
+      }
+
+      // Nearest source pixel to the centre of each resampled pixel
+      let i = 0;
+      for (let iy = 0; iy < cellHeight; ++iy) {
+        for (let ix = 0; ix < cellWidth; ++ix) {
+          const [sx, sy] = project(toCanvas, [
+            x + (ix + 0.5) / cellWidth,
+            y + (iy + 0.5) / cellHeight
+          ]);
+          const px = Math.min(source.width - 1, Math.max(0, Math.floor(sx)));
+          const py = Math.min(source.height - 1, Math.max(0, Math.floor(sy)));
+          const sourcePixelIndex = (py * source.width + px) * 4;
+
+          cellPixels[i++] = source.data[sourcePixelIndex];
+          cellPixels[i++] = source.data[sourcePixelIndex + 1];
+          cellPixels[i++] = source.data[sourcePixelIndex + 2];
+        }
+      }
+
+      const color = sampler(cellPixels, cellWidth, cellHeight);
+      const cellIndex = y * width + x;
+      addCellStatistics(
+        statistics,
+        cellIndex,
+        cellPixels,
+        cellWidth * cellHeight
+      );
+
+      samples[cellIndex * 3] = color[0];
+      samples[cellIndex * 3 + 1] = color[1];
+      samples[cellIndex * 3 + 2] = color[2];
+    }
+  }
+
+  return toExtractedPixels(width, height, samples, statistics, threshold);
+}
+
+interface CellStatistics {
+  mean: Float32Array;
+  variance: Float32Array;
+}
+
+function createCellStatistics(cells: number): CellStatistics {
+  return { mean: new Float32Array(cells), variance: new Float32Array(cells) };
+}
+
+// Mean and variance of the luminance of the first count packed RGB pixels
+function addCellStatistics(
+  statistics: CellStatistics,
+  cellIndex: number,
+  pixels: Uint8ClampedArray,
+  count: number
+) {
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (let i = 0; i < count; ++i) {
+    const value = luminance(
+      pixels[i * 3],
+      pixels[i * 3 + 1],
+      pixels[i * 3 + 2]
+    );
+    sum += value;
+    sumOfSquares += value * value;
+  }
+
+  const mean = sum / count;
+  statistics.mean[cellIndex] = mean;
+  statistics.variance[cellIndex] = Math.max(
+    0,
+    sumOfSquares / count - mean * mean
+  );
+}
+
+function toExtractedPixels(
+  width: number,
+  height: number,
+  samples: Float32Array,
+  { mean, variance }: CellStatistics,
+  threshold: ThresholdOptions
+): ExtractedPixels {
+  const colors = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; ++i) {
+    colors[i * 4] = samples[i * 3];
+    colors[i * 4 + 1] = samples[i * 3 + 1];
+    colors[i * 4 + 2] = samples[i * 3 + 2];
+    colors[i * 4 + 3] = 255;
+  }
+
+  const { bits, level, distances } = applyThreshold(samples, threshold);
+
+  return {
+    width,
+    height,
+    colors,
+    bits,
+    thresholdLevel: level,
+    mean,
+    variance,
+    thresholdDistance: distances
+  };
+}
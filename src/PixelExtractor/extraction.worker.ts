@@ -0,0 +1,164 @@
+import { extractBatchImage } from "../Batch/batchExtraction";
+import { extractPixels } from "./extractPixels";
+import { ExtractionRequest, ExtractionResponse } from "./extractorTypes";
+import { reconstruct } from "./reconstruction";
+import { tuneGrid, tuneThreshold } from "./tuning";
+
+// Not in the DOM typings of this TypeScript version
+declare class OffscreenCanvas {
+  constructor(width: number, height: number);
+  getContext(contextId: "2d"): CanvasRenderingContext2D | null;
+}
+
+// The parts of the worker global scope used here. The DOM typings describe
+// self as a window, and the webworker typings can't be used alongside them.
+interface ExtractionWorkerScope {
+  postMessage(message: ExtractionResponse, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<ExtractionRequest>) => void) | null;
+}
+
+declare const self: ExtractionWorkerScope;
+
+type WorkRequest = Exclude<ExtractionRequest, { type: "image" }>;
+
+let source: ImageData | undefined;
+
+// Requests waiting to run, at most one of each type. Only the latest one of
+// a type is run, so that a drag doesn't queue up an extraction for every
+// mouse move.
+const pending = new Map<WorkRequest["type"], WorkRequest>();
+
+function toImageData(image: ImageBitmap | ImageData) {
+  if (image instanceof ImageData) {
+    return image;
+  }
+
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Couldn't create a 2D context in the extraction worker");
+  }
+
+  ctx.drawImage(image, 0, 0);
+  image.close();
+  return ctx.getImageData(0, 0, image.width, image.height);
+}
+
+// The buffers of results are moved to the main thread rather than copied
+function respond(response: ExtractionResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, transfer);
+}
+
+const progress = (id: number) => (done: number, total: number) =>
+  respond({ type: "progress", id, done, total });
+
+function run(request: WorkRequest) {
+  try {
+    if (request.type === "batchImage") {
+      const extraction = extractBatchImage(
+        request.image,
+        request.settings,
+        request.palette,
+        request.autoFit,
+        request.minAutoFitConfidence
+      );
+      respond({ type: "result", id: request.id, result: extraction }, [
+        extraction.image.indices.buffer
+      ]);
+      return;
+    }
+
+    if (!source) {
+      throw new Error("No image to extract from");
+    }
+
+    switch (request.type) {
+      case "extract": {
+        const extracted = extractPixels(source, request.grid, request.options);
+        respond({ type: "result", id: request.id, result: extracted }, [
+          extracted.colors.buffer,
+          extracted.bits.buffer,
+          extracted.mean.buffer,
+          extracted.variance.buffer,
+          extracted.thresholdDistance.buffer
+        ]);
+        break;
+      }
+
+      case "reconstruct": {
+        const reconstruction = reconstruct(
+          source,
+          request.extracted,
+          request.image,
+          request.settings
+        );
+        respond({ type: "result", id: request.id, result: reconstruction }, [
+          reconstruction.image.data.buffer,
+          reconstruction.difference.buffer
+        ]);
+        break;
+      }
+
+      case "tuneGrid":
+        respond({
+          type: "result",
+          id: request.id,
+          result: tuneGrid(
+            source,
+            request.settings,
+            request.palette,
+            request.objective,
+            progress(request.id)
+          )
+        });
+        break;
+
+      case "tuneThreshold":
+        respond({
+          type: "result",
+          id: request.id,
+          result: tuneThreshold(
+            source,
+            request.settings,
+            request.objective,
+            progress(request.id)
+          )
+        });
+        break;
+    }
+  } catch (error) {
+    respond({
+      type: "error",
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+function runPending() {
+  const requests: WorkRequest[] = [];
+  pending.forEach((request) => requests.push(request));
+  pending.clear();
+
+  requests.forEach(run);
+}
+
+self.onmessage = (event: MessageEvent<ExtractionRequest>) => {
+  const request = event.data;
+
+  if (request.type === "image") {
+    source = request.image && toImageData(request.image);
+    return;
+  }
+
+  // Messages that arrived while a request ran are all handled before the
+  // timeout, leaving the latest request of each type pending
+  const superseded = pending.get(request.type);
+  if (superseded) {
+    respond({ type: "cancelled", id: superseded.id });
+  } else if (pending.size === 0) {
+    setTimeout(runPending, 0);
+  }
+
+  pending.set(request.type, request);
+};
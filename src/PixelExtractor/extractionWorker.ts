@@ -0,0 +1,229 @@
+// Create React App 4 has no worker support of its own and its webpack
+// config can't be extended without ejecting, so the loader is named inline
+// eslint-disable-next-line import/no-webpack-loader-syntax
+import ExtractionWorkerScript from "worker-loader!./extraction.worker";
+
+import { BatchExtraction } from "../Batch/batchExtraction";
+import { IndexedImage } from "../Exporters/exportTypes";
+import { ExtractionError } from "./extractPixels";
+import {
+  ExtractedPixels,
+  ExtractionRequest,
+  ExtractionResponse,
+  ExtractionResults,
+  ExtractionSettings,
+  PaletteEntry
+} from "./extractorTypes";
+import { Reconstruction } from "./reconstruction";
+import {
+  GridTuning,
+  ThresholdTuning,
+  TuningObjective,
+  TuningProgress,
+  TuningResult
+} from "./tuning";
+
+// Rejects a request that was superseded by a later one of the same type
+export class ExtractionCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionCancelledError";
+  }
+}
+
+export interface ExtractionWorker {
+  // Copy the image on a canvas to the worker. Later extract requests use it.
+  setImage: (canvas: HTMLCanvasElement) => void;
+
+  extract: (
+    grid: ExtractionSettings["grid"],
+    options: Pick<ExtractionSettings, "sampling" | "threshold">
+  ) => Promise<ExtractedPixels>;
+
+  // Scale extracted cells back up over the image, with the grid they were
+  // extracted with
+  reconstruct: (
+    extracted: ExtractedPixels,
+    image: IndexedImage,
+    settings: Pick<ExtractionSettings, "grid" | "outputMode">
+  ) => Promise<Reconstruction>;
+
+  // Tuning runs for a while and can't be interrupted, so it is best given
+  // a worker of its own, and cancelled by terminating it
+  tuneGrid: (
+    settings: ExtractionSettings,
+    palette: PaletteEntry[],
+    objective: TuningObjective,
+    onProgress: TuningProgress
+  ) => Promise<TuningResult<GridTuning>>;
+
+  tuneThreshold: (
+    settings: ExtractionSettings,
+    objective: TuningObjective,
+    onProgress: TuningProgress
+  ) => Promise<TuningResult<ThresholdTuning>>;
+
+  // Extract one image of a batch, which is moved to the worker rather than
+  // replacing the image set with setImage
+  extractBatchImage: (
+    image: ImageData,
+    settings: ExtractionSettings,
+    palette: PaletteEntry[],
+    autoFit: boolean,
+    minAutoFitConfidence: number
+  ) => Promise<BatchExtraction>;
+
+  terminate: () => void;
+}
+
+interface PendingRequest {
+  resolve: (result: ExtractionResults[keyof ExtractionResults]) => void;
+  reject: (error: Error) => void;
+  onProgress?: TuningProgress;
+}
+
+/**
+ * Start a worker that extracts pixels off the main thread.
+ *
+ * Where the browser supports OffscreenCanvas the image is sent as an
+ * ImageBitmap and read back in the worker, otherwise its ImageData is read
+ * here. Either way this happens once per image.
+ */
+export function createExtractionWorker(): ExtractionWorker {
+  const worker = new ExtractionWorkerScript();
+
+  let nextId = 0;
+  const requests = new Map<number, PendingRequest>();
+
+  // Requests wait for the image before them to be posted
+  let imagePosted = Promise.resolve();
+
+  const post = (request: ExtractionRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(request, transfer);
+
+  // Post a request after the image before it, resolving with its result
+  const send = <T extends keyof ExtractionResults>(
+    request: Extract<ExtractionRequest, { type: T; id: number }>,
+    onProgress?: TuningProgress,
+    transfer?: Transferable[]
+  ) =>
+    new Promise<ExtractionResults[T]>((resolve, reject) => {
+      requests.set(request.id, {
+        resolve: resolve as PendingRequest["resolve"],
+        reject,
+        onProgress
+      });
+      imagePosted.then(() => post(request, transfer));
+    });
+
+  worker.onmessage = (event: MessageEvent<ExtractionResponse>) => {
+    const response = event.data;
+    const request = requests.get(response.id);
+
+    if (!request) {
+      return;
+    }
+
+    if (response.type === "progress") {
+      if (request.onProgress) {
+        request.onProgress(response.done, response.total);
+      }
+      return;
+    }
+
+    requests.delete(response.id);
+
+    if (response.type === "result") {
+      request.resolve(response.result);
+    } else if (response.type === "error") {
+      request.reject(new ExtractionError(response.message));
+    } else {
+      request.reject(new ExtractionCancelledError("Extraction superseded"));
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    requests.forEach((request) =>
+      request.reject(new ExtractionError(event.message))
+    );
+    requests.clear();
+  };
+
+  return {
+    setImage: (canvas) => {
+      const { width, height } = canvas;
+
+      if (width === 0 || height === 0) {
+        imagePosted = imagePosted.then(() =>
+          post({ type: "image", image: undefined })
+        );
+      } else if ("OffscreenCanvas" in window) {
+        const bitmap = createImageBitmap(canvas);
+        imagePosted = imagePosted
+          .then(() => bitmap)
+          .then((image) => post({ type: "image", image }, [image]))
+          .catch(() => post({ type: "image", image: undefined }));
+      } else {
+        const image = canvas
+          .getContext("2d")!
+          .getImageData(0, 0, width, height);
+        imagePosted = imagePosted.then(() =>
+          post({ type: "image", image }, [image.data.buffer])
+        );
+      }
+    },
+
+    extract: (grid, options) =>
+      send<"extract">({ type: "extract", id: nextId++, grid, options }),
+
+    reconstruct: (extracted, image, settings) =>
+      send<"reconstruct">({
+        type: "reconstruct",
+        id: nextId++,
+        extracted,
+        image,
+        settings
+      }),
+
+    tuneGrid: (settings, palette, objective, onProgress) =>
+      send<"tuneGrid">(
+        { type: "tuneGrid", id: nextId++, settings, palette, objective },
+        onProgress
+      ),
+
+    tuneThreshold: (settings, objective, onProgress) =>
+      send<"tuneThreshold">(
+        { type: "tuneThreshold", id: nextId++, settings, objective },
+        onProgress
+      ),
+
+    extractBatchImage: (
+      image,
+      settings,
+      palette,
+      autoFit,
+      minAutoFitConfidence
+    ) =>
+      send<"batchImage">(
+        {
+          type: "batchImage",
+          id: nextId++,
+          image,
+          settings,
+          palette,
+          autoFit,
+          minAutoFitConfidence
+        },
+        undefined,
+        [image.data.buffer]
+      ),
+
+    terminate: () => {
+      worker.terminate();
+      requests.forEach((request) =>
+        request.reject(new ExtractionCancelledError("Extraction worker ended"))
+      );
+      requests.clear();
+    }
+  };
+}
@@ -0,0 +1,156 @@
+import { BatchExtraction } from "../Batch/batchExtraction";
+import { IndexedImage } from "../Exporters/exportTypes";
+import { GridParams } from "../GridRenderer/rendererTypes";
+import { GreyscaleOptions } from "./greyscale";
+import { Reconstruction } from "./reconstruction";
+import { ThresholdOptions } from "./threshold";
+import {
+  GridTuning,
+  ThresholdTuning,
+  TuningObjective,
+  TuningResult
+} from "./tuning";
+
+// Colour of a cell, 0 - 255 per channel
+export type RGB = [number, number, number];
+
+// Reduces the pixels inside a cell to a single colour. The pixels are passed
+// row by row as packed RGB triplets, width * height * 3 entries long.
+export type Sampler = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+) => RGB;
+
+export type SamplingMethod =
+  | "mean"
+  | "median"
+  | "center"
+  | "majority"
+  | "trimmedMean";
+
+export interface ExtractOptions {
+  // Built-in sampling method, or a custom sampler (default "mean")
+  sampling?: SamplingMethod | Sampler;
+
+  // Fraction of samples dropped from each end of the range by trimmedMean
+  trimFraction?: number;
+
+  // How sampled colours are classified as on or off
+  threshold?: ThresholdOptions;
+}
+
+export interface ExtractedPixels {
+  // Extent of the grid in cells
+  width: number;
+  height: number;
+
+  // Sampled colour of each cell, row major, RGBA like ImageData.data
+  colors: Uint8ClampedArray;
+
+  // 1 for cells that are on, 0 for cells that are off, row major
+  bits: Uint8Array;
+
+  // Threshold level that was applied (see ThresholdResult)
+  thresholdLevel: number;
+
+  // Luminance of the source pixels inside each cell, row major
+  mean: Float32Array;
+  variance: Float32Array;
+
+  // Distance of each cell's sample from the threshold level, row major
+  // (see ThresholdResult)
+  thresholdDistance: Float32Array;
+}
+
+export type OutputMode = "monochrome" | "palette" | "greyscale";
+
+export interface PaletteEntry {
+  name: string;
+  color: RGB;
+
+  // Locked colours are kept as they are when a palette is derived
+  locked: boolean;
+}
+
+export type PaletteMethod = "kMeans" | "medianCut";
+
+// Everything needed to reproduce an extraction from the source image
+export interface ExtractionSettings {
+  grid: Pick<
+    GridParams,
+    "maxCells" | "cellSize" | "gridOffset" | "perspective" | "boundaries"
+  >;
+  sampling: SamplingMethod;
+  threshold: ThresholdOptions;
+  outputMode: OutputMode;
+
+  // Levels and dithering of greyscale output (default
+  // defaultGreyscaleOptions)
+  greyscale?: GreyscaleOptions;
+}
+
+// Messages to the extraction worker. The source image is sent once and kept
+// by the worker; other requests carry only what they work on.
+export type ExtractionRequest =
+  | { type: "image"; image: ImageBitmap | ImageData | undefined }
+  | {
+      type: "extract";
+      id: number;
+      grid: ExtractionSettings["grid"];
+      options: Pick<ExtractionSettings, "sampling" | "threshold">;
+    }
+  | {
+      type: "reconstruct";
+      id: number;
+      extracted: ExtractedPixels;
+      image: IndexedImage;
+
+      // The grid the cells were extracted with
+      settings: Pick<ExtractionSettings, "grid" | "outputMode">;
+    }
+  | {
+      type: "tuneGrid";
+      id: number;
+      settings: ExtractionSettings;
+      palette: PaletteEntry[];
+      objective: TuningObjective;
+    }
+  | {
+      type: "tuneThreshold";
+      id: number;
+      settings: ExtractionSettings;
+      objective: TuningObjective;
+    }
+  | {
+      // One image of a batch, which comes with its own image rather than
+      // using the source image
+      type: "batchImage";
+      id: number;
+      image: ImageData;
+      settings: ExtractionSettings;
+      palette: PaletteEntry[];
+      autoFit: boolean;
+      minAutoFitConfidence: number;
+    };
+
+// Result of each type of request
+export interface ExtractionResults {
+  extract: ExtractedPixels;
+  reconstruct: Reconstruction;
+  tuneGrid: TuningResult<GridTuning>;
+  tuneThreshold: TuningResult<ThresholdTuning>;
+  batchImage: BatchExtraction;
+}
+
+// Replies from the extraction worker: progress of tuning requests, then
+// exactly one result, error or cancellation per request
+export type ExtractionResponse =
+  | {
+      type: "result";
+      id: number;
+      result: ExtractionResults[keyof ExtractionResults];
+    }
+  | { type: "progress"; id: number; done: number; total: number }
+  | { type: "error"; id: number; message: string }
+  | { type: "cancelled"; id: number };
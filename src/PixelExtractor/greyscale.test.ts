@@ -0,0 +1,104 @@
+import { greyRamp, GreyscaleOptions, quantizeGreyscale } from "./greyscale";
+
+// RGBA cell colours of a width x height image of the given grey levels
+function greyCells(levels: number[]) {
+  const colors = new Uint8ClampedArray(levels.length * 4);
+  levels.forEach((level, i) => {
+    colors.fill(level, i * 4, i * 4 + 3);
+    colors[i * 4 + 3] = 255;
+  });
+  return colors;
+}
+
+const flat = (width: number, height: number, level: number) =>
+  greyCells(new Array(width * height).fill(level));
+
+const quantize = (
+  colors: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: GreyscaleOptions
+) => Array.from(quantizeGreyscale(colors, width, height, options));
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+describe("greyRamp", () => {
+  it("spaces levels evenly from black to white", () => {
+    expect(greyRamp(4)).toEqual([
+      [0, 0, 0],
+      [85, 85, 85],
+      [170, 170, 170],
+      [255, 255, 255]
+    ]);
+  });
+});
+
+describe("quantizeGreyscale", () => {
+  it("rounds each cell to the nearest level without dithering", () => {
+    expect(
+      quantize(greyCells([0, 42, 43, 128, 255]), 5, 1, {
+        levels: 4,
+        dither: "none"
+      })
+    ).toEqual([0, 0, 1, 2, 3]);
+  });
+
+  it("spreads Floyd-Steinberg error to the right and down", () => {
+    const options: GreyscaleOptions = { levels: 2, dither: "floydSteinberg" };
+
+    // 100 rounds down, leaving 7 / 16 of 100 for the cell to the right and
+    // 5 / 16 for the one below, which takes them over half way
+    expect(quantize(greyCells([100, 100]), 2, 1, options)).toEqual([0, 1]);
+    expect(quantize(greyCells([100, 100]), 1, 2, options)).toEqual([0, 1]);
+
+    // And 3 / 16 down and to the left
+    expect(quantize(greyCells([0, 100, 110, 0]), 2, 2, options)).toEqual([
+      0,
+      0,
+      1,
+      0
+    ]);
+  });
+
+  it("keeps the mean of flat 50% grey with Floyd-Steinberg", () => {
+    const indices = quantize(flat(16, 16, 128), 16, 16, {
+      levels: 2,
+      dither: "floydSteinberg"
+    });
+
+    expect(indices.slice(0, 6)).toEqual([1, 0, 1, 0, 1, 0]);
+    expect(mean(indices)).toBeCloseTo(0.5, 1);
+  });
+
+  it("dithers flat 50% grey into the Bayer pattern", () => {
+    const indices = quantize(flat(8, 8, 128), 8, 8, {
+      levels: 2,
+      dither: "ordered"
+    });
+
+    // Cells whose Bayer value is 8 or more are on, a checkerboard that
+    // repeats every 4 cells
+    const pattern = [
+      [0, 1, 0, 1],
+      [1, 0, 1, 0],
+      [0, 1, 0, 1],
+      [1, 0, 1, 0]
+    ];
+    for (let y = 0; y < 8; ++y) {
+      expect(indices.slice(y * 8, y * 8 + 8)).toEqual(
+        pattern[y % 4].concat(pattern[y % 4])
+      );
+    }
+  });
+
+  it("only mixes the neighbouring levels with ordered dithering", () => {
+    const indices = quantize(flat(8, 8, 128), 8, 8, {
+      levels: 4,
+      dither: "ordered"
+    });
+
+    expect(indices.every((index) => index === 1 || index === 2)).toBe(true);
+    expect(mean(indices)).toBeCloseTo(1.5, 1);
+  });
+});
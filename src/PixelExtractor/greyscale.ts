@@ -0,0 +1,100 @@
+import { RGB } from "./extractorTypes";
+import { luminance } from "./threshold";
+
+// Number of grey levels, 1, 2 or 4 bits per cell
+export type GreyLevels = 2 | 4 | 16;
+
+export type DitherMethod =
+  | "none" // Each cell is rounded to the nearest level
+  | "floydSteinberg" // Rounding errors are spread to the neighbouring cells
+  | "ordered"; // Cells are offset by a 4 x 4 Bayer matrix before rounding
+
+export interface GreyscaleOptions {
+  levels: GreyLevels;
+  dither: DitherMethod;
+}
+
+export const defaultGreyscaleOptions: GreyscaleOptions = {
+  levels: 4,
+  dither: "none"
+};
+
+export const greyLevelChoices: GreyLevels[] = [2, 4, 16];
+
+export const ditherMethods: DitherMethod[] = [
+  "none",
+  "floydSteinberg",
+  "ordered"
+];
+
+// 4 x 4 Bayer matrix, row major, values 0 - 15
+const bayerMatrix = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+/** Evenly spaced greys from black to white, index 0 being black */
+export function greyRamp(levels: number): RGB[] {
+  const ramp: RGB[] = [];
+
+  for (let i = 0; i < levels; ++i) {
+    const grey = Math.round((i * 255) / (levels - 1));
+    ramp.push([grey, grey, grey]);
+  }
+
+  return ramp;
+}
+
+/**
+ * Quantise the luminance of each sampled cell colour to one of the levels
+ * of greyRamp(levels), returning the level index of each cell. Dithering
+ * works across cells, never within one.
+ */
+export function quantizeGreyscale(
+  colors: Uint8ClampedArray,
+  width: number,
+  height: number,
+  { levels, dither }: GreyscaleOptions
+): Uint8Array {
+  const step = 255 / (levels - 1);
+  const indices = new Uint8Array(width * height);
+
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; ++i) {
+    values[i] = luminance(colors[i * 4], colors[i * 4 + 1], colors[i * 4 + 2]);
+  }
+
+  const nearest = (value: number) =>
+    Math.min(levels - 1, Math.max(0, Math.round(value / step)));
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      const i = y * width + x;
+      let value = values[i];
+
+      if (dither === "ordered") {
+        // Offset by up to half a step either way
+        value += ((bayerMatrix[(y % 4) * 4 + (x % 4)] + 0.5) / 16 - 0.5) * step;
+      }
+
+      const index = nearest(value);
+      indices[i] = index;
+
+      if (dither === "floydSteinberg") {
+        const error = value - index * step;
+
+        if (x + 1 < width) {
+          values[i + 1] += (error * 7) / 16;
+        }
+        if (y + 1 < height) {
+          if (x > 0) {
+            values[i + width - 1] += (error * 3) / 16;
+          }
+          values[i + width] += (error * 5) / 16;
+          if (x + 1 < width) {
+            values[i + width + 1] += error / 16;
+          }
+        }
+      }
+    }
+  }
+
+  return indices;
+}
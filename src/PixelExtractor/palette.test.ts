@@ -0,0 +1,101 @@
+import { RGB } from "./extractorTypes";
+import {
+  derivePalette,
+  kMeansPalette,
+  medianCutPalette,
+  quantizeToPalette
+} from "./palette";
+
+const red: RGB = [200, 30, 30];
+const green: RGB = [30, 180, 40];
+const blue: RGB = [20, 40, 220];
+const yellow: RGB = [240, 230, 20];
+
+/**
+ * RGBA cell colours, count cells of each colour, each channel offset by up
+ * to spread either way so that clusters aren't single colours
+ */
+function cellColors(palette: RGB[], count: number, spread = 0) {
+  const colors: number[] = [];
+  palette.forEach((color) => {
+    for (let i = 0; i < count; ++i) {
+      const offset = spread > 0 ? (i % (2 * spread + 1)) - spread : 0;
+      colors.push(color[0] + offset, color[1] - offset, color[2] + offset, 255);
+    }
+  });
+  return new Uint8ClampedArray(colors);
+}
+
+// Colours in a fixed order, so that palettes can be compared as sets
+const sorted = (palette: RGB[]) =>
+  palette.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2]);
+
+const methods = [
+  ["median cut", medianCutPalette],
+  ["k-means", kMeansPalette]
+] as const;
+
+describe("palette derivation", () => {
+  const colors = cellColors([red, green, blue, yellow], 25, 3);
+
+  methods.forEach(([name, derive]) => {
+    it(`finds one colour per cluster with ${name}`, () => {
+      const palette = derive(colors, 4);
+
+      expect(palette).toHaveLength(4);
+      sorted(palette).forEach((color, i) => {
+        const expected = sorted([red, green, blue, yellow])[i];
+        color.forEach((channel, c) =>
+          expect(Math.abs(channel - expected[c])).toBeLessThanOrEqual(1)
+        );
+      });
+    });
+
+    it(`gives only the distinct colours when there are fewer than asked for with ${name}`, () => {
+      const palette = derive(cellColors([red, blue], 10), 4);
+
+      expect(sorted(palette)).toEqual(sorted([red, blue]));
+    });
+  });
+
+  it("keeps fixed colours out of the k-means result but assigns cells to them", () => {
+    const palette = kMeansPalette(colors, 4, [red, green]);
+
+    expect(palette).toHaveLength(2);
+    sorted(palette).forEach((color, i) => {
+      const expected = sorted([blue, yellow])[i];
+      color.forEach((channel, c) =>
+        expect(Math.abs(channel - expected[c])).toBeLessThanOrEqual(1)
+      );
+    });
+  });
+
+  it("keeps locked entries in place when deriving", () => {
+    const current = [
+      { name: "Ink", color: [0, 0, 0] as RGB, locked: false },
+      { name: "Red", color: red, locked: true }
+    ];
+    const palette = derivePalette(
+      cellColors([red, blue], 10),
+      2,
+      "kMeans",
+      current
+    );
+
+    expect(palette.map((entry) => entry.name)).toEqual(["Ink", "Red"]);
+    expect(palette[0].color).toEqual(blue);
+    expect(palette[1]).toBe(current[1]);
+  });
+
+  it("maps cells to the nearest palette colour", () => {
+    const palette = [red, green, blue, yellow].map((color, i) => ({
+      name: `Colour ${i + 1}`,
+      color,
+      locked: false
+    }));
+
+    expect(
+      Array.from(quantizeToPalette(cellColors([yellow, red, blue], 1), palette))
+    ).toEqual([3, 0, 2]);
+  });
+});
@@ -0,0 +1,228 @@
+import { PaletteEntry, PaletteMethod, RGB } from "./extractorTypes";
+
+function distanceSquared(colors: ArrayLike<number>, i: number, color: RGB) {
+  const dr = colors[i * 4] - color[0];
+  const dg = colors[i * 4 + 1] - color[1];
+  const db = colors[i * 4 + 2] - color[2];
+
+  return dr * dr + dg * dg + db * db;
+}
+
+function nearestColor(colors: ArrayLike<number>, i: number, palette: RGB[]) {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+
+  for (let p = 0; p < palette.length; ++p) {
+    const distance = distanceSquared(colors, i, palette[p]);
+    if (distance < nearestDistance) {
+      nearest = p;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+function averageColor(colors: ArrayLike<number>, cells: number[]): RGB {
+  const sum: RGB = [0, 0, 0];
+  for (const i of cells) {
+    sum[0] += colors[i * 4];
+    sum[1] += colors[i * 4 + 1];
+    sum[2] += colors[i * 4 + 2];
+  }
+
+  const count = Math.max(1, cells.length);
+  return [
+    Math.round(sum[0] / count),
+    Math.round(sum[1] / count),
+    Math.round(sum[2] / count)
+  ];
+}
+
+/**
+ * Median cut: repeatedly split the box of cells with the widest channel range
+ * at the median of that channel, until there are size boxes.
+ *
+ * @param colors Cell colours, RGBA like ImageData.data
+ */
+export function medianCutPalette(
+  colors: ArrayLike<number>,
+  size: number
+): RGB[] {
+  const count = Math.floor(colors.length / 4);
+  if (count === 0) {
+    return [];
+  }
+
+  const allCells: number[] = [];
+  for (let i = 0; i < count; ++i) {
+    allCells.push(i);
+  }
+
+  const boxes = [allCells];
+
+  const widestChannel = (cells: number[]) => {
+    let widest = { channel: 0, range: -1 };
+
+    for (let c = 0; c < 3; ++c) {
+      let min = 255;
+      let max = 0;
+      for (const i of cells) {
+        min = Math.min(min, colors[i * 4 + c]);
+        max = Math.max(max, colors[i * 4 + c]);
+      }
+
+      if (max - min > widest.range) {
+        widest = { channel: c, range: max - min };
+      }
+    }
+
+    return widest;
+  };
+
+  while (boxes.length < size) {
+    let splitIndex = -1;
+    let splitChannel = 0;
+    let splitRange = 0;
+
+    boxes.forEach((cells, index) => {
+      const { channel, range } = widestChannel(cells);
+      if (cells.length > 1 && range > splitRange) {
+        splitIndex = index;
+        splitChannel = channel;
+        splitRange = range;
+      }
+    });
+
+    // Every box holds a single colour
+    if (splitIndex < 0) {
+      break;
+    }
+
+    const cells = boxes[splitIndex].sort(
+      (a, b) => colors[a * 4 + splitChannel] - colors[b * 4 + splitChannel]
+    );
+    const middle = Math.floor(cells.length / 2);
+
+    boxes.splice(splitIndex, 1, cells.slice(0, middle), cells.slice(middle));
+  }
+
+  return boxes.map((cells) => averageColor(colors, cells));
+}
+
+/**
+ * Lloyd's k-means over the cell colours, seeded by median cut. Fixed colours
+ * take part in the assignment but never move.
+ *
+ * @param colors Cell colours, RGBA like ImageData.data
+ */
+export function kMeansPalette(
+  colors: ArrayLike<number>,
+  size: number,
+  fixedColors: RGB[] = [],
+  iterations = 16
+): RGB[] {
+  const count = Math.floor(colors.length / 4);
+  const freeCount = Math.max(0, size - fixedColors.length);
+
+  const centroids = fixedColors.concat(medianCutPalette(colors, freeCount));
+  const assignments = new Int32Array(count);
+
+  for (let iteration = 0; iteration < iterations; ++iteration) {
+    let changed = false;
+
+    for (let i = 0; i < count; ++i) {
+      const nearest = nearestColor(colors, i, centroids);
+      if (nearest !== assignments[i] || iteration === 0) {
+        assignments[i] = nearest;
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      break;
+    }
+
+    for (let p = fixedColors.length; p < centroids.length; ++p) {
+      const members: number[] = [];
+      for (let i = 0; i < count; ++i) {
+        if (assignments[i] === p) {
+          members.push(i);
+        }
+      }
+
+      if (members.length > 0) {
+        centroids[p] = averageColor(colors, members);
+      }
+    }
+  }
+
+  return centroids.slice(fixedColors.length);
+}
+
+/**
+ * Derive a palette from the cell colours. Locked entries of the current
+ * palette are kept in place, the remaining entries are replaced.
+ */
+export function derivePalette(
+  colors: ArrayLike<number>,
+  size: number,
+  method: PaletteMethod,
+  current: PaletteEntry[] = []
+): PaletteEntry[] {
+  const locked = current.filter((entry) => entry.locked);
+  const freeCount = Math.max(0, size - locked.length);
+
+  const derived =
+    method === "kMeans"
+      ? kMeansPalette(
+          colors,
+          size,
+          locked.map((entry) => entry.color)
+        )
+      : medianCutPalette(colors, freeCount);
+
+  // Reuse the names and positions of unlocked entries where possible
+  const result: PaletteEntry[] = [];
+  let next = 0;
+
+  for (const entry of current) {
+    if (entry.locked) {
+      result.push(entry);
+    } else if (next < derived.length) {
+      result.push({ ...entry, color: derived[next++] });
+    }
+  }
+
+  while (next < derived.length) {
+    result.push({
+      name: `Colour ${result.length + 1}`,
+      color: derived[next++],
+      locked: false
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Map every cell to the index of the nearest palette colour.
+ *
+ * @param colors Cell colours, RGBA like ImageData.data
+ */
+export function quantizeToPalette(
+  colors: ArrayLike<number>,
+  palette: PaletteEntry[]
+): Uint8Array {
+  const count = Math.floor(colors.length / 4);
+  const indices = new Uint8Array(count);
+  const paletteColors = palette.map((entry) => entry.color);
+
+  if (paletteColors.length > 0) {
+    for (let i = 0; i < count; ++i) {
+      indices[i] = nearestColor(colors, i, paletteColors);
+    }
+  }
+
+  return indices;
+}
@@ -0,0 +1,258 @@
+import { IndexedImage } from "../Exporters/exportTypes";
+import { cellToCanvas, invert, project } from "../GridRenderer/perspective";
+import { ExtractedPixels, ExtractionSettings, RGB } from "./extractorTypes";
+import { luminance } from "./threshold";
+
+export interface ReconstructionMetrics {
+  // Mean absolute difference per channel, 0 - 255, over the source pixels
+  // inside the grid
+  meanAbsoluteError: number;
+
+  // Peak signal to noise ratio in dB, Infinity for an exact match
+  psnr: number;
+
+  // Cells whose mean absolute error is above the mismatch level
+  mismatchedCells: number;
+  cellCount: number;
+
+  // Source pixels inside the grid
+  pixelCount: number;
+}
+
+export interface Reconstruction {
+  // The extracted image scaled back up to source image space, RGBA, with
+  // transparent pixels outside the grid
+  image: ImageData;
+
+  // Mean absolute difference per channel of each source pixel, row major,
+  // or -1 outside the grid
+  difference: Float32Array;
+
+  metrics: ReconstructionMetrics;
+}
+
+// Cells that differ from the source by more than this on average count as
+// mismatched
+export const defaultMismatchLevel = 32;
+
+/**
+ * The cell of each source pixel as a row major cell index, or -1 outside
+ * the grid. Pixels of perspective grids belong to the cell their centre is
+ * in.
+ */
+function pixelCells(
+  sourceWidth: number,
+  sourceHeight: number,
+  { gridOffset, cellSize, perspective, boundaries }: ExtractionSettings["grid"],
+  cellsAcross: number,
+  cellsDown: number
+): Int32Array {
+  const cells = new Int32Array(sourceWidth * sourceHeight).fill(-1);
+
+  if (perspective) {
+    const toCells = invert(cellToCanvas(perspective));
+
+    for (let y = 0; y < sourceHeight; ++y) {
+      for (let x = 0; x < sourceWidth; ++x) {
+        const [cellX, cellY] = project(toCells, [x + 0.5, y + 0.5]).map(
+          Math.floor
+        );
+        if (
+          cellX >= 0 &&
+          cellY >= 0 &&
+          cellX < cellsAcross &&
+          cellY < cellsDown
+        ) {
+          cells[y * sourceWidth + x] = cellY * cellsAcross + cellX;
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  // Axis aligned grids are separable, so look up columns and rows once.
+  // Cells cover the same pixel ranges as when they were extracted.
+  const axisCells = (axis: 0 | 1, size: number, count: number) => {
+    const result = new Int32Array(size).fill(-1);
+
+    for (let cell = 0; cell < count; ++cell) {
+      let start, end;
+
+      if (boundaries) {
+        const lines = axis === 0 ? boundaries.columns : boundaries.rows;
+        start = Math.round(lines[cell]);
+        end = Math.round(lines[cell + 1]);
+      } else {
+        start = Math.round(gridOffset[axis] + cell * cellSize[axis]);
+        end = Math.round(start + cellSize[axis]);
+      }
+
+      for (let i = Math.max(0, start); i < Math.min(size, end); ++i) {
+        result[i] = cell;
+      }
+    }
+
+    return result;
+  };
+
+  const columns = axisCells(0, sourceWidth, cellsAcross);
+  const rows = axisCells(1, sourceHeight, cellsDown);
+
+  for (let y = 0; y < sourceHeight; ++y) {
+    for (let x = 0; x < sourceWidth; ++x) {
+      if (columns[x] >= 0 && rows[y] >= 0) {
+        cells[y * sourceWidth + x] = rows[y] * cellsAcross + columns[x];
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Colour each palette index is drawn with. Monochrome black and white stand
+ * for the off and on colours of the source, so they are replaced by the
+ * mean sampled colour of the off and on cells.
+ */
+function indexColors(
+  extracted: ExtractedPixels,
+  { indices, palette }: IndexedImage,
+  outputMode: ExtractionSettings["outputMode"]
+): RGB[] {
+  if (outputMode !== "monochrome") {
+    return palette;
+  }
+
+  const sums = palette.map(() => [0, 0, 0, 0]);
+  for (let i = 0; i < indices.length; ++i) {
+    const sum = sums[indices[i]];
+    for (let c = 0; c < 3; ++c) {
+      sum[c] += extracted.colors[i * 4 + c];
+    }
+    ++sum[3];
+  }
+
+  return palette.map((color, index) => {
+    const [r, g, b, count] = sums[index];
+    return count > 0
+      ? [Math.round(r / count), Math.round(g / count), Math.round(b / count)]
+      : color;
+  });
+}
+
+/**
+ * Scale the extracted image back up into source image space using the same
+ * grid, and compare it with the source pixel by pixel. Greyscale output is
+ * compared with the luminance of the source, everything else with its
+ * colours.
+ *
+ * @param extracted The extraction that image was made from
+ * @param image The extracted image, possibly edited
+ */
+export function reconstruct(
+  source: ImageData,
+  extracted: ExtractedPixels,
+  image: IndexedImage,
+  { grid, outputMode }: Pick<ExtractionSettings, "grid" | "outputMode">,
+  mismatchLevel = defaultMismatchLevel
+): Reconstruction {
+  const { width, height, data } = source;
+  const cells = pixelCells(width, height, grid, image.width, image.height);
+  const colors = indexColors(extracted, image, outputMode);
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const difference = new Float32Array(width * height).fill(-1);
+  const cellError = new Float64Array(image.width * image.height);
+  const cellPixels = new Uint32Array(image.width * image.height);
+
+  let absoluteError = 0;
+  let squaredError = 0;
+  let pixelCount = 0;
+
+  for (let i = 0; i < cells.length; ++i) {
+    const cell = cells[i];
+    if (cell < 0) {
+      continue;
+    }
+
+    const color = colors[image.indices[cell]];
+    if (!color) {
+      continue;
+    }
+
+    pixels.set(color, i * 4);
+    pixels[i * 4 + 3] = 255;
+
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const grey = luminance(r, g, b);
+    const reference: RGB =
+      outputMode === "greyscale" ? [grey, grey, grey] : [r, g, b];
+
+    let pixelError = 0;
+    for (let c = 0; c < 3; ++c) {
+      const error = Math.abs(color[c] - reference[c]);
+      pixelError += error;
+      squaredError += error * error;
+    }
+    pixelError /= 3;
+
+    difference[i] = pixelError;
+    absoluteError += pixelError;
+    cellError[cell] += pixelError;
+    ++cellPixels[cell];
+    ++pixelCount;
+  }
+
+  let mismatchedCells = 0;
+  for (let cell = 0; cell < cellError.length; ++cell) {
+    if (
+      cellPixels[cell] > 0 &&
+      cellError[cell] / cellPixels[cell] > mismatchLevel
+    ) {
+      ++mismatchedCells;
+    }
+  }
+
+  const meanSquaredError = pixelCount > 0 ? squaredError / (pixelCount * 3) : 0;
+
+  return {
+    image: { width, height, data: pixels },
+    difference,
+    metrics: {
+      meanAbsoluteError: pixelCount > 0 ? absoluteError / pixelCount : 0,
+      psnr:
+        meanSquaredError > 0
+          ? 10 * Math.log10((255 * 255) / meanSquaredError)
+          : Infinity,
+      mismatchedCells,
+      cellCount: image.width * image.height,
+      pixelCount
+    }
+  };
+}
+
+/**
+ * Heat map of the difference of a reconstruction, from transparent where
+ * it matches the source through yellow to opaque red at half the range
+ * and above
+ */
+export function differenceHeatMap({
+  image,
+  difference
+}: Reconstruction): ImageData {
+  const pixels = new Uint8ClampedArray(difference.length * 4);
+
+  for (let i = 0; i < difference.length; ++i) {
+    if (difference[i] > 0) {
+      const t = Math.min(1, difference[i] / 128);
+      pixels[i * 4] = 255;
+      pixels[i * 4 + 1] = Math.round(255 * (1 - t));
+      pixels[i * 4 + 3] = Math.round(64 + 191 * t);
+    }
+  }
+
+  return { width: image.width, height: image.height, data: pixels };
+}
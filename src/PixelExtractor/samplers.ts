@@ -0,0 +1,124 @@
+import { RGB, Sampler, SamplingMethod } from "./extractorTypes";
+
+export const meanSampler: Sampler = (pixels, width, height) => {
+  const count = width * height;
+  const sum: RGB = [0, 0, 0];
+
+  for (let i = 0; i < count * 3; i += 3) {
+    sum[0] += pixels[i];
+    sum[1] += pixels[i + 1];
+    sum[2] += pixels[i + 2];
+  }
+
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
+
+function sortedChannel(pixels: Uint8ClampedArray, count: number, c: number) {
+  const values: number[] = [];
+  for (let i = 0; i < count; ++i) {
+    values.push(pixels[i * 3 + c]);
+  }
+
+  return values.sort((a, b) => a - b);
+}
+
+export const medianSampler: Sampler = (pixels, width, height) => {
+  const count = width * height;
+  const median = (c: number) => {
+    const values = sortedChannel(pixels, count, c);
+    const middle = Math.floor(count / 2);
+
+    return count % 2 === 1
+      ? values[middle]
+      : (values[middle - 1] + values[middle]) / 2;
+  };
+
+  return [median(0), median(1), median(2)];
+};
+
+export const centerSampler: Sampler = (pixels, width, height) => {
+  const i = (Math.floor(height / 2) * width + Math.floor(width / 2)) * 3;
+
+  return [pixels[i], pixels[i + 1], pixels[i + 2]];
+};
+
+// Most common colour in the cell. Colours are binned at 5 bits per channel
+// so that compression noise doesn't split the vote, and the winning bin is
+// averaged.
+export const majoritySampler: Sampler = (pixels, width, height) => {
+  const count = width * height;
+  const binOf = (i: number) =>
+    ((pixels[i] >> 3) << 10) |
+    ((pixels[i + 1] >> 3) << 5) |
+    (pixels[i + 2] >> 3);
+
+  const votes = new Map<number, number>();
+  let winner = binOf(0);
+  let winnerVotes = 0;
+
+  for (let i = 0; i < count * 3; i += 3) {
+    const bin = binOf(i);
+    const binVotes = (votes.get(bin) || 0) + 1;
+    votes.set(bin, binVotes);
+
+    if (binVotes > winnerVotes) {
+      winner = bin;
+      winnerVotes = binVotes;
+    }
+  }
+
+  const sum: RGB = [0, 0, 0];
+  for (let i = 0; i < count * 3; i += 3) {
+    if (binOf(i) === winner) {
+      sum[0] += pixels[i];
+      sum[1] += pixels[i + 1];
+      sum[2] += pixels[i + 2];
+    }
+  }
+
+  return [sum[0] / winnerVotes, sum[1] / winnerVotes, sum[2] / winnerVotes];
+};
+
+export function trimmedMeanSampler(trimFraction: number): Sampler {
+  return (pixels, width, height) => {
+    const count = width * height;
+    const trim = Math.min(
+      Math.floor(count * trimFraction),
+      Math.floor((count - 1) / 2)
+    );
+
+    const trimmedMean = (c: number) => {
+      const values = sortedChannel(pixels, count, c);
+      let sum = 0;
+      for (let i = trim; i < count - trim; ++i) {
+        sum += values[i];
+      }
+
+      return sum / (count - 2 * trim);
+    };
+
+    return [trimmedMean(0), trimmedMean(1), trimmedMean(2)];
+  };
+}
+
+export function samplerFor(
+  sampling: SamplingMethod | Sampler,
+  trimFraction: number
+): Sampler {
+  if (typeof sampling === "function") {
+    return sampling;
+  }
+
+  switch (sampling) {
+    case "mean":
+      return meanSampler;
+    case "median":
+      return medianSampler;
+    case "center":
+      return centerSampler;
+    case "majority":
+      return majoritySampler;
+    case "trimmedMean":
+      return trimmedMeanSampler(trimFraction);
+  }
+}
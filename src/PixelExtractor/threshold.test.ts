@@ -0,0 +1,102 @@
+import {
+  applyThreshold,
+  defaultThresholdOptions,
+  otsuLevel,
+  ThresholdOptions
+} from "./threshold";
+
+// Packed RGB triplets of greys
+const greys = (levels: number[]) =>
+  levels.reduce<number[]>(
+    (colors, level) => colors.concat(level, level, level),
+    []
+  );
+
+const threshold = (colors: number[], options: Partial<ThresholdOptions>) =>
+  applyThreshold(colors, { ...defaultThresholdOptions, ...options });
+
+describe("otsuLevel", () => {
+  it("splits a bimodal histogram in the valley between the modes", () => {
+    // A large dark mode around 40 and a small light one around 200, so the
+    // valley isn't at the middle of the range or of the histogram
+    const histogram = new Uint32Array(256);
+    for (let offset = -10; offset <= 10; ++offset) {
+      histogram[40 + offset] = 100 - Math.abs(offset) * 5;
+      histogram[200 + offset] = 20 - Math.abs(offset);
+    }
+
+    const level = otsuLevel(histogram);
+    expect(level).toBeGreaterThanOrEqual(50);
+    expect(level).toBeLessThan(190);
+  });
+
+  it("keeps the default level for a histogram with one value", () => {
+    const histogram = new Uint32Array(256);
+    histogram[90] = 50;
+
+    expect(otsuLevel(histogram)).toBe(127);
+  });
+});
+
+describe("applyThreshold", () => {
+  it("separates two groups of cells with otsu", () => {
+    const colors = greys([30, 35, 40, 45, 50, 180, 220]);
+    const { bits, level } = threshold(colors, { mode: "otsu" });
+
+    expect(Array.from(bits)).toEqual([0, 0, 0, 0, 0, 1, 1]);
+    expect(level).toBeGreaterThanOrEqual(50);
+    expect(level).toBeLessThan(180);
+  });
+
+  it("classifies a flat image one way with otsu", () => {
+    expect(
+      Array.from(threshold(greys([60, 60, 60]), { mode: "otsu" }).bits)
+    ).toEqual([0, 0, 0]);
+    expect(
+      Array.from(threshold(greys([200, 200, 200]), { mode: "otsu" }).bits)
+    ).toEqual([1, 1, 1]);
+  });
+
+  it("turns on colours within the colour key tolerance, inclusive", () => {
+    // 64, 65 and 0 away from white
+    const colors = [255, 255, 191, 255, 255, 190, 255, 255, 255];
+    const { bits, level, distances } = threshold(colors, {
+      mode: "colorKey",
+      keyColor: [255, 255, 255],
+      tolerance: 64
+    });
+
+    expect(Array.from(bits)).toEqual([1, 0, 1]);
+    expect(level).toBe(64);
+    expect(Array.from(distances)).toEqual([0, 1, 64]);
+  });
+
+  it("compares against the level strictly in the other modes", () => {
+    const colors = greys([127, 128]);
+
+    ["anyChannel", "luminance", "channel"].forEach((mode) => {
+      expect(
+        Array.from(
+          threshold(colors, { mode: mode as ThresholdOptions["mode"] }).bits
+        )
+      ).toEqual([0, 1]);
+    });
+  });
+
+  it("swaps on and off cells when inverted, keeping the distances", () => {
+    const colors = [10, 10, 10, 250, 250, 250, 0, 0, 255];
+
+    (["anyChannel", "luminance", "otsu", "colorKey"] as const).forEach(
+      (mode) => {
+        const plain = threshold(colors, { mode });
+        const inverted = threshold(colors, { mode, invert: true });
+
+        expect(Array.from(inverted.bits)).toEqual(
+          Array.from(plain.bits, (bit) => 1 - bit)
+        );
+        expect(inverted.distances).toEqual(plain.distances);
+        expect(inverted.level).toBe(plain.level);
+      }
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { RGB } from "./extractorTypes";
+
+export type ThresholdMode =
+  | "anyChannel" // On if any channel is above the level
+  | "luminance" // On if the weighted luminance is above the level
+  | "channel" // On if the selected channel is above the level
+  | "otsu" // Luminance, with the level picked from the cell histogram
+  | "colorKey"; // On if within tolerance of the key colour
+
+export interface ThresholdOptions {
+  mode: ThresholdMode;
+
+  // 0 - 255, used by anyChannel, luminance and channel
+  level: number;
+
+  // 0 = red, 1 = green, 2 = blue
+  channel: 0 | 1 | 2;
+
+  // Used by colorKey. Tolerance is a Euclidean distance in RGB space.
+  keyColor: RGB;
+  tolerance: number;
+
+  // Swap on and off cells, for dark on light images
+  invert: boolean;
+}
+
+export const defaultThresholdOptions: ThresholdOptions = {
+  mode: "anyChannel",
+  level: 127,
+  channel: 0,
+  keyColor: [255, 255, 255],
+  tolerance: 64,
+  invert: false
+};
+
+export interface ThresholdResult {
+  // 1 for cells that are on, 0 for cells that are off
+  bits: Uint8Array;
+
+  // The level that was applied. For otsu this is the computed level, for
+  // colorKey it is the tolerance.
+  level: number;
+
+  // How far each cell's value is from the level, in the same units. Cells
+  // close to the level could easily have gone the other way.
+  distances: Float32Array;
+}
+
+// Rec. 601 luma
+export function luminance(r: number, g: number, b: number) {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+/**
+ * Pick the level that maximises the variance between the two classes of a
+ * 256 bin histogram.
+ */
+export function otsuLevel(histogram: ArrayLike<number>): number {
+  let total = 0;
+  let weightedTotal = 0;
+  for (let i = 0; i < 256; ++i) {
+    total += histogram[i];
+    weightedTotal += i * histogram[i];
+  }
+
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let bestLevel = 127;
+
+  for (let level = 0; level < 256; ++level) {
+    backgroundCount += histogram[level];
+    backgroundSum += level * histogram[level];
+
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0 || foregroundCount === 0) {
+      continue;
+    }
+
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (weightedTotal - backgroundSum) / foregroundCount;
+    const variance =
+      backgroundCount *
+      foregroundCount *
+      (backgroundMean - foregroundMean) *
+      (backgroundMean - foregroundMean);
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestLevel = level;
+    }
+  }
+
+  return bestLevel;
+}
+
+/**
+ * Classify sampled cell colours as on or off.
+ *
+ * @param colors Packed RGB triplets, one per cell
+ */
+export function applyThreshold(
+  colors: ArrayLike<number>,
+  { mode, level, channel, keyColor, tolerance, invert }: ThresholdOptions
+): ThresholdResult {
+  const count = Math.floor(colors.length / 3);
+  const bits = new Uint8Array(count);
+  const distances = new Float32Array(count);
+
+  const luminanceOf = (i: number) =>
+    luminance(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+
+  // The value compared against the level
+  let valueOf: (i: number) => number;
+  let isOn: (i: number) => boolean;
+
+  switch (mode) {
+    case "anyChannel":
+      valueOf = (i) =>
+        Math.max(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+      isOn = (i) =>
+        colors[i * 3] > level ||
+        colors[i * 3 + 1] > level ||
+        colors[i * 3 + 2] > level;
+      break;
+
+    case "luminance":
+      valueOf = luminanceOf;
+      isOn = (i) => luminanceOf(i) > level;
+      break;
+
+    case "channel":
+      valueOf = (i) => colors[i * 3 + channel];
+      isOn = (i) => colors[i * 3 + channel] > level;
+      break;
+
+    case "otsu": {
+      const histogram = new Uint32Array(256);
+      for (let i = 0; i < count; ++i) {
+        ++histogram[Math.min(255, Math.max(0, Math.round(luminanceOf(i))))];
+      }
+
+      level = otsuLevel(histogram);
+      valueOf = luminanceOf;
+      isOn = (i) => luminanceOf(i) > level;
+      break;
+    }
+
+    case "colorKey":
+      level = tolerance;
+      valueOf = (i) =>
+        Math.hypot(
+          colors[i * 3] - keyColor[0],
+          colors[i * 3 + 1] - keyColor[1],
+          colors[i * 3 + 2] - keyColor[2]
+        );
+      isOn = (i) => valueOf(i) <= tolerance;
+      break;
+  }
+
+  for (let i = 0; i < count; ++i) {
+    bits[i] = isOn(i) !== invert ? 1 : 0;
+    distances[i] = Math.abs(valueOf(i) - level);
+  }
+
+  return { bits, level, distances };
+}
@@ -0,0 +1,48 @@
+import { defaultThresholdOptions } from "./threshold";
+import { tuneGrid } from "./tuning";
+
+// 12 x 12 cells of 8 x 8 pixels, black or white at random with a fixed seed
+function randomCells(): ImageData {
+  const cells = 12;
+  const size = cells * 8;
+  const on: boolean[] = [];
+
+  let seed = 12345;
+  for (let i = 0; i < cells * cells; ++i) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    on.push((seed >> 16) % 2 === 1);
+  }
+
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; ++y) {
+    for (let x = 0; x < size; ++x) {
+      const level = on[Math.floor(y / 8) * cells + Math.floor(x / 8)] ? 255 : 0;
+      data.fill(level, (y * size + x) * 4, (y * size + x) * 4 + 3);
+      data[(y * size + x) * 4 + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, data } as ImageData;
+}
+
+describe("tuneGrid", () => {
+  it("finds the grid from a start away from the nearest local minimum", () => {
+    const { value, metrics } = tuneGrid(
+      randomCells(),
+      {
+        grid: { maxCells: [11, 11], cellSize: [8.3, 7.8], gridOffset: [4, 1] },
+        sampling: "mean",
+        threshold: defaultThresholdOptions,
+        outputMode: "monochrome"
+      },
+      [],
+      "meanAbsoluteError"
+    );
+
+    value.cellSize.forEach((size) => expect(size).toBeCloseTo(8, 1));
+    value.gridOffset.forEach((offset) =>
+      expect(Math.abs(offset - 8 * Math.round(offset / 8))).toBeLessThan(0.5)
+    );
+    expect(metrics.meanAbsoluteError).toBeLessThan(1);
+  });
+});
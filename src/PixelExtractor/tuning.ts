@@ -0,0 +1,317 @@
+import { toIndexedImage } from "../Exporters/indexedImage";
+import { detectGrid } from "../GridDetection/detectGrid";
+import { Coord } from "../GridRenderer/rendererTypes";
+import { ExtractionError, extractPixels } from "./extractPixels";
+import {
+  ExtractedPixels,
+  ExtractionSettings,
+  PaletteEntry
+} from "./extractorTypes";
+import { reconstruct, ReconstructionMetrics } from "./reconstruction";
+import { applyThreshold, ThresholdOptions } from "./threshold";
+
+export type TuningObjective = "meanAbsoluteError" | "psnr" | "mismatchedCells";
+
+export class TuningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TuningError";
+  }
+}
+
+export interface TuningResult<T> {
+  value: T;
+  metrics: ReconstructionMetrics;
+
+  // Number of extractions or thresholds tried
+  evaluations: number;
+}
+
+export type GridTuning = Pick<
+  ExtractionSettings["grid"],
+  "cellSize" | "gridOffset"
+>;
+
+export type ThresholdTuning = Pick<ThresholdOptions, "level" | "tolerance">;
+
+// Called after each extraction or threshold tried, with the number tried so
+// far and an upper bound on the number that will be
+export type TuningProgress = (done: number, total: number) => void;
+
+// Grid tuning stops once the offset step drops below this many pixels
+const minOffsetStep = 1 / 8;
+
+// Upper bound on the extractions tried by grid tuning
+const maxGridEvaluations = 120;
+
+// The grid detected in the image is only tried as a starting point when its
+// cells are within this fraction of the current cell size
+const maxSeedSizeChange = 0.25;
+
+// Threshold tuning tries every coarseStep levels before refining
+const coarseStep = 8;
+
+/** Objective value of the metrics, lower is better */
+export function objectiveValue(
+  metrics: ReconstructionMetrics,
+  objective: TuningObjective
+) {
+  switch (objective) {
+    case "meanAbsoluteError":
+      return metrics.meanAbsoluteError;
+    case "psnr":
+      return -metrics.psnr;
+    case "mismatchedCells":
+      // Ties are broken by the mean error, so that the search has a slope
+      // to follow while the count doesn't change
+      return metrics.mismatchedCells + metrics.meanAbsoluteError / 256;
+  }
+}
+
+// Metrics of cells extracted with the given grid
+function metricsOf(
+  source: ImageData,
+  extracted: ExtractedPixels,
+  grid: ExtractionSettings["grid"],
+  settings: ExtractionSettings,
+  palette: PaletteEntry[]
+) {
+  return reconstruct(
+    source,
+    extracted,
+    toIndexedImage(extracted, settings.outputMode, palette, settings.greyscale),
+    { grid, outputMode: settings.outputMode }
+  ).metrics;
+}
+
+/**
+ * Adjust the offset and cell size of a uniform grid to minimise the
+ * objective, with a pattern search. The search only finds the nearest local
+ * minimum, so it starts from the better of the current grid and the grid
+ * detected in the image, shifted by whole cells to lie over the current
+ * one. The number of cells is kept, so that the grid can't improve its
+ * score by covering less of the image. Edits aren't applied, as they belong
+ * to the cells of the current grid.
+ */
+export function tuneGrid(
+  source: ImageData,
+  settings: ExtractionSettings,
+  palette: PaletteEntry[],
+  objective: TuningObjective,
+  onProgress?: TuningProgress
+): TuningResult<GridTuning> {
+  const { grid } = settings;
+  if (grid.perspective || grid.boundaries) {
+    throw new TuningError("Only uniform grids can be tuned.");
+  }
+
+  const initial = extractPixels(source, grid, settings);
+  const maxCells: Coord = [initial.width, initial.height];
+  if (initial.width === 0 || initial.height === 0) {
+    throw new TuningError("The grid has no cells to tune.");
+  }
+
+  let evaluations = 0;
+  const evaluate = (params: number[]) => {
+    ++evaluations;
+    if (onProgress) {
+      onProgress(evaluations, maxGridEvaluations);
+    }
+
+    try {
+      const candidate = {
+        maxCells,
+        gridOffset: [params[0], params[1]] as Coord,
+        cellSize: [params[2], params[3]] as Coord
+      };
+      const extracted = extractPixels(source, candidate, settings);
+
+      if (extracted.width !== maxCells[0] || extracted.height !== maxCells[1]) {
+        return undefined;
+      }
+
+      return metricsOf(source, extracted, candidate, settings, palette);
+    } catch (error) {
+      if (error instanceof ExtractionError) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  // Offset x, offset y, cell width and cell height. Size errors add up
+  // across the grid, so sizes move in much smaller steps than offsets.
+  let best = [
+    grid.gridOffset[0],
+    grid.gridOffset[1],
+    grid.cellSize[0],
+    grid.cellSize[1]
+  ];
+  let bestMetrics = metricsOf(source, initial, grid, settings, palette);
+  let bestValue = objectiveValue(bestMetrics, objective);
+
+  const detected = detectGrid(source);
+  const seedSizeChange = Math.max(
+    Math.abs(detected.cellSize[0] / grid.cellSize[0] - 1),
+    Math.abs(detected.cellSize[1] / grid.cellSize[1] - 1)
+  );
+
+  if (detected.confidence > 0 && seedSizeChange <= maxSeedSizeChange) {
+    const offset = (axis: 0 | 1) =>
+      detected.gridOffset[axis] +
+      Math.round(
+        (grid.gridOffset[axis] - detected.gridOffset[axis]) /
+          detected.cellSize[axis]
+      ) *
+        detected.cellSize[axis];
+
+    const seed = [offset(0), offset(1), ...detected.cellSize];
+    const metrics = evaluate(seed);
+    const value = metrics && objectiveValue(metrics, objective);
+
+    if (metrics && value !== undefined && value < bestValue) {
+      best = seed;
+      bestMetrics = metrics;
+      bestValue = value;
+    }
+  }
+
+  const steps = [
+    best[2] / 4,
+    best[3] / 4,
+    best[2] / (4 * maxCells[0]),
+    best[3] / (4 * maxCells[1])
+  ];
+
+  while (
+    Math.max(steps[0], steps[1]) >= minOffsetStep &&
+    evaluations < maxGridEvaluations
+  ) {
+    let improved = false;
+
+    for (let param = 0; param < best.length; ++param) {
+      for (const direction of [-1, 1]) {
+        const candidate = best.slice();
+        candidate[param] += direction * steps[param];
+
+        const metrics = evaluate(candidate);
+        const value = metrics && objectiveValue(metrics, objective);
+
+        if (metrics && value !== undefined && value < bestValue) {
+          best = candidate;
+          bestMetrics = metrics;
+          bestValue = value;
+          improved = true;
+          break;
+        }
+      }
+    }
+
+    if (!improved) {
+      for (let param = 0; param < steps.length; ++param) {
+        steps[param] /= 2;
+      }
+    }
+  }
+
+  return {
+    value: { gridOffset: [best[0], best[1]], cellSize: [best[2], best[3]] },
+    metrics: bestMetrics,
+    evaluations
+  };
+}
+
+/**
+ * Pick the threshold level (or colour key tolerance) that minimises the
+ * objective on the current grid. The cells are sampled once and only
+ * re-thresholded for each level. Only monochrome output depends on the
+ * threshold.
+ */
+export function tuneThreshold(
+  source: ImageData,
+  settings: ExtractionSettings,
+  objective: TuningObjective,
+  onProgress?: TuningProgress
+): TuningResult<ThresholdTuning> {
+  const { threshold } = settings;
+
+  if (settings.outputMode !== "monochrome") {
+    throw new TuningError("The threshold only affects monochrome output.");
+  }
+
+  if (threshold.mode === "otsu") {
+    throw new TuningError("Otsu's method picks its own threshold level.");
+  }
+
+  const extracted = extractPixels(source, settings.grid, settings);
+  const cellCount = extracted.width * extracted.height;
+
+  const samples = new Uint8ClampedArray(cellCount * 3);
+  for (let i = 0; i < cellCount; ++i) {
+    samples.set(extracted.colors.subarray(i * 4, i * 4 + 3), i * 3);
+  }
+
+  const colorKey = threshold.mode === "colorKey";
+  const maxLevel = colorKey ? 442 : 255;
+  const tried: { [level: number]: number } = {};
+  const maxEvaluations =
+    Math.floor(maxLevel / coarseStep) + 1 + 2 * (coarseStep - 1);
+  let evaluations = 0;
+
+  let bestLevel = -1;
+  let bestMetrics: ReconstructionMetrics | undefined;
+  let bestValue = Infinity;
+
+  const evaluate = (level: number) => {
+    if (level < 0 || level > maxLevel || tried[level] !== undefined) {
+      return;
+    }
+
+    const { bits } = applyThreshold(
+      samples,
+      colorKey ? { ...threshold, tolerance: level } : { ...threshold, level }
+    );
+    const metrics = metricsOf(
+      source,
+      { ...extracted, bits },
+      settings.grid,
+      settings,
+      []
+    );
+    const value = objectiveValue(metrics, objective);
+    tried[level] = value;
+
+    ++evaluations;
+    if (onProgress) {
+      onProgress(evaluations, maxEvaluations);
+    }
+
+    if (value < bestValue) {
+      bestLevel = level;
+      bestMetrics = metrics;
+      bestValue = value;
+    }
+  };
+
+  // Every coarseStep levels, then every level around the best of those
+  for (let level = 0; level <= maxLevel; level += coarseStep) {
+    evaluate(level);
+  }
+  const coarseBest = bestLevel;
+  for (let offset = 1; offset < coarseStep; ++offset) {
+    evaluate(coarseBest - offset);
+    evaluate(coarseBest + offset);
+  }
+
+  if (!bestMetrics) {
+    throw new TuningError("No threshold level could be evaluated.");
+  }
+
+  return {
+    value: colorKey
+      ? { level: threshold.level, tolerance: bestLevel }
+      : { level: bestLevel, tolerance: threshold.tolerance },
+    metrics: bestMetrics,
+    evaluations
+  };
+}
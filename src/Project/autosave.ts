@@ -0,0 +1,48 @@
+// The current session is kept in IndexedDB rather than localStorage, as
+// the source image can easily exceed the localStorage quota.
+
+const databaseName = "extract-pixels";
+const storeName = "autosave";
+const sessionKey = "session";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+/** Store a serialized project as the current session */
+export function saveSession(project: string): Promise<void> {
+  return withStore("readwrite", (store) => store.put(project, sessionKey));
+}
+
+/** The serialized project of the last session, if any */
+export function loadSession(): Promise<string | undefined> {
+  return withStore("readonly", (store) => store.get(sessionKey));
+}
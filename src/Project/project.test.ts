@@ -0,0 +1,177 @@
+import { defaultGreyscaleOptions } from "../PixelExtractor/greyscale";
+import { defaultRegionSettings } from "../Regions/regions";
+import {
+  currentProjectVersion,
+  parseProject,
+  ProjectContent,
+  ProjectError,
+  serializeProject
+} from "./project";
+
+const content: ProjectContent = {
+  image: "data:image/png;base64,",
+  settings: defaultRegionSettings,
+  imageScale: 2,
+  palette: [{ name: "Ink", color: [10, 20, 30], locked: true }],
+  edits: {
+    "1,2": {
+      value: "on",
+      geometry: { cellSize: [8, 8], gridOffset: [0, 0] }
+    }
+  },
+  regions: [{ name: "Region 1", settings: defaultRegionSettings, edits: {} }],
+  activeRegion: 0
+};
+
+// A project as saved by version 1, before perspective grids
+const versionOne = {
+  format: "extract-pixels-project",
+  version: 1,
+  settings: {
+    grid: { maxCells: [10, 10], cellSize: [4, 4], gridOffset: [1, 1] },
+    sampling: "mean",
+    threshold: defaultRegionSettings.threshold,
+    outputMode: "monochrome"
+  },
+  imageScale: 1,
+  palette: [],
+  edits: {}
+};
+
+const withFields = (fields: object) =>
+  JSON.stringify({ ...versionOne, ...fields });
+
+describe("parseProject", () => {
+  it("reads back a serialized project", () => {
+    expect(parseProject(serializeProject(content))).toEqual({
+      format: "extract-pixels-project",
+      version: currentProjectVersion,
+      ...content
+    });
+  });
+
+  it("migrates version 1 projects to the current version", () => {
+    const project = parseProject(JSON.stringify(versionOne));
+
+    expect(project.version).toBe(currentProjectVersion);
+    expect(project.settings.grid).toEqual(versionOne.settings.grid);
+  });
+
+  it("gives migrated grids no perspective", () => {
+    const { grid } = parseProject(JSON.stringify(versionOne)).settings;
+
+    expect("perspective" in grid).toBe(true);
+    expect(grid.perspective).toBeUndefined();
+  });
+
+  it("gives migrated grids no boundaries", () => {
+    const { grid } = parseProject(withFields({ version: 2 })).settings;
+
+    expect("boundaries" in grid).toBe(true);
+    expect(grid.boundaries).toBeUndefined();
+  });
+
+  it("gives migrated projects a single region", () => {
+    const project = parseProject(withFields({ version: 3 }));
+
+    expect(project.regions).toEqual([
+      { name: "Region 1", settings: project.settings, edits: project.edits }
+    ]);
+    expect(project.activeRegion).toBe(0);
+  });
+
+  it("gives migrated settings the default greyscale options", () => {
+    const project = parseProject(
+      withFields({
+        version: 4,
+        regions: [{ name: "Sprites", settings: versionOne.settings, edits: {} }]
+      })
+    );
+
+    expect(project.settings.greyscale).toEqual(defaultGreyscaleOptions);
+    expect(project.regions![0].settings.greyscale).toEqual(
+      defaultGreyscaleOptions
+    );
+  });
+
+  // Description, file contents and the error they should give
+  const invalid: [string, string, string][] = [
+    ["not JSON", "{", "Project file is not valid JSON."],
+    [
+      "another format",
+      withFields({ format: "other" }),
+      "File is not an extract-pixels project."
+    ],
+    [
+      "a fractional version",
+      withFields({ version: 1.5 }),
+      "Project file has an invalid version."
+    ],
+    [
+      "a newer version",
+      withFields({ version: currentProjectVersion + 1 }),
+      `Project version ${
+        currentProjectVersion + 1
+      } is newer than this app supports.`
+    ],
+    [
+      "no grid",
+      withFields({ settings: { ...versionOne.settings, grid: undefined } }),
+      "Project file has invalid settings."
+    ],
+    [
+      "a perspective grid before version 2",
+      withFields({
+        settings: {
+          ...versionOne.settings,
+          grid: {
+            ...versionOne.settings.grid,
+            perspective: {
+              corners: [
+                [0, 0],
+                [1, 0],
+                [1, 1],
+                [0, 1]
+              ],
+              cells: [1, 1]
+            }
+          }
+        }
+      }),
+      "Project file has invalid settings."
+    ],
+    [
+      "greyscale output before version 5",
+      withFields({
+        settings: { ...versionOne.settings, outputMode: "greyscale" }
+      }),
+      "Project file has invalid settings."
+    ],
+    [
+      "a palette colour that isn't RGB",
+      withFields({ palette: [{ name: "Ink", color: [1, 2], locked: false }] }),
+      "Project file has an invalid palette."
+    ],
+    [
+      "an edit without geometry",
+      withFields({ edits: { "0,0": { value: "on" } } }),
+      "Project file has invalid edits."
+    ],
+    [
+      "regions before version 4",
+      withFields({ regions: [] }),
+      "Project file has invalid regions."
+    ],
+    [
+      "a region without settings",
+      withFields({ version: 4, regions: [{ name: "Region 1", edits: {} }] }),
+      "Project file has invalid regions."
+    ]
+  ];
+
+  invalid.forEach(([description, text, message]) => {
+    it(`rejects ${description}`, () => {
+      expect(() => parseProject(text)).toThrow(new ProjectError(message));
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { Coord } from "../GridRenderer/rendererTypes";
+import { EditLayer } from "../PixelEditor/editLayer";
+import {
+  ExtractionSettings,
+  OutputMode,
+  PaletteEntry
+} from "../PixelExtractor/extractorTypes";
+import { defaultGreyscaleOptions } from "../PixelExtractor/greyscale";
+import { Region } from "../Regions/regions";
+
+const projectFormat = "extract-pixels-project";
+export const currentProjectVersion = 5;
+
+export interface Project {
+  format: typeof projectFormat;
+  version: typeof currentProjectVersion;
+
+  // Source image as a data URL
+  image?: string;
+
+  settings: ExtractionSettings;
+  imageScale: number;
+  palette: PaletteEntry[];
+  edits: EditLayer;
+
+  // All regions of the image, when there is more than one. settings and
+  // edits above are those of the active region.
+  regions?: Region[];
+  activeRegion?: number;
+}
+
+export type ProjectContent = Omit<Project, "format" | "version">;
+
+// Projects as saved by earlier versions
+type GridV1 = Pick<
+  ExtractionSettings["grid"],
+  "maxCells" | "cellSize" | "gridOffset"
+>;
+type GridV2 = GridV1 & Pick<ExtractionSettings["grid"], "perspective">;
+type GridV3 = ExtractionSettings["grid"];
+
+type SettingsV1<Grid> = Omit<
+  ExtractionSettings,
+  "grid" | "outputMode" | "greyscale"
+> & {
+  grid: Grid;
+  outputMode: Exclude<OutputMode, "greyscale">;
+};
+
+interface ProjectV1<Version = 1, Grid = GridV1> {
+  format: typeof projectFormat;
+  version: Version;
+  image?: string;
+  settings: SettingsV1<Grid>;
+  imageScale: number;
+  palette: PaletteEntry[];
+  edits: EditLayer;
+}
+
+type ProjectV2 = ProjectV1<2, GridV2>;
+type ProjectV3 = ProjectV1<3, GridV3>;
+
+interface ProjectV4 extends ProjectV1<4, GridV3> {
+  regions?: (Omit<Region, "settings"> & { settings: SettingsV1<GridV3> })[];
+  activeRegion?: number;
+}
+
+type SavedProject = ProjectV1 | ProjectV2 | ProjectV3 | ProjectV4 | Project;
+
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectError";
+  }
+}
+
+// migrations[n] upgrades a version n project to version n + 1. Add an entry
+// here, and a case to migrate, whenever currentProjectVersion is bumped.
+const migrations = {
+  // Version 2 added optional perspective grids. Version 1 grids are all
+  // axis aligned.
+  1: (project: ProjectV1): ProjectV2 => ({
+    ...project,
+    version: 2,
+    settings: {
+      ...project.settings,
+      grid: { ...project.settings.grid, perspective: undefined }
+    }
+  }),
+
+  // Version 3 added optional per-column and per-row grid boundaries. Older
+  // grids have evenly sized cells.
+  2: (project: ProjectV2): ProjectV3 => ({
+    ...project,
+    version: 3,
+    settings: {
+      ...project.settings,
+      grid: { ...project.settings.grid, boundaries: undefined }
+    }
+  }),
+
+  // Version 4 added optional named regions. Older projects have a single
+  // region, described by settings and edits.
+  3: (project: ProjectV3): ProjectV4 => ({
+    ...project,
+    version: 4,
+    regions: [
+      { name: "Region 1", settings: project.settings, edits: project.edits }
+    ],
+    activeRegion: 0
+  }),
+
+  // Version 5 added greyscale output, with optional levels and dithering
+  // settings. Older projects are monochrome or palette.
+  4: (project: ProjectV4): Project => {
+    const withGreyscale = (settings: SettingsV1<GridV3>) => ({
+      ...settings,
+      greyscale: defaultGreyscaleOptions
+    });
+
+    return {
+      ...project,
+      version: 5,
+      settings: withGreyscale(project.settings),
+      regions:
+        project.regions &&
+        project.regions.map((region) => ({
+          ...region,
+          settings: withGreyscale(region.settings)
+        }))
+    };
+  }
+};
+
+function migrate(project: SavedProject): Project {
+  switch (project.version) {
+    case 1:
+      return migrate(migrations[1](project));
+    case 2:
+      return migrate(migrations[2](project));
+    case 3:
+      return migrate(migrations[3](project));
+    case 4:
+      return migrate(migrations[4](project));
+    case currentProjectVersion:
+      return project;
+  }
+}
+
+type Fields = { [field: string]: unknown };
+
+/** Whether parsed JSON is an object, whose fields can then be checked */
+export function isFields(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumbers(value: unknown, length?: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    (length === undefined || value.length === length) &&
+    value.every((n) => typeof n === "number")
+  );
+}
+
+const isCoord = (value: unknown): value is Coord => isNumbers(value, 2);
+
+// Whether value is a grid as saved by the given project version
+function isGrid(value: unknown, version: number) {
+  if (
+    !isFields(value) ||
+    !isCoord(value.maxCells) ||
+    !isCoord(value.cellSize) ||
+    !isCoord(value.gridOffset)
+  ) {
+    return false;
+  }
+
+  const { perspective, boundaries } = value;
+
+  return (
+    (perspective === undefined ||
+      (version >= 2 &&
+        isFields(perspective) &&
+        Array.isArray(perspective.corners) &&
+        perspective.corners.length === 4 &&
+        perspective.corners.every(isCoord) &&
+        isCoord(perspective.cells))) &&
+    (boundaries === undefined ||
+      (version >= 3 &&
+        isFields(boundaries) &&
+        isNumbers(boundaries.columns) &&
+        isNumbers(boundaries.rows)))
+  );
+}
+
+/**
+ * Whether parsed JSON is extraction settings as saved by the given project
+ * version. Settings of earlier versions only lack optional fields.
+ */
+export function isSettings(
+  value: unknown,
+  version: number = currentProjectVersion
+): value is ExtractionSettings {
+  return (
+    isFields(value) &&
+    isGrid(value.grid, version) &&
+    typeof value.sampling === "string" &&
+    isFields(value.threshold) &&
+    (value.outputMode === "monochrome" ||
+      value.outputMode === "palette" ||
+      (version >= 5 && value.outputMode === "greyscale")) &&
+    (value.greyscale === undefined ||
+      (version >= 5 && isFields(value.greyscale)))
+  );
+}
+
+function isEdits(value: unknown) {
+  return (
+    isFields(value) &&
+    Object.keys(value).every((key) => {
+      const edit = value[key];
+      return (
+        isFields(edit) &&
+        (edit.value === "on" ||
+          edit.value === "off" ||
+          (isFields(edit.value) &&
+            typeof edit.value.paletteIndex === "number")) &&
+        isFields(edit.geometry) &&
+        isCoord(edit.geometry.cellSize) &&
+        isCoord(edit.geometry.gridOffset)
+      );
+    })
+  );
+}
+
+function isPaletteEntry(value: unknown) {
+  return (
+    isFields(value) &&
+    typeof value.name === "string" &&
+    isNumbers(value.color, 3) &&
+    typeof value.locked === "boolean"
+  );
+}
+
+function isRegion(value: unknown, version: number) {
+  return (
+    isFields(value) &&
+    typeof value.name === "string" &&
+    isSettings(value.settings, version) &&
+    isEdits(value.edits)
+  );
+}
+
+/** Check that parsed JSON has the shape of a project of its version */
+function validateProject(project: unknown): SavedProject {
+  if (!isFields(project) || project.format !== projectFormat) {
+    throw new ProjectError("File is not an extract-pixels project.");
+  }
+
+  const { version } = project;
+
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new ProjectError("Project file has an invalid version.");
+  }
+
+  if (version > currentProjectVersion) {
+    throw new ProjectError(
+      `Project version ${version} is newer than this app supports.`
+    );
+  }
+
+  if (project.image !== undefined && typeof project.image !== "string") {
+    throw new ProjectError("Project file has an invalid image.");
+  }
+
+  if (!isSettings(project.settings, version)) {
+    throw new ProjectError("Project file has invalid settings.");
+  }
+
+  if (typeof project.imageScale !== "number" || !(project.imageScale > 0)) {
+    throw new ProjectError("Project file has an invalid image scale.");
+  }
+
+  if (
+    !Array.isArray(project.palette) ||
+    !project.palette.every(isPaletteEntry)
+  ) {
+    throw new ProjectError("Project file has an invalid palette.");
+  }
+
+  if (!isEdits(project.edits)) {
+    throw new ProjectError("Project file has invalid edits.");
+  }
+
+  const { regions, activeRegion } = project;
+  const hasRegions = regions !== undefined || activeRegion !== undefined;
+
+  if (
+    (hasRegions && version < 4) ||
+    (regions !== undefined &&
+      !(
+        Array.isArray(regions) &&
+        regions.every((region) => isRegion(region, version))
+      )) ||
+    (activeRegion !== undefined && typeof activeRegion !== "number")
+  ) {
+    throw new ProjectError("Project file has invalid regions.");
+  }
+
+  // The checks above cover every field of every version
+  return (project as unknown) as SavedProject;
+}
+
+export function serializeProject(content: ProjectContent): string {
+  const project: Project = {
+    format: projectFormat,
+    version: currentProjectVersion,
+    ...content
+  };
+
+  return JSON.stringify(project);
+}
+
+/** Parse a project file, migrating it to the current version */
+export function parseProject(text: string): Project {
+  let project: unknown;
+  try {
+    project = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectError("Project file is not valid JSON.");
+  }
+
+  return migrate(validateProject(project));
+}
+
+/** Read a URL (such as an object URL) into a data URL */
+export async function toDataUrl(url: string): Promise<string> {
+  if (url.indexOf("data:") === 0) {
+    return url;
+  }
+
+  const blob = await (await fetch(url)).blob();
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,105 @@
+import * as React from "react";
+
+import { ReconstructionMetrics } from "./PixelExtractor/reconstruction";
+import { TuningObjective } from "./PixelExtractor/tuning";
+
+export type ReconstructionView =
+  | "overlay" // Reconstruction drawn over the source image
+  | "difference" // Heat map drawn over the source image
+  | "sideBySide"; // Reconstruction and heat map next to the extracted image
+
+interface ReconstructionPanelProps {
+  enabled: boolean;
+  onToggleEnabled: () => void;
+
+  view: ReconstructionView;
+  onChangeView: (view: ReconstructionView) => void;
+
+  metrics: ReconstructionMetrics | undefined;
+
+  objective: TuningObjective;
+  onChangeObjective: (objective: TuningObjective) => void;
+  onTuneGrid: () => void;
+  onTuneThreshold: () => void;
+
+  // True while tuning runs, which can be cancelled
+  tuning: boolean;
+  onCancelTuning: () => void;
+
+  status: string;
+}
+
+export function formatMetrics({
+  meanAbsoluteError,
+  psnr,
+  mismatchedCells,
+  cellCount
+}: ReconstructionMetrics) {
+  return (
+    `MAE ${meanAbsoluteError.toFixed(2)}, ` +
+    `PSNR ${isFinite(psnr) ? psnr.toFixed(1) + " dB" : "∞"}, ` +
+    `${mismatchedCells} of ${cellCount} cells mismatched`
+  );
+}
+
+export function ReconstructionPanel({
+  enabled,
+  onToggleEnabled,
+  view,
+  onChangeView,
+  metrics,
+  objective,
+  onChangeObjective,
+  onTuneGrid,
+  onTuneThreshold,
+  tuning,
+  onCancelTuning,
+  status
+}: ReconstructionPanelProps) {
+  return (
+    <div className="ScaleBar">
+      <label className="ScaleInfo">
+        <input type="checkbox" checked={enabled} onChange={onToggleEnabled} />
+        Reconstruction
+      </label>
+      {enabled && (
+        <>
+          <select
+            value={view}
+            onChange={(event) =>
+              onChangeView(event.target.value as ReconstructionView)
+            }
+          >
+            <option value="overlay">Overlay</option>
+            <option value="difference">Difference heat map</option>
+            <option value="sideBySide">Side by side</option>
+          </select>
+          <div className="StatusText">
+            {metrics ? formatMetrics(metrics) : ""}
+          </div>
+        </>
+      )}
+      <div className="ScaleInfo">
+        <div>Tune by:&nbsp;</div>
+        <select
+          value={objective}
+          onChange={(event) =>
+            onChangeObjective(event.target.value as TuningObjective)
+          }
+        >
+          <option value="meanAbsoluteError">Mean absolute error</option>
+          <option value="psnr">PSNR</option>
+          <option value="mismatchedCells">Mismatched cells</option>
+        </select>
+      </div>
+      <button onClick={onTuneGrid} disabled={tuning}>
+        Tune grid
+      </button>
+      <button onClick={onTuneThreshold} disabled={tuning}>
+        Tune threshold
+      </button>
+      {tuning && <button onClick={onCancelTuning}>Cancel</button>}
+      <div className="StatusText">{status}</div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import * as React from "react";
+
+import { ExportFormat, exportFormats } from "./Exporters/imageFormats";
+
+interface RegionPanelProps {
+  names: string[];
+  active: number;
+  onSelect: (index: number) => void;
+  onRename: (name: string) => void;
+  onAdd: () => void;
+  onRemove: () => void;
+
+  format: ExportFormat;
+  onExportAll: () => void;
+  exportError: string;
+}
+
+export function RegionPanel({
+  names,
+  active,
+  onSelect,
+  onRename,
+  onAdd,
+  onRemove,
+  format,
+  onExportAll,
+  exportError
+}: RegionPanelProps) {
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Region:&nbsp;</div>
+        <select
+          value={active}
+          onChange={(event) => onSelect(Number(event.target.value))}
+        >
+          {names.map((name, index) => (
+            <option key={index} value={index}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="ScaleInfo">
+        <div>Name:&nbsp;</div>
+        <input
+          type="text"
+          value={names[active]}
+          onChange={(event) => onRename(event.target.value)}
+        />
+      </div>
+      <button onClick={onAdd}>Add region</button>
+      <button onClick={onRemove} disabled={names.length < 2}>
+        Remove region
+      </button>
+      <button onClick={onExportAll}>
+        Export all regions as {exportFormats[format].label} (ZIP)
+      </button>
+      <div className="StatusText">
+        {exportError || "Click a dimmed grid to select its region"}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { AsciiArtOptions } from "../Exporters/asciiArt";
+import { IndexedImage } from "../Exporters/exportTypes";
+import {
+  encodeImage,
+  ExportFormat,
+  exportFormats
+} from "../Exporters/imageFormats";
+import { toIndexedImage } from "../Exporters/indexedImage";
+import { createZip, ZipEntry } from "../Exporters/zipArchive";
+import { applyEdits, EditLayer } from "../PixelEditor/editLayer";
+import { extractPixels } from "../PixelExtractor/extractPixels";
+import {
+  ExtractedPixels,
+  ExtractionSettings,
+  OutputMode,
+  PaletteEntry
+} from "../PixelExtractor/extractorTypes";
+import {
+  defaultGreyscaleOptions,
+  GreyscaleOptions
+} from "../PixelExtractor/greyscale";
+import { defaultThresholdOptions } from "../PixelExtractor/threshold";
+
+// A named part of the source image with its own grid, extraction options
+// and edits, such as one of several sprite sheets in a screenshot
+export interface Region {
+  name: string;
+  settings: ExtractionSettings;
+  edits: EditLayer;
+}
+
+// Settings of the first region of a new image
+export const defaultRegionSettings: ExtractionSettings = {
+  grid: { maxCells: [500, 500], cellSize: [8, 8], gridOffset: [0, 0] },
+  sampling: "mean",
+  threshold: defaultThresholdOptions,
+  outputMode: "monochrome",
+  greyscale: defaultGreyscaleOptions
+};
+
+/** "Region n" with the lowest n that isn't taken */
+export function newRegionName(regions: Region[]) {
+  const taken = (name: string) =>
+    regions.some((region) => region.name === name);
+
+  let n = 1;
+  while (taken(`Region ${n}`)) {
+    ++n;
+  }
+
+  return `Region ${n}`;
+}
+
+/** Extracted cells at one pixel per cell, with edits applied */
+export function editedImage(
+  extracted: ExtractedPixels,
+  outputMode: OutputMode,
+  edits: EditLayer,
+  palette: PaletteEntry[],
+  greyscale?: GreyscaleOptions
+): IndexedImage {
+  return applyEdits(
+    toIndexedImage(extracted, outputMode, palette, greyscale),
+    edits,
+    outputMode === "palette" && palette.length > 0,
+    palette.map((entry) => entry.color)
+  );
+}
+
+// Characters that aren't allowed in file names on some systems
+const reservedCharacters = /[\\/:*?"<>|]/g;
+
+function fileBaseName(regionName: string) {
+  return regionName.replace(reservedCharacters, "_").trim() || "region";
+}
+
+/**
+ * Extract every region from the source image and export it in the given
+ * format, plus a manifest.json of the settings used for each region.
+ * Regions that fail to extract are listed in the manifest with their error.
+ */
+export function exportRegions(
+  source: ImageData,
+  regions: Region[],
+  palette: PaletteEntry[],
+  format: ExportFormat,
+  asciiArt: AsciiArtOptions
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const { extension } = exportFormats[format];
+  const usedNames: { [name: string]: boolean } = { "manifest.json": true };
+  const entries: ZipEntry[] = [];
+
+  const manifestRegions = regions.map(({ name, settings, edits }) => {
+    let output: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const image = editedImage(
+        extractPixels(source, settings.grid, settings),
+        settings.outputMode,
+        edits,
+        palette,
+        settings.greyscale
+      );
+
+      // Regions with the same file name get a numeric suffix
+      const baseName = fileBaseName(name);
+      output = `${baseName}.${extension}`;
+      for (let i = 2; usedNames[output]; ++i) {
+        output = `${baseName}-${i}.${extension}`;
+      }
+      usedNames[output] = true;
+
+      const data = encodeImage(format, image, { asciiArt, settings });
+      entries.push({
+        name: output,
+        data: typeof data === "string" ? encoder.encode(data) : data
+      });
+    } catch (caught) {
+      output = undefined;
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    return { name, output, settings, error };
+  });
+
+  const manifest = { format, regions: manifestRegions };
+
+  entries.push({
+    name: "manifest.json",
+    data: encoder.encode(JSON.stringify(manifest, null, 2) + "\n")
+  });
+
+  return createZip(entries);
+}
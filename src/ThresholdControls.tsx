@@ -0,0 +1,118 @@
+import * as React from "react";
+
+import { colorToHex, hexToColor } from "./colorHex";
+import { ThresholdMode, ThresholdOptions } from "./PixelExtractor/threshold";
+
+interface ThresholdControlsProps {
+  threshold: ThresholdOptions;
+  onChange: (threshold: ThresholdOptions) => void;
+
+  // Level applied by the last extraction, shown for automatic thresholds
+  appliedLevel: number;
+}
+
+export function ThresholdControls({
+  threshold,
+  onChange,
+  appliedLevel
+}: ThresholdControlsProps) {
+  const { mode } = threshold;
+
+  const onChangeMode = (event: React.ChangeEvent<HTMLSelectElement>) =>
+    onChange({ ...threshold, mode: event.target.value as ThresholdMode });
+
+  const onChangeLevel = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const level = event.target.valueAsNumber;
+    if (!isNaN(level)) {
+      onChange({ ...threshold, level: Math.min(255, Math.max(level, 0)) });
+    }
+  };
+
+  const onChangeChannel = (event: React.ChangeEvent<HTMLSelectElement>) =>
+    onChange({
+      ...threshold,
+      channel: parseInt(event.target.value, 10) as 0 | 1 | 2
+    });
+
+  const onChangeKeyColor = (event: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...threshold, keyColor: hexToColor(event.target.value) });
+
+  const onChangeTolerance = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const tolerance = event.target.valueAsNumber;
+    if (!isNaN(tolerance)) {
+      onChange({
+        ...threshold,
+        tolerance: Math.min(442, Math.max(tolerance, 0))
+      });
+    }
+  };
+
+  const onToggleInvert = () =>
+    onChange({ ...threshold, invert: !threshold.invert });
+
+  return (
+    <div className="ScaleBar">
+      <div className="ScaleInfo">
+        <div>Threshold:&nbsp;</div>
+        <select value={mode} onChange={onChangeMode}>
+          <option value="anyChannel">Any channel</option>
+          <option value="luminance">Luminance</option>
+          <option value="channel">Single channel</option>
+          <option value="otsu">Automatic (Otsu)</option>
+          <option value="colorKey">Colour key</option>
+        </select>
+      </div>
+      {mode === "channel" && (
+        <select value={threshold.channel} onChange={onChangeChannel}>
+          <option value={0}>Red</option>
+          <option value={1}>Green</option>
+          <option value={2}>Blue</option>
+        </select>
+      )}
+      {(mode === "anyChannel" ||
+        mode === "luminance" ||
+        mode === "channel") && (
+        <div className="ScaleInfo">
+          <div>Level:&nbsp;</div>
+          <input
+            type="number"
+            min={0}
+            max={255}
+            step={1}
+            value={threshold.level}
+            onChange={onChangeLevel}
+          />
+        </div>
+      )}
+      {mode === "otsu" && (
+        <div className="ScaleInfo">Level:&nbsp;{appliedLevel}</div>
+      )}
+      {mode === "colorKey" && (
+        <div className="ScaleInfo">
+          <input
+            type="color"
+            value={colorToHex(threshold.keyColor)}
+            onChange={onChangeKeyColor}
+          />
+          <div>Tolerance:&nbsp;</div>
+          <input
+            type="number"
+            min={0}
+            max={442}
+            step={1}
+            value={threshold.tolerance}
+            onChange={onChangeTolerance}
+          />
+        </div>
+      )}
+      <label className="ScaleInfo">
+        <input
+          type="checkbox"
+          checked={threshold.invert}
+          onChange={onToggleInvert}
+        />
+        Invert
+      </label>
+    </div>
+  );
+}
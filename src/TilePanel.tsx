@@ -0,0 +1,223 @@
+import * as React from "react";
+
+import { BDFOptions, exportBDF, maxCharCode } from "./Exporters/bdfExporter";
+import { IndexedImage } from "./Exporters/exportTypes";
+import { ExportContext, ExportFormat } from "./Exporters/imageFormats";
+import { Coord, TileParams } from "./GridRenderer/rendererTypes";
+import { exportTileArchive } from "./Tiles/tileArchive";
+import { sliceTiles } from "./Tiles/tiles";
+
+interface TilePanelProps {
+  image: IndexedImage | undefined;
+
+  enabled: boolean;
+  onToggleEnabled: () => void;
+
+  tiles: TileParams;
+  onChangeTiles: (tiles: TileParams) => void;
+
+  bdfOptions: BDFOptions;
+  onChangeBDFOptions: (options: BDFOptions) => void;
+
+  format: ExportFormat;
+  context: ExportContext;
+  onSave: (data: Uint8Array | string, fileName: string, type: string) => void;
+}
+
+function CoordInput({
+  label,
+  value,
+  min,
+  onChange
+}: {
+  label: string;
+  value: Coord;
+  min: number;
+  onChange: (value: Coord) => void;
+}) {
+  const onChangeAxis = (axis: 0 | 1) => (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const axisValue = event.target.valueAsNumber;
+    if (!isNaN(axisValue)) {
+      const updated: Coord = [value[0], value[1]];
+      updated[axis] = Math.max(min, Math.round(axisValue));
+      onChange(updated);
+    }
+  };
+
+  return (
+    <div className="ScaleInfo">
+      <div>{label}:&nbsp;</div>
+      <input
+        type="number"
+        min={min}
+        step={1}
+        value={value[0]}
+        onChange={onChangeAxis(0)}
+      />
+      <div>&nbsp;x&nbsp;</div>
+      <input
+        type="number"
+        min={min}
+        step={1}
+        value={value[1]}
+        onChange={onChangeAxis(1)}
+      />
+    </div>
+  );
+}
+
+export function TilePanel({
+  image,
+  enabled,
+  onToggleEnabled,
+  tiles,
+  onChangeTiles,
+  bdfOptions,
+  onChangeBDFOptions,
+  format,
+  context,
+  onSave
+}: TilePanelProps) {
+  const [status, setStatus] = React.useState("");
+
+  const slicedTiles = React.useMemo(
+    () => (image ? sliceTiles(image, tiles) : []),
+    [image, tiles]
+  );
+
+  // Tiles are given consecutive codes, so the font only covers one range
+  const lastCharCode = bdfOptions.firstCharCode + slicedTiles.length - 1;
+
+  const onExportTiles = () => {
+    try {
+      onSave(
+        exportTileArchive(
+          slicedTiles,
+          tiles,
+          format,
+          context,
+          bdfOptions.firstCharCode
+        ),
+        "tiles.zip",
+        "application/zip"
+      );
+      setStatus("");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const onExportFont = () => {
+    try {
+      onSave(
+        exportBDF(slicedTiles, bdfOptions),
+        `${bdfOptions.fontName || "extracted"}.bdf`,
+        "application/x-font-bdf"
+      );
+      setStatus("");
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const onChangeFirstCharCode = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const firstCharCode = event.target.valueAsNumber;
+    if (!isNaN(firstCharCode)) {
+      onChangeBDFOptions({
+        ...bdfOptions,
+        firstCharCode: Math.min(maxCharCode, Math.max(0, firstCharCode))
+      });
+    }
+  };
+
+  const onChangeDescent = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const descent = event.target.valueAsNumber;
+    if (!isNaN(descent)) {
+      onChangeBDFOptions({
+        ...bdfOptions,
+        descent: Math.min(tiles.tileSize[1], Math.max(0, descent))
+      });
+    }
+  };
+
+  return (
+    <div className="PalettePanel">
+      <div className="ScaleBar">
+        <label className="ScaleInfo">
+          <input type="checkbox" checked={enabled} onChange={onToggleEnabled} />
+          Tiles
+        </label>
+        {enabled && (
+          <>
+            <CoordInput
+              label="Size"
+              value={tiles.tileSize}
+              min={1}
+              onChange={(tileSize) => onChangeTiles({ ...tiles, tileSize })}
+            />
+            <CoordInput
+              label="Spacing"
+              value={tiles.spacing}
+              min={0}
+              onChange={(spacing) => onChangeTiles({ ...tiles, spacing })}
+            />
+            <CoordInput
+              label="Margin"
+              value={tiles.margin}
+              min={0}
+              onChange={(margin) => onChangeTiles({ ...tiles, margin })}
+            />
+          </>
+        )}
+      </div>
+      {enabled && (
+        <div className="ScaleBar">
+          <div className="ScaleInfo">
+            <div>Font:&nbsp;</div>
+            <input
+              type="text"
+              value={bdfOptions.fontName}
+              onChange={(event) =>
+                onChangeBDFOptions({
+                  ...bdfOptions,
+                  fontName: event.target.value
+                })
+              }
+            />
+            <div>First code:&nbsp;</div>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={bdfOptions.firstCharCode}
+              onChange={onChangeFirstCharCode}
+            />
+            {slicedTiles.length > 0 && (
+              <div>&nbsp;to {lastCharCode}, one per tile, row by row&nbsp;</div>
+            )}
+            <div>Descent:&nbsp;</div>
+            <input
+              type="number"
+              min={0}
+              max={tiles.tileSize[1]}
+              step={1}
+              value={bdfOptions.descent}
+              onChange={onChangeDescent}
+            />
+          </div>
+          <button onClick={onExportTiles} disabled={slicedTiles.length === 0}>
+            Export {slicedTiles.length} tiles (ZIP)
+          </button>
+          <button onClick={onExportFont} disabled={slicedTiles.length === 0}>
+            Export BDF font
+          </button>
+          <div className="StatusText">{status}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import {
+  encodeImage,
+  ExportContext,
+  ExportFormat,
+  exportFormats
+} from "../Exporters/imageFormats";
+import { createZip, ZipEntry } from "../Exporters/zipArchive";
+import { TileParams } from "../GridRenderer/rendererTypes";
+import { packSpriteSheet, Tile } from "./tiles";
+
+/**
+ * Export every tile as a separate image, together with a packed sprite sheet
+ * and a JSON description of the frames in the sheet.
+ */
+export function exportTileArchive(
+  tiles: Tile[],
+  params: TileParams,
+  format: ExportFormat,
+  context: ExportContext,
+  firstCharCode?: number
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const { extension } = exportFormats[format];
+
+  const encode = (image: Tile["image"]) => {
+    const data = encodeImage(format, image, context);
+    return typeof data === "string" ? encoder.encode(data) : data;
+  };
+
+  const digits = Math.max(3, String(tiles.length - 1).length);
+  const entries: ZipEntry[] = tiles.map((tile, index) => ({
+    name: `tile-${("000000" + index).substr(-digits)}.${extension}`,
+    data: encode(tile.image)
+  }));
+
+  const { sheet, frames } = packSpriteSheet(
+    tiles,
+    params.tileSize,
+    firstCharCode
+  );
+
+  entries.push(
+    { name: `sheet.${extension}`, data: encode(sheet) },
+    {
+      name: "sheet.json",
+      data: encoder.encode(
+        JSON.stringify(
+          {
+            image: `sheet.${extension}`,
+            width: sheet.width,
+            height: sheet.height,
+            tiles: params,
+            frames
+          },
+          null,
+          2
+        )
+      )
+    }
+  );
+
+  return createZip(entries);
+}
@@ -0,0 +1,174 @@
+import { Coord, TileParams } from "../GridRenderer/rendererTypes";
+import { IndexedImage } from "../Exporters/exportTypes";
+
+export const defaultTileParams: TileParams = {
+  tileSize: [8, 8],
+  spacing: [0, 0],
+  margin: [0, 0]
+};
+
+export interface Tile {
+  // Position of the tile in the tile layout
+  column: number;
+  row: number;
+
+  // Top left cell of the tile
+  origin: Coord;
+
+  image: IndexedImage;
+}
+
+/** Number of whole tiles that fit in a grid of the given number of cells */
+export function tileCount(
+  gridCells: Coord,
+  { tileSize, spacing, margin }: TileParams
+): Coord {
+  const count = (axis: 0 | 1) =>
+    tileSize[axis] > 0
+      ? Math.max(
+          0,
+          Math.floor(
+            (gridCells[axis] - margin[axis] + spacing[axis]) /
+              (tileSize[axis] + spacing[axis])
+          )
+        )
+      : 0;
+
+  return [count(0), count(1)];
+}
+
+/** Top left cell of the tile at the given column and row */
+export function tileOrigin(
+  column: number,
+  row: number,
+  { tileSize, spacing, margin }: TileParams
+): Coord {
+  return [
+    margin[0] + column * (tileSize[0] + spacing[0]),
+    margin[1] + row * (tileSize[1] + spacing[1])
+  ];
+}
+
+export function cropImage(
+  image: IndexedImage,
+  [x0, y0]: Coord,
+  [width, height]: Coord
+): IndexedImage {
+  const indices = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; ++y) {
+    const start = (y0 + y) * image.width + x0;
+    indices.set(image.indices.subarray(start, start + width), y * width);
+  }
+
+  return { width, height, indices, palette: image.palette };
+}
+
+/** Split an image into tiles, row by row */
+export function sliceTiles(image: IndexedImage, params: TileParams): Tile[] {
+  const [columns, rows] = tileCount([image.width, image.height], params);
+  const tiles: Tile[] = [];
+
+  for (let row = 0; row < rows; ++row) {
+    for (let column = 0; column < columns; ++column) {
+      const origin = tileOrigin(column, row, params);
+      tiles.push({
+        column,
+        row,
+        origin,
+        image: cropImage(image, origin, params.tileSize)
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Bounding box of the on cells (non-zero palette index) of an image, as
+ * [left, top, width, height]. Empty images have a zero size box.
+ */
+export function trimBounds({
+  width,
+  height,
+  indices
+}: IndexedImage): [number, number, number, number] {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; ++y) {
+    for (let x = 0; x < width; ++x) {
+      if (indices[y * width + x]) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  return right < 0
+    ? [0, 0, 0, 0]
+    : [left, top, right - left + 1, bottom - top + 1];
+}
+
+export interface SpriteFrame {
+  index: number;
+  charCode?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pack tiles into a sheet without margins or spacing, keeping the tile
+ * layout. Returns the sheet and the position of each tile in it.
+ */
+export function packSpriteSheet(
+  tiles: Tile[],
+  tileSize: Coord,
+  firstCharCode?: number
+): { sheet: IndexedImage; frames: SpriteFrame[] } {
+  const columns = tiles.reduce(
+    (max, tile) => Math.max(max, tile.column + 1),
+    0
+  );
+  const rows = tiles.reduce((max, tile) => Math.max(max, tile.row + 1), 0);
+  const width = columns * tileSize[0];
+  const height = rows * tileSize[1];
+
+  const indices = new Uint8Array(width * height);
+  const frames = tiles.map((tile, index) => {
+    const x = tile.column * tileSize[0];
+    const y = tile.row * tileSize[1];
+
+    for (let ty = 0; ty < tileSize[1]; ++ty) {
+      indices.set(
+        tile.image.indices.subarray(ty * tileSize[0], (ty + 1) * tileSize[0]),
+        (y + ty) * width + x
+      );
+    }
+
+    return {
+      index,
+      charCode: firstCharCode !== undefined ? firstCharCode + index : undefined,
+      x,
+      y,
+      width: tileSize[0],
+      height: tileSize[1]
+    };
+  });
+
+  return {
+    sheet: {
+      width,
+      height,
+      indices,
+      palette: tiles.length > 0 ? tiles[0].image.palette : []
+    },
+    frames
+  };
+}
@@ -0,0 +1,21 @@
+import { RGB } from "./PixelExtractor/extractorTypes";
+
+export function colorToHex(color: RGB) {
+  return (
+    "#" +
+    color
+      .map((value) => {
+        const hex = Math.round(value).toString(16);
+        return hex.length < 2 ? "0" + hex : hex;
+      })
+      .join("")
+  );
+}
+
+export function hexToColor(hex: string): RGB {
+  return [
+    parseInt(hex.substr(1, 2), 16),
+    parseInt(hex.substr(3, 2), 16),
+    parseInt(hex.substr(5, 2), 16)
+  ];
+}
@@ -0,0 +1,10 @@
+// Modules imported through worker-loader, as in
+// "worker-loader!./PixelExtractor/extraction.worker", export a constructor
+// for a worker running that module
+declare module "worker-loader!*" {
+  class WebpackWorker extends Worker {
+    constructor();
+  }
+
+  export default WebpackWorker;
+}